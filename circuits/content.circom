@@ -0,0 +1,132 @@
+pragma circom 2.1.0;
+
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+
+// Proof of content for a file stored as an AES-256-GCM container: the prover
+// knows the data key behind keyCommitment and plaintext with content hash
+// contentHash whose size is within [minSize, maxSize] and which starts with the
+// first prefixLength bytes of prefix, and binds that statement to the stored
+// ciphertext through ciphertextHash. AES-GCM is not evaluated in the circuit:
+// whoever is handed the data key checks the binding by decrypting.
+//
+// The data key is two 128-bit big-endian halves and keyCommitment is
+// Poseidon(high, low). The plaintext's first 31 bytes (the head) are one
+// little-endian field element, zero past the end of the file; the rest (the
+// tail) enters as the SHA-256 of its bytes reduced mod r, zero when there is
+// none. contentHash is Poseidon(head, size, tailHash).
+// Public signals: [keyCommitment, ciphertextHash, contentHash, minSize,
+// maxSize, prefixLength, prefix[16]]
+template Content() {
+    var HEAD = 31;
+    var PREFIX = 16;
+    var SIZE_BITS = 48;
+
+    signal input keyCommitment;
+    signal input ciphertextHash;
+    signal input contentHash;
+    signal input minSize;
+    signal input maxSize;
+    signal input prefixLength;
+    signal input prefix[PREFIX];
+
+    signal input key[2];
+    signal input size;
+    signal input head;
+    signal input tailHash;
+
+    component keyBits[2];
+    for (var i = 0; i < 2; i++) {
+        keyBits[i] = Num2Bits(128);
+        keyBits[i].in <== key[i];
+    }
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== key[0];
+    commitment.inputs[1] <== key[1];
+    keyCommitment === commitment.out;
+
+    // Bind the stored ciphertext to the proof so it cannot be moved to another
+    signal ciphertextSquare;
+    ciphertextSquare <== ciphertextHash * ciphertextHash;
+
+    // Size bounds
+    component sizeBits = Num2Bits(SIZE_BITS);
+    sizeBits.in <== size;
+    component minBits = Num2Bits(SIZE_BITS);
+    minBits.in <== minSize;
+    component maxBits = Num2Bits(SIZE_BITS);
+    maxBits.in <== maxSize;
+
+    component aboveMin = LessEqThan(SIZE_BITS);
+    aboveMin.in[0] <== minSize;
+    aboveMin.in[1] <== size;
+    aboveMin.out === 1;
+    component belowMax = LessEqThan(SIZE_BITS);
+    belowMax.in[0] <== size;
+    belowMax.in[1] <== maxSize;
+    belowMax.out === 1;
+
+    // Head bytes; live[i] is 1 while byte i is inside the file, and every byte
+    // past the end must be zero so the head has a single encoding
+    component headBits = Num2Bits(HEAD * 8);
+    headBits.in <== head;
+    signal bytes[HEAD];
+    signal live[HEAD];
+    component atEnd[HEAD];
+    for (var i = 0; i < HEAD; i++) {
+        var value = 0;
+        for (var b = 0; b < 8; b++) {
+            value += headBits.out[i * 8 + b] * (1 << b);
+        }
+        bytes[i] <== value;
+
+        atEnd[i] = IsEqual();
+        atEnd[i].in[0] <== i;
+        atEnd[i].in[1] <== size;
+        live[i] <== (i == 0 ? 1 : live[i - 1]) - atEnd[i].out;
+        bytes[i] * (1 - live[i]) === 0;
+    }
+
+    // Files that fit in the head have no tail
+    component hasTail = LessThan(SIZE_BITS);
+    hasTail.in[0] <== HEAD;
+    hasTail.in[1] <== size;
+    (1 - hasTail.out) * tailHash === 0;
+
+    // Leading bytes
+    component prefixBits = Num2Bits(5);
+    prefixBits.in <== prefixLength;
+    component prefixFits = LessEqThan(5);
+    prefixFits.in[0] <== prefixLength;
+    prefixFits.in[1] <== PREFIX;
+    prefixFits.out === 1;
+    component prefixInFile = LessEqThan(SIZE_BITS);
+    prefixInFile.in[0] <== prefixLength;
+    prefixInFile.in[1] <== size;
+    prefixInFile.out === 1;
+
+    component inPrefix[PREFIX];
+    for (var i = 0; i < PREFIX; i++) {
+        inPrefix[i] = LessThan(5);
+        inPrefix[i].in[0] <== i;
+        inPrefix[i].in[1] <== prefixLength;
+        inPrefix[i].out * (bytes[i] - prefix[i]) === 0;
+    }
+
+    component digest = Poseidon(3);
+    digest.inputs[0] <== head;
+    digest.inputs[1] <== size;
+    digest.inputs[2] <== tailHash;
+    contentHash === digest.out;
+}
+
+component main {public [
+    keyCommitment,
+    ciphertextHash,
+    contentHash,
+    minSize,
+    maxSize,
+    prefixLength,
+    prefix
+]} = Content();
@@ -0,0 +1,24 @@
+pragma circom 2.1.0;
+
+include "circomlib/circuits/poseidon.circom";
+
+// Proof of file ownership: knowledge of the secret behind a file's ownership
+// commitment, Poseidon(secret, fileHash), without revealing the secret.
+// Public signals: [commitment, fileHash, challenge]
+template Ownership() {
+    signal input secret;
+    signal input fileHash;
+    signal input challenge;
+    signal output commitment;
+
+    component hash = Poseidon(2);
+    hash.inputs[0] <== secret;
+    hash.inputs[1] <== fileHash;
+    commitment <== hash.out;
+
+    // Bind the verifier's challenge to the proof so it cannot be replayed
+    signal challengeSquare;
+    challengeSquare <== challenge * challenge;
+}
+
+component main {public [fileHash, challenge]} = Ownership();
@@ -0,0 +1,47 @@
+#!/bin/sh
+# Build the Groth16 artifacts of the circuits in circuits/: for each circuit,
+# <name>.wasm, <name>.zkey and <name>_vkey.json in $OUT (default
+# circuits/artifacts/, the ones shipped with the package). Intermediate files
+# go to $BUILD (default build/circuits/).
+#
+# Needs circom 2 (https://docs.circom.io/getting-started/installation/), run as
+# $CIRCOM (default circom; the circom2 npm package also works); circomlib and
+# snarkjs come from the package's dependencies. Set PTAU to a powers of tau
+# file of at least 2^14 (e.g. from a public ceremony); otherwise a local one is
+# generated. Keys from this single-party setup are for development: whoever ran
+# it can forge proofs, so production keys need a multi-party ceremony.
+set -eu
+
+cd "$(dirname "$0")/.."
+OUT="${OUT:-circuits/artifacts}"
+BUILD="${BUILD:-build/circuits}"
+CIRCOM="${CIRCOM:-circom}"
+SNARKJS="npx --no-install snarkjs"
+mkdir -p "$OUT" "$BUILD"
+
+entropy() {
+  head -c 32 /dev/urandom | od -An -tx1 | tr -d ' \n'
+}
+
+if [ -z "${PTAU:-}" ]; then
+  PTAU="$BUILD/pot14_final.ptau"
+  if [ ! -f "$PTAU" ]; then
+    $SNARKJS powersoftau new bn128 14 "$BUILD/pot14_0000.ptau"
+    $SNARKJS powersoftau contribute "$BUILD/pot14_0000.ptau" "$BUILD/pot14_0001.ptau" \
+      --name=local -e="$(entropy)"
+    $SNARKJS powersoftau prepare phase2 "$BUILD/pot14_0001.ptau" "$PTAU"
+    rm "$BUILD/pot14_0000.ptau" "$BUILD/pot14_0001.ptau"
+  fi
+fi
+
+for circuit in ownership content; do
+  $CIRCOM "circuits/$circuit.circom" --r1cs --wasm --O2 -l node_modules -o "$BUILD"
+  mv "$BUILD/${circuit}_js/$circuit.wasm" "$OUT/$circuit.wasm"
+  rm -r "$BUILD/${circuit}_js"
+
+  $SNARKJS groth16 setup "$BUILD/$circuit.r1cs" "$PTAU" "$BUILD/${circuit}_0000.zkey"
+  $SNARKJS zkey contribute "$BUILD/${circuit}_0000.zkey" "$OUT/$circuit.zkey" \
+    --name=local -e="$(entropy)"
+  $SNARKJS zkey export verificationkey "$OUT/$circuit.zkey" "$OUT/${circuit}_vkey.json"
+  rm "$BUILD/${circuit}_0000.zkey" "$BUILD/$circuit.r1cs"
+done
@@ -0,0 +1,84 @@
+import { join } from 'path';
+import { Keypair } from '@solana/web3.js';
+import { ZKFileClient } from './client';
+import { MemoryStorageProvider } from './storage/memory';
+import type { CircuitArtifacts, FileRecord } from './types';
+
+const PASSWORD = 'correct horse battery staple';
+const ARTIFACTS = join(__dirname, '../circuits/artifacts');
+
+function artifacts(circuit: string): CircuitArtifacts {
+  return {
+    wasm: join(ARTIFACTS, `${circuit}.wasm`),
+    zkey: join(ARTIFACTS, `${circuit}.zkey`),
+    verificationKey: join(ARTIFACTS, `${circuit}_vkey.json`),
+  };
+}
+
+describe('ZKFileClient', () => {
+  describe('without a program ID', () => {
+    const memory = new MemoryStorageProvider();
+    const client = new ZKFileClient({
+      rpcEndpoint: 'http://127.0.0.1:8899',
+      storageProvider: 'memory',
+      storageProviders: [memory],
+    });
+    const wallet = { publicKey: Keypair.generate().publicKey };
+
+    it('rejects uploads before storing anything', async () => {
+      const upload = jest.spyOn(memory, 'upload');
+
+      await expect(
+        client.upload({ file: new Uint8Array(16), password: PASSWORD, wallet })
+      ).rejects.toMatchObject({ code: 'PROGRAM_ID_NOT_SET' });
+      await expect(
+        client.uploadDirectory({
+          files: [{ path: 'a.txt', file: new Uint8Array(4) }],
+          password: PASSWORD,
+          wallet,
+        })
+      ).rejects.toMatchObject({ code: 'PROGRAM_ID_NOT_SET' });
+      expect(upload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('content proofs', () => {
+    const memory = new MemoryStorageProvider();
+    const client = new ZKFileClient({
+      rpcEndpoint: 'http://127.0.0.1:8899',
+      programId: Keypair.generate().publicKey.toBase58(),
+      storageProvider: 'memory',
+      storageProviders: [memory],
+      circuits: { content: artifacts('content') },
+    });
+    const wallet = { publicKey: Keypair.generate().publicKey };
+
+    it('proves the content of an uploaded container and verifies it at its CID', async () => {
+      const encryption = client.getEncryptionService();
+      const data = Uint8Array.of(0x25, 0x50, 0x44, 0x46, 0x2d, ...new Uint8Array(100));
+      const cid = await memory.upload(
+        encryption.combineEncryptedParts(await encryption.encryptFile(data, PASSWORD))
+      );
+      jest
+        .spyOn(client.getSolanaService(), 'resolveFile')
+        .mockResolvedValue({ cid, storageProvider: 'memory' } as FileRecord);
+      const schema = { mimeType: 'application/pdf' };
+
+      const result = await client.proveContent({
+        fileId: 'file',
+        password: PASSWORD,
+        wallet,
+        schema,
+      });
+
+      expect(result).toMatchObject({ cid, storageProvider: 'memory' });
+      expect(result.contentHash).toEqual(
+        await client.getZKProofService().computeContentHash(data)
+      );
+      expect(await client.verifyContent({ ...result, schema })).toBe(true);
+      expect(
+        await client.verifyContent({ ...result, schema: { mimeType: 'application/zip' } })
+      ).toBe(false);
+    }, 30_000);
+  });
+});
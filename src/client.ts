@@ -1,18 +1,89 @@
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
 import { EncryptionService } from './services/encryption';
 import { StorageService } from './services/storage';
 import { SolanaService } from './services/solana';
 import { ZKProofService } from './services/zk-proof';
-import { ValidationError } from './errors';
+import { ArweaveProvider, IpfsProvider } from './storage';
+import {
+  AccessDeniedError,
+  EncryptionError,
+  RekeyError,
+  SolanaError,
+  StorageError,
+  TransactionError,
+  ValidationError,
+  WeakPasswordError,
+  ZKFileError,
+} from './errors';
+import {
+  ARCHIVE_MIME_TYPE,
+  buildArchiveManifest,
+  createArchiveStream,
+  encodeArchiveManifest,
+  normalizeEntryPath,
+  readArchiveManifest,
+  readStreamBytes,
+  resolveDirectory,
+} from './utils/archive';
+import type { ArchiveManifest } from './utils/archive';
+import { walletDataItemSigner } from './utils/data-item';
+import { concatBytes, fromBase64, toBase64 } from './utils/encoding';
+import {
+  describeInput,
+  isBufferedInput,
+  loadFs,
+  readInput,
+  readInputRange,
+  toReadableStream,
+} from './utils/input';
+import { estimatePasswordStrength } from './utils/password';
+import { ProgressTracker } from './utils/progress';
+import { decodeUploadSession, encodeUploadSession } from './utils/upload-session';
+import type { UploadSession } from './utils/upload-session';
 import type {
   ZKFileConfig,
+  PasswordPolicy,
   UploadOptions,
   UploadResult,
+  UpdateFileOptions,
+  UpdateFileResult,
+  FileVersion,
+  UploadDirectoryOptions,
+  UploadDirectoryResult,
+  ArchiveEntry,
+  ResumableUploadOptions,
   DownloadOptions,
+  DownloadToFileOptions,
   ShareOptions,
+  ShareManyOptions,
   ShareResult,
   RevokeOptions,
+  RotateKeyOptions,
+  RotateKeyResult,
   FileMetadata,
+  FileInput,
+  ChunkedEncryption,
+  ProgressCallback,
+  DecryptedFile,
+  DecryptedStream,
+  EncryptedFile,
+  FileRecord,
+  WalletAdapter,
+  CommitOwnershipOptions,
+  ProveOwnershipOptions,
+  VerifyOwnershipOptions,
+  ProveContentOptions,
+  ContentProof,
+  VerifyContentOptions,
+  ZKProof,
+  AuditLog,
+  AuditLogOptions,
+  AccessControl,
+  AccessListOptions,
+  DeleteOptions,
+  DeleteResult,
+  RetentionOptions,
+  CleanupResult,
 } from './types';
 
 /**
@@ -20,20 +91,48 @@ import type {
  * Main SDK client for interacting with ZKFile Protocol
  */
 export class ZKFileClient {
+  /** Blobs larger than this are encrypted and uploaded as a stream */
+  private static readonly STREAMING_THRESHOLD = 64 * 1024 * 1024;
+  /** Default resumable upload part size */
+  private static readonly PART_SIZE = 8 * 1024 * 1024;
+  /** Attempts to reopen an interrupted chunked download */
+  private static readonly DOWNLOAD_RETRIES = 5;
+  /** Delay before the first download retry, doubled on each attempt */
+  private static readonly RETRY_DELAY = 500;
+  /** Lowest password strength score accepted by default */
+  private static readonly MIN_PASSWORD_SCORE = 2;
+
   private encryption: EncryptionService;
   private storage: StorageService;
   private solana: SolanaService;
   private zkProof: ZKProofService;
+  private passwordPolicy: PasswordPolicy;
 
   constructor(config: ZKFileConfig) {
-    this.encryption = new EncryptionService();
+    this.encryption = new EncryptionService(config.kdf);
+    this.passwordPolicy = config.passwordPolicy ?? {};
     this.storage = new StorageService(
+      [
+        new IpfsProvider({
+          apiUrl: config.ipfsApiUrl,
+          gatewayUrls: config.ipfsGateways ?? [config.ipfsGateway ?? 'https://ipfs.io/ipfs/'],
+          gatewayOptions: config.gatewayOptions,
+        }),
+        new ArweaveProvider({
+          gatewayUrl: config.arweaveGateway,
+          bundlerUrl: config.arweaveBundler,
+        }),
+        ...(config.storageProviders ?? []),
+      ],
       config.storageProvider || 'ipfs',
-      config.ipfsGateway,
-      config.arweaveGateway
+      config.maxBufferedUploadSize
+    );
+    this.solana = new SolanaService(
+      config.rpcEndpoint,
+      config.programId,
+      config.transactionOptions
     );
-    this.solana = new SolanaService(config.rpcEndpoint, config.programId);
-    this.zkProof = new ZKProofService();
+    this.zkProof = new ZKProofService(config.circuits);
   }
 
   /**
@@ -41,83 +140,637 @@ export class ZKFileClient {
    */
   async upload(options: UploadOptions): Promise<UploadResult> {
     this.validateUploadOptions(options);
+    await this.checkPasswordStrength(options.password);
 
     const { file, password, wallet, metadata, onProgress } = options;
 
-    // 1. Encrypt the file
-    const encryptedFile = await this.encryption.encryptFile(file, password, metadata);
-    
-    // 2. Combine encrypted parts
-    const combinedData = this.encryption.combineEncryptedParts(encryptedFile);
+    // 1. Prepare metadata
+    const fileMetadata = await this.buildFileMetadata(file, metadata);
+
+    // 2-4. Encrypt the file and its metadata, and upload to storage
+    const cid = await this.encryptAndUpload(file, password, fileMetadata, wallet, onProgress);
+
+    // 5-6. Derive the file ID and initialize on-chain
+    const { fileId, signature } = await this.registerFile(cid, this.storage.getProvider(), options);
 
-    // 3. Upload to storage
-    const cid = await this.storage.upload(combinedData, onProgress);
+    return {
+      fileId,
+      cid,
+      signature,
+      metadata: fileMetadata,
+      uploadedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Upload a directory as one encrypted archive registered as a single file
+   * An encrypted manifest of paths, sizes and offsets precedes the entries, so
+   * listEntries and downloadEntry read single files with range requests.
+   * Entries share the archive's data key, so grants cover the whole archive.
+   */
+  async uploadDirectory(options: UploadDirectoryOptions): Promise<UploadDirectoryResult> {
+    this.validateUploadDirectoryOptions(options);
+    await this.checkPasswordStrength(options.password);
 
-    // 4. Generate file ID
-    const fileId = this.generateFileId(cid);
+    const { files, password, wallet, metadata, onProgress } = options;
 
-    // 5. Initialize on-chain (optional - if program ID is set)
-    let signature = '';
-    if (this.solana.getProgramId()) {
-      signature = await this.solana.initializeFile(fileId, cid, wallet);
+    // 1. Build the manifest from the entries' paths and sizes
+    const entries = await resolveDirectory(files);
+    if (entries.length === 0) {
+      throw new ValidationError('Directory has no files', 'EMPTY_DIRECTORY');
     }
+    const { manifest, sized } = await buildArchiveManifest(entries);
+    const manifestBytes = encodeArchiveManifest(manifest);
+    const size = manifestBytes.length + sized.reduce((total, entry) => total + entry.size, 0);
 
-    // 6. Prepare metadata
     const fileMetadata: FileMetadata = {
-      name: file instanceof File ? file.name : 'encrypted-file',
-      type: file.type || 'application/octet-stream',
-      size: file.size,
+      name:
+        metadata?.name ??
+        (typeof files === 'string' ? files.split(/[\\/]/).filter(Boolean).pop() : undefined) ??
+        'archive',
+      type: ARCHIVE_MIME_TYPE,
+      size,
       description: metadata?.description,
       tags: metadata?.tags,
       createdAt: Date.now(),
     };
 
+    // 2. Encrypt the manifest and entries in chunks while streaming to storage
+    const encryptProgress = new ProgressTracker('encrypt', onProgress, size);
+    const source = await createArchiveStream(manifestBytes, sized);
+    const cid = await this.storage.uploadStream(
+      source
+        .pipeThrough(encryptProgress.transform())
+        .pipeThrough(this.encryption.createEncryptionStream(password, fileMetadata)),
+      { signer: walletDataItemSigner(wallet) },
+      onProgress
+    );
+
+    // 3. Derive the file ID and initialize on-chain
+    const { fileId, signature } = await this.registerFile(cid, this.storage.getProvider(), options);
+
+    return {
+      fileId,
+      cid,
+      signature,
+      metadata: fileMetadata,
+      uploadedAt: Date.now(),
+      entries: manifest.entries,
+    };
+  }
+
+  /**
+   * Upload and encrypt a file in parts that can be resumed after an interruption
+   * After the upload starts and after every part, `onSession` receives a token
+   * (free of secrets) that can be passed back as `session`, with the same file
+   * and password, to continue from the first missing part. Needs a File, Blob,
+   * byte array or path, and a storage provider with multipart support.
+   */
+  async uploadResumable(options: ResumableUploadOptions): Promise<UploadResult> {
+    this.validateResumableUploadOptions(options);
+    if (!options.session) {
+      await this.checkPasswordStrength(options.password);
+    }
+
+    const { file, password, wallet, onProgress, onSession } = options;
+    const size = (await describeInput(file)).size ?? 0;
+
+    // 1. Start a new session, or resume an interrupted one
+    let session: UploadSession;
+    let encryption: ChunkedEncryption;
+    if (options.session) {
+      session = decodeUploadSession(options.session);
+      if (session.size !== size) {
+        throw new ValidationError('File does not match the upload session', 'SESSION_MISMATCH');
+      }
+      encryption = await this.encryption.resumeChunkedEncryption(
+        fromBase64(session.prefix),
+        password
+      );
+    } else {
+      const fileMetadata = await this.buildFileMetadata(file, options.metadata);
+      encryption = await this.encryption.beginChunkedEncryption(password, fileMetadata);
+
+      const provider = this.storage.getProvider();
+      const upload = await this.storage.createMultipartUpload(
+        { signer: walletDataItemSigner(wallet) },
+        provider
+      );
+      session = {
+        version: 1,
+        provider,
+        upload,
+        size,
+        chunksPerPart: Math.max(
+          1,
+          Math.ceil(this.storage.getMinPartSize(provider) / encryption.chunkSize),
+          Math.floor((options.partSize ?? ZKFileClient.PART_SIZE) / encryption.chunkSize)
+        ),
+        prefix: toBase64(encryption.prefix),
+        parts: [],
+      };
+      onSession?.(encodeUploadSession(session));
+    }
+
+    // 2. Encrypt and upload the missing parts; part 1 starts with the container prefix
+    const { chunkSize, segmentSize, prefix } = encryption;
+    const chunkCount = Math.max(1, Math.ceil(size / chunkSize));
+    const partCount = Math.ceil(chunkCount / session.chunksPerPart);
+    const encryptedSize = prefix.length + size + chunkCount * (segmentSize - chunkSize);
+    const stored = new Set(session.parts.map((part) => part.partNumber));
+
+    const encryptProgress = new ProgressTracker('encrypt', onProgress, size);
+    const uploadProgress = new ProgressTracker('upload', onProgress, encryptedSize);
+    encryptProgress.start();
+    uploadProgress.start();
+
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      const first = (partNumber - 1) * session.chunksPerPart;
+      const last = Math.min(first + session.chunksPerPart, chunkCount);
+      const plaintextSize = Math.min(last * chunkSize, size) - first * chunkSize;
+      const partSize =
+        (partNumber === 1 ? prefix.length : 0) +
+        plaintextSize +
+        (last - first) * (segmentSize - chunkSize);
+
+      if (stored.has(partNumber)) {
+        encryptProgress.advance(plaintextSize);
+        uploadProgress.advance(partSize);
+        continue;
+      }
+
+      const segments: Uint8Array[] = partNumber === 1 ? [prefix] : [];
+      for (let index = first; index < last; index++) {
+        const plaintext = await readInputRange(
+          file,
+          index * chunkSize,
+          Math.min((index + 1) * chunkSize, size)
+        );
+        segments.push(await encryption.encryptChunk(index, plaintext, index === chunkCount - 1));
+      }
+      encryptProgress.advance(plaintextSize);
+
+      const etag = await this.storage.uploadPart(
+        session.upload,
+        {
+          partNumber,
+          offset: partNumber === 1 ? 0 : prefix.length + first * segmentSize,
+          data: concatBytes(...segments),
+        },
+        session.provider
+      );
+      uploadProgress.advance(partSize);
+
+      session.parts.push({ partNumber, etag });
+      onSession?.(encodeUploadSession(session));
+    }
+    encryptProgress.complete();
+
+    const cid = await this.storage.completeMultipartUpload(
+      session.upload,
+      session.parts,
+      session.provider
+    );
+    uploadProgress.complete();
+
+    // 3. Derive the file ID and initialize on-chain
+    const { fileId, signature } = await this.registerFile(cid, session.provider, options);
+
+    return {
+      fileId,
+      cid,
+      signature,
+      metadata: encryption.metadata,
+      uploadedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Abandon a resumable upload, discarding the parts stored so far
+   */
+  async abortResumableUpload(session: string): Promise<void> {
+    const { upload, provider } = decodeUploadSession(session);
+    await this.storage.abortMultipartUpload(upload, provider);
+  }
+
+  /**
+   * Replace a file's content with a new version, keeping its file ID and grants
+   * The new content is encrypted under the file's current data key, unwrapped
+   * with the owner's password, so existing grantees can read it as is. Earlier
+   * versions stay in storage and can be read with `version` on download.
+   */
+  async updateFile(
+    fileId: string,
+    file: FileInput,
+    options: UpdateFileOptions
+  ): Promise<UpdateFileResult> {
+    this.validateUpdateFileOptions(fileId, file, options);
+
+    const { password, wallet, metadata, onProgress } = options;
+
+    // 1. Unwrap the data key from the current version
+    const record = await this.solana.resolveFile(fileId);
+    if (!record.owner.equals(wallet.publicKey!)) {
+      throw new SolanaError('Only the file owner can update it', 'NOT_FILE_OWNER');
+    }
+    const header = await this.readRemoteHeader(record);
+    const dataKey = await this.encryption.unwrapDataKey(header, password);
+
+    // 2. Encrypt the new content under the same key and upload it
+    const fileMetadata = await this.buildFileMetadata(file, metadata);
+    const cid = await this.encryptAndUpload(
+      file,
+      password,
+      fileMetadata,
+      wallet,
+      onProgress,
+      dataKey
+    );
+
+    // 3. Record the version on-chain and point the file at it
+    const confirmProgress = new ProgressTracker('confirm', onProgress, 0);
+    confirmProgress.start();
+    const { version, signature } = await this.solana.addVersion(
+      fileId,
+      cid,
+      this.storage.getProvider(),
+      wallet
+    );
+    confirmProgress.complete();
+
     return {
       fileId,
       cid,
+      version,
       signature,
       metadata: fileMetadata,
       uploadedAt: Date.now(),
     };
   }
 
+  /**
+   * List a file's versions with their CIDs and uploaders, oldest first
+   * A file uploaded before versions were recorded lists its current content as
+   * version 0.
+   */
+  async listVersions(fileId: string): Promise<FileVersion[]> {
+    if (!fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+
+    const versions = await this.solana.listVersions(fileId);
+    if (versions.length > 0) {
+      return versions;
+    }
+
+    const record = await this.solana.resolveFile(fileId);
+    return [
+      {
+        fileId,
+        version: 0,
+        cid: record.cid,
+        storageProvider: record.storageProvider,
+        uploader: record.owner,
+        createdAt: record.createdAt,
+      },
+    ];
+  }
+
   /**
    * Download and decrypt a file
+   * The returned File carries the original name and MIME type
    */
   async download(options: DownloadOptions): Promise<File> {
+    if (typeof File === 'undefined') {
+      throw new ZKFileError(
+        'File is not available in this runtime; use downloadDecrypted, downloadStream or downloadToFile',
+        'FILE_UNSUPPORTED'
+      );
+    }
+
+    const { data, metadata } = await this.downloadDecrypted(options);
+    return new File([data as BlobPart], metadata.name, { type: metadata.type });
+  }
+
+  /**
+   * Download and decrypt a file, returning its data and decrypted metadata
+   */
+  async downloadDecrypted(options: DownloadOptions): Promise<DecryptedFile> {
     this.validateDownloadOptions(options);
 
-    const { fileId, password, onProgress } = options;
+    const { onProgress } = options;
 
-    // 1. Get CID from fileId (in production, this would query on-chain data)
-    const cid = this.extractCIDFromFileId(fileId);
+    // 1. Resolve the full CID and storage provider from the on-chain file account
+    const record = await this.resolveContent(options);
+    const secret = await this.resolveDecryptionSecret(options);
 
     // 2. Download from storage
-    const encryptedData = await this.storage.download(cid, onProgress);
+    const encryptedData = await this.storage.download(
+      record.cid,
+      onProgress,
+      record.storageProvider
+    );
 
     // 3. Split encrypted parts
     const encryptedFile = this.encryption.splitEncryptedParts(encryptedData);
 
-    // 4. Decrypt the file
-    const decryptedData = await this.encryption.decryptFile(encryptedFile, password);
+    // 4. Decrypt the file and its metadata
+    const decryptProgress = new ProgressTracker('decrypt', onProgress);
+    decryptProgress.start();
+    const decrypted = await this.encryption.decryptFileWithMetadata(encryptedFile, secret);
+    decryptProgress.complete(decrypted.data.length);
+
+    // 5. Record an access receipt
+    await this.recordDownload(options, record);
+
+    return decrypted;
+  }
+
+  /**
+   * Download a file as a stream of decrypted chunks
+   * Memory use stays bounded for files uploaded in chunked form, which are read
+   * with range requests that resume from the last verified chunk if the
+   * connection drops
+   */
+  async downloadStream(options: DownloadOptions): Promise<DecryptedStream> {
+    const { stream, metadata } = await this.openDecryptedStream(options);
+    return { stream, metadata };
+  }
+
+  /**
+   * Download and decrypt a file straight to a file system path (Node.js only)
+   * With `resume`, a partial file left by an interrupted download is kept up to
+   * its last whole chunk and the rest is fetched with a range request; files
+   * not stored in chunked form are downloaded again from the start
+   */
+  async downloadToFile(options: DownloadToFileOptions, path: string): Promise<FileMetadata> {
+    const fs = await loadFs();
+    const existing = options.resume
+      ? await fs.promises.stat(path).then(
+          (stats) => stats.size,
+          () => 0
+        )
+      : 0;
+    const { stream, metadata, offset } = await this.openDecryptedStream(options, existing);
+
+    const handle = await fs.promises.open(path, offset > 0 ? 'r+' : 'w');
+    try {
+      await handle.truncate(offset);
+      let position = offset;
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        await handle.write(value, 0, value.length, position);
+        position += value.length;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Open a decrypted download stream starting at the chunk holding plaintext
+   * offset `from`; `offset` is where the stream actually starts
+   */
+  private async openDecryptedStream(
+    options: DownloadOptions,
+    from = 0
+  ): Promise<DecryptedStream & { offset: number }> {
+    this.validateDownloadOptions(options);
+
+    const record = await this.resolveContent(options);
+    const secret = await this.resolveDecryptionSecret(options);
+
+    const chunked = await this.openChunkedDownload(record, secret, options.onProgress, from);
+    if (chunked) {
+      await this.recordDownload(options, record, chunked.stream);
+      return chunked;
+    }
+
+    const encryptedStream = await this.storage.downloadStream(
+      record.cid,
+      record.storageProvider,
+      options.onProgress
+    );
+
+    const decryption = this.encryption.createDecryptionStream(secret);
+    const decryptProgress = new ProgressTracker('decrypt', options.onProgress);
+    const stream = encryptedStream.pipeThrough(decryption).pipeThrough(decryptProgress.transform());
+
+    const metadata = await decryption.metadata;
+    decryptProgress.setTotal(metadata.size);
+
+    await this.recordDownload(options, record, stream);
+    return { stream, metadata, offset: 0 };
+  }
+
+  /**
+   * Stream a chunked file with range requests, from the chunk holding plaintext
+   * offset `from`
+   * Each chunk is authenticated before it is emitted; if the connection drops,
+   * the content is requested again from the first chunk not yet emitted.
+   * Returns null for files not stored in chunked form.
+   */
+  private async openChunkedDownload(
+    record: FileRecord,
+    secret: string | CryptoKey,
+    onProgress?: ProgressCallback,
+    from = 0
+  ): Promise<(DecryptedStream & { offset: number }) | null> {
+    const prefix = await this.readRemotePrefix(record);
+    if (!prefix) {
+      return null;
+    }
+
+    const decryption = await this.encryption.openChunkedDecryption(prefix, secret);
+    const { prefixLength, chunkSize, segmentSize, metadata } = decryption;
+    const encryptedSize = await this.storage.head(record.cid, record.storageProvider).then(
+      (info) => info.size,
+      () => undefined
+    );
+
+    // Resume no further than the last chunk, which has to be read to finish the file
+    let index = 0;
+    if (from > 0 && encryptedSize !== undefined) {
+      const chunkCount = Math.max(1, Math.ceil((encryptedSize - prefixLength) / segmentSize));
+      index = Math.min(Math.floor(from / chunkSize), chunkCount - 1);
+    }
+    const offset = index * chunkSize;
+    const start = prefixLength + index * segmentSize;
+
+    const downloadProgress = new ProgressTracker(
+      'download',
+      onProgress,
+      encryptedSize === undefined ? undefined : encryptedSize - start
+    );
+    const decryptProgress = new ProgressTracker(
+      'decrypt',
+      onProgress,
+      metadata.size ? metadata.size - offset : undefined
+    );
+
+    const open = async () => {
+      const stream = await this.storage.downloadStream(
+        record.cid,
+        record.storageProvider,
+        undefined,
+        { start: prefixLength + index * segmentSize }
+      );
+      return stream.getReader();
+    };
+
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let buffer: Uint8Array = new Uint8Array(0);
+    let received = start;
+    let attempts = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: () => {
+        downloadProgress.start();
+        decryptProgress.start();
+      },
+      pull: async (controller) => {
+        for (;;) {
+          // A full segment followed by more data is never the final chunk
+          if (buffer.length > segmentSize) {
+            const plaintext = await decryption.decryptChunk(
+              index,
+              buffer.subarray(0, segmentSize),
+              false
+            );
+            buffer = buffer.slice(segmentSize);
+            index++;
+            attempts = 0;
+            decryptProgress.advance(plaintext.length);
+            controller.enqueue(plaintext);
+            return;
+          }
+
+          let result: ReadableStreamReadResult<Uint8Array>;
+          try {
+            reader ??= await open();
+            result = await reader.read();
+            if (result.done && encryptedSize !== undefined && received < encryptedSize) {
+              throw new StorageError('Download ended early', 'DOWNLOAD_FAILED');
+            }
+          } catch (error) {
+            if (attempts >= ZKFileClient.DOWNLOAD_RETRIES) {
+              throw error;
+            }
+            await reader?.cancel().catch(() => undefined);
+            await new Promise((resolve) =>
+              setTimeout(resolve, ZKFileClient.RETRY_DELAY * 2 ** attempts)
+            );
+            attempts++;
+
+            // Drop the unverified tail and request again from the next chunk
+            reader = undefined;
+            received -= buffer.length;
+            buffer = new Uint8Array(0);
+            continue;
+          }
+
+          if (result.done) {
+            const plaintext = await decryption.decryptChunk(index, buffer, true);
+            decryptProgress.complete();
+            downloadProgress.complete();
+            controller.enqueue(plaintext);
+            controller.close();
+            return;
+          }
+
+          buffer = concatBytes(buffer, result.value);
+          received += result.value.length;
+          downloadProgress.advance(result.value.length);
+        }
+      },
+      cancel: async (reason) => {
+        await reader?.cancel(reason);
+      },
+    });
+
+    return { stream, metadata, offset };
+  }
+
+  /**
+   * List the files in a directory archive
+   * Only the manifest at the start of the archive is downloaded.
+   */
+  async listEntries(options: DownloadOptions): Promise<ArchiveEntry[]> {
+    this.validateDownloadOptions(options);
+
+    const { manifest } = await this.openArchive(options);
+    return manifest.entries;
+  }
+
+  /**
+   * Download and decrypt one file from a directory archive
+   * Only the chunks holding the file are downloaded. The returned metadata
+   * carries the entry's name, type and size.
+   */
+  async downloadEntry(options: DownloadOptions, path: string): Promise<DecryptedFile> {
+    this.validateDownloadOptions(options);
+
+    // 1. Find the entry in the manifest
+    const { record, secret, manifest, dataOffset } = await this.openArchive(options);
+    const normalized = normalizeEntryPath(path);
+    const entry = manifest.entries.find((candidate) => candidate.path === normalized);
+    if (!entry) {
+      throw new ValidationError(`No such archive entry: ${normalized}`, 'ENTRY_NOT_FOUND');
+    }
+
+    // 2. Read the chunks holding its bytes
+    const from = dataOffset + entry.offset;
+    const chunked = await this.openChunkedDownload(record, secret, options.onProgress, from);
+    if (!chunked) {
+      throw new ValidationError('File is not a directory archive', 'NOT_AN_ARCHIVE');
+    }
+    await this.recordDownload(options, record, chunked.stream);
+    const bytes = await readStreamBytes(chunked.stream, from - chunked.offset + entry.size);
 
-    // 5. Create File object
-    const blob = new Blob([decryptedData]);
-    return new File([blob], 'decrypted-file', { type: 'application/octet-stream' });
+    return {
+      data: bytes.subarray(from - chunked.offset),
+      metadata: {
+        name: normalized.split('/').pop()!,
+        type: entry.type,
+        size: entry.size,
+        createdAt: chunked.metadata.createdAt,
+      },
+    };
   }
 
   /**
    * Share access to a file
+   * The file's data key is unwrapped with the owner's password and re-wrapped
+   * for the recipient's registered encryption key, or their wallet key with
+   * `allowWalletKey`
    */
   async share(options: ShareOptions): Promise<ShareResult> {
     this.validateShareOptions(options);
 
-    const { fileId, recipient, expiresAt, wallet } = options;
+    const { fileId, recipient, password, expiresAt, wallet, allowWalletKey } = options;
 
-    // Grant access on-chain
+    // 1. Unwrap the data key from the stored container header
+    const record = await this.solana.resolveFile(fileId);
+    const header = await this.readRemoteHeader(record);
+    const dataKey = await this.encryption.unwrapDataKey(header, password);
+
+    // 2. Wrap it for the recipient
+    const wrappedKey = await this.encryption.wrapKeyForRecipient(
+      dataKey,
+      await this.getRecipientEncryptionKey(recipient, allowWalletKey)
+    );
+
+    // 3. Grant access on-chain
     const signature = await this.solana.grantAccess(
       fileId,
       recipient,
+      wrappedKey,
       expiresAt,
       wallet
     );
@@ -130,16 +783,455 @@ export class ZKFileClient {
     };
   }
 
+  /**
+   * Share access to a file with several recipients at once
+   * The data key is unwrapped once; the grants are packed into as few
+   * transactions as fit and signed with a single signAllTransactions call.
+   */
+  async shareMany(options: ShareManyOptions): Promise<ShareResult[]> {
+    this.validateShareManyOptions(options);
+
+    const { fileId, recipients, password, expiresAt, wallet, transactionOptions, allowWalletKey } =
+      options;
+
+    // 1. Unwrap the data key from the stored container header
+    const record = await this.solana.resolveFile(fileId);
+    const header = await this.readRemoteHeader(record);
+    const dataKey = await this.encryption.unwrapDataKey(header, password);
+
+    // 2. Wrap it for every recipient
+    const instructions: TransactionInstruction[] = [];
+    for (const recipient of recipients) {
+      const wrappedKey = await this.encryption.wrapKeyForRecipient(
+        dataKey,
+        await this.getRecipientEncryptionKey(recipient, allowWalletKey)
+      );
+      instructions.push(
+        this.solana.grantAccessInstruction(
+          fileId,
+          recipient,
+          wrappedKey,
+          expiresAt,
+          wallet.publicKey!
+        )
+      );
+    }
+
+    // 3. Grant access on-chain in batched transactions
+    const signatures = await this.solana.sendBatch(instructions, wallet, transactionOptions);
+
+    return recipients.map((recipient, i) => ({
+      accessId: this.generateAccessId(fileId, recipient),
+      signature: signatures[i],
+      recipient,
+      expiresAt,
+    }));
+  }
+
   /**
    * Revoke access to a file
+   * With `rekey`, the file is then rotated to a fresh data key so the revoked
+   * wallet's cached key no longer decrypts the stored content. A rotation that
+   * fails or leaves grantees without the new key throws a RekeyError carrying
+   * the signature of the revocation, which has landed by then.
    */
   async revoke(options: RevokeOptions): Promise<string> {
     this.validateRevokeOptions(options);
 
-    const { fileId, recipient, wallet } = options;
+    const { fileId, recipient, wallet, rekey, password, unpinPrevious } = options;
 
     // Revoke access on-chain
-    return await this.solana.revokeAccess(fileId, recipient, wallet);
+    const signature = await this.solana.revokeAccess(fileId, recipient, wallet);
+
+    if (rekey) {
+      let rotation: RotateKeyResult;
+      try {
+        rotation = await this.rotateKey({ fileId, password: password!, wallet, unpinPrevious });
+      } catch (error) {
+        throw new RekeyError(
+          `Access was revoked in ${signature}, but rotating the key failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          signature
+        );
+      }
+      if (rotation.pending.length > 0) {
+        throw new RekeyError(
+          `Access was revoked in ${signature} and the key rotated, but ${rotation.pending.length} grantees did not get the new key`,
+          signature,
+          rotation
+        );
+      }
+    }
+
+    return signature;
+  }
+
+  /**
+   * Re-encrypt a file under a fresh data key
+   * The new ciphertext is uploaded, and the new key wrapped for every grantee
+   * that is neither revoked nor expired. The new version and the re-issued keys
+   * are then sent in one batch, in a single transaction when they fit. If a
+   * later transaction of the batch fails, the grantees it carried are listed in
+   * `pending`; if the version itself is not recorded, the new upload is deleted
+   * and the error thrown. Earlier versions stay in storage under their previous
+   * keys unless `unpinPrevious` is set.
+   */
+  async rotateKey(options: RotateKeyOptions): Promise<RotateKeyResult> {
+    this.validateRotateKeyOptions(options);
+    if (options.newPassword !== undefined) {
+      await this.checkPasswordStrength(options.newPassword);
+    }
+
+    const { fileId, password, newPassword, wallet, unpinPrevious } = options;
+
+    // 1. Decrypt the current content as a stream
+    const record = await this.solana.resolveFile(fileId);
+    if (!record.owner.equals(wallet.publicKey!)) {
+      throw new SolanaError('Only the file owner can rotate its key', 'NOT_FILE_OWNER');
+    }
+    const superseded = new Map<string, string>([[record.cid, record.storageProvider]]);
+    for (const previous of await this.solana.listVersions(fileId)) {
+      superseded.set(previous.cid, previous.storageProvider);
+    }
+
+    const encryptedStream = await this.storage.downloadStream(
+      record.cid,
+      record.storageProvider
+    );
+    const decryption = this.encryption.createDecryptionStream(password);
+    const plaintext = encryptedStream.pipeThrough(decryption);
+    const metadata = await decryption.metadata;
+
+    // 2. Re-encrypt under a fresh data key while streaming to storage
+    const dataKey = await this.encryption.generateKey();
+    const provider = this.storage.getProvider();
+    const cid = await this.storage.uploadStream(
+      plaintext.pipeThrough(
+        this.encryption.createEncryptionStream(newPassword ?? password, metadata, { dataKey })
+      ),
+      { signer: walletDataItemSigner(wallet) }
+    );
+
+    // 3. Wrap the new key for the remaining grantees before anything changes on-chain
+    const grants = await this.listAccess(fileId);
+    const updates: TransactionInstruction[] = [];
+    for (const grant of grants) {
+      // Grantees were already shared with, whichever key they were wrapped for
+      const wrappedKey = await this.encryption.wrapKeyForRecipient(
+        dataKey,
+        await this.getRecipientEncryptionKey(grant.recipient, true)
+      );
+      updates.push(
+        this.solana.updateAccessKeyInstruction(
+          fileId,
+          grant.recipient,
+          wrappedKey,
+          wallet.publicKey!
+        )
+      );
+    }
+
+    // 4. Record the new version and re-issue the keys in one batch, version first
+    const { version, instructions } = await this.solana.addVersionInstructions(
+      fileId,
+      cid,
+      provider,
+      wallet.publicKey!
+    );
+    let signatures: string[];
+    try {
+      signatures = await this.solana.sendBatch([...instructions, ...updates], wallet);
+    } catch (error) {
+      const confirmed = (error instanceof TransactionError && error.confirmedSignatures) || [];
+      if (confirmed.length < instructions.length) {
+        // Nothing points at the new upload
+        await this.storage.delete(cid, provider).catch(() => undefined);
+        throw error;
+      }
+      signatures = confirmed;
+    }
+    const reissuedCount = signatures.length - instructions.length;
+
+    // 5. Delete the content the previous keys decrypt, when asked to
+    const unpinned: string[] = [];
+    if (unpinPrevious) {
+      for (const [previous, storageProvider] of superseded) {
+        try {
+          await this.storage.delete(previous, storageProvider);
+          unpinned.push(previous);
+        } catch {
+          // Left in storage; listed in superseded for the caller to retry
+        }
+      }
+    }
+
+    return {
+      fileId,
+      cid,
+      version,
+      signature: signatures[instructions.length - 1],
+      reissued: grants.slice(0, reissuedCount).map((grant) => grant.recipient),
+      pending: grants.slice(reissuedCount).map((grant) => grant.recipient),
+      superseded: [...superseded.keys()],
+      unpinned,
+    };
+  }
+
+  /**
+   * List the access grants issued for a file
+   * Revoked and expired grants are left out unless `includeInactive` is set
+   */
+  async listAccess(fileId: string, options: AccessListOptions = {}): Promise<AccessControl[]> {
+    if (!fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+
+    const grants = await this.solana.listAccessGrants(fileId);
+    return options.includeInactive ? grants : grants.filter((grant) => this.isGrantActive(grant));
+  }
+
+  /**
+   * List the access grants issued to a wallet, across files
+   * Revoked and expired grants are left out unless `includeInactive` is set
+   */
+  async listSharedWithMe(
+    wallet: WalletAdapter,
+    options: AccessListOptions = {}
+  ): Promise<AccessControl[]> {
+    if (!wallet || !wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+
+    const grants = await this.solana.listGrantsForRecipient(wallet.publicKey);
+    return options.includeInactive ? grants : grants.filter((grant) => this.isGrantActive(grant));
+  }
+
+  /**
+   * Check whether a key may read a file: it owns the file or holds an access
+   * grant that is neither revoked nor expired
+   */
+  async hasAccess(fileId: string, publicKey: PublicKey): Promise<boolean> {
+    if (!fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+
+    const record = await this.solana.resolveFile(fileId);
+    if (record.owner.equals(publicKey)) {
+      return true;
+    }
+
+    const grant = await this.solana.getAccessGrant(fileId, publicKey);
+    return grant !== null && this.isGrantActive(grant);
+  }
+
+  /**
+   * Delete a file: close its access grants, versions and file account on-chain
+   * (the deletion shows up in the audit log), then remove the content of every
+   * version from storage where the provider allows it
+   */
+  async delete(options: DeleteOptions): Promise<DeleteResult> {
+    this.validateDeleteOptions(options);
+
+    const { fileId, wallet } = options;
+    const record = await this.solana.resolveFile(fileId);
+    if (!record.owner.equals(wallet.publicKey!)) {
+      throw new SolanaError('Only the file owner can delete it', 'NOT_FILE_OWNER');
+    }
+
+    // 1. Close grants, versions and the file account, revoked grants included
+    const grants = await this.solana.listAccessGrants(fileId);
+    const versions = await this.solana.listVersions(fileId);
+    const signatures = await this.solana.deleteFile(
+      fileId,
+      grants.map((grant) => grant.recipient),
+      versions.map((version) => version.version),
+      wallet
+    );
+
+    // 2. Unpin every version; the file is already gone on-chain, so failures
+    // are reported, not thrown
+    let unpinned = options.unpin !== false;
+    if (unpinned) {
+      const contents = new Map([
+        [record.cid, record.storageProvider],
+        ...versions.map((version): [string, string] => [version.cid, version.storageProvider]),
+      ]);
+      for (const [cid, provider] of contents) {
+        const removed = await this.storage.delete(cid, provider).then(
+          () => true,
+          () => false
+        );
+        unpinned &&= removed;
+      }
+    }
+
+    return { fileId, signatures, unpinned };
+  }
+
+  /**
+   * Set or clear a file's retention expiration
+   */
+  async setRetention(options: RetentionOptions): Promise<string> {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    if (!options.wallet || !options.wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+
+    return await this.solana.setRetention(options.fileId, options.expiresAt, options.wallet);
+  }
+
+  /**
+   * Delete every file the wallet owns whose retention has expired
+   * Files are deleted one by one; failures are collected rather than thrown.
+   */
+  async cleanupExpired(wallet: WalletAdapter, now = Date.now()): Promise<CleanupResult> {
+    if (!wallet || !wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+
+    const result: CleanupResult = { deleted: [], failed: [] };
+    for (const { fileId, expiresAt } of await this.solana.listRetention(wallet.publicKey)) {
+      if (expiresAt > now) {
+        continue;
+      }
+      try {
+        result.deleted.push(await this.delete({ fileId, wallet }));
+      } catch (error) {
+        result.failed.push({
+          fileId,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Register the wallet's encryption key on-chain so files can be shared with it
+   * The key pair is derived from a wallet signature and never leaves the client
+   */
+  async registerEncryptionKey(wallet: WalletAdapter): Promise<string> {
+    const keyPair = await this.encryption.deriveEncryptionKeyPair(wallet);
+    return await this.solana.registerEncryptionKey(keyPair.publicKey, wallet);
+  }
+
+  /**
+   * Commit to an ownership secret on-chain so the owner can later prove
+   * ownership of the file without revealing the secret
+   */
+  async commitOwnership(options: CommitOwnershipOptions): Promise<string> {
+    this.validateOwnershipOptions(options);
+    if (!options.wallet || !options.wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+
+    const commitment = await this.zkProof.computeOwnershipCommitment(
+      options.fileId,
+      options.secret
+    );
+    return await this.solana.setOwnershipCommitment(options.fileId, commitment, options.wallet);
+  }
+
+  /**
+   * Prove knowledge of the secret behind a file's ownership commitment
+   */
+  async proveOwnership(options: ProveOwnershipOptions): Promise<ZKProof> {
+    this.validateOwnershipOptions(options);
+    return await this.zkProof.proveOwnership(options.fileId, options.secret, options.challenge);
+  }
+
+  /**
+   * Verify an ownership proof against the file's on-chain commitment
+   */
+  async verifyOwnership(options: VerifyOwnershipOptions): Promise<boolean> {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+
+    const commitment = await this.solana.getOwnershipCommitment(options.fileId);
+    if (!commitment) {
+      throw new SolanaError('File has no ownership commitment', 'COMMITMENT_NOT_FOUND');
+    }
+
+    return await this.zkProof.verifyOwnership(options.proof, options.fileId, {
+      commitment,
+      challenge: options.challenge,
+    });
+  }
+
+  /**
+   * Get a file's audit log (uploads, shares, revocations and recorded
+   * downloads) from its on-chain transaction history, newest first
+   */
+  async getAuditLog(fileId: string, options: AuditLogOptions = {}): Promise<AuditLog[]> {
+    if (!fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    return await this.solana.getAuditLog(fileId, options);
+  }
+
+  /**
+   * Prove the content of a stored file without revealing it
+   * Decrypts the file with the owner's password or the wallet's access grant
+   * and proves the schema of its plaintext, bound to the stored container and
+   * a commitment to its data key
+   */
+  async proveContent(options: ProveContentOptions): Promise<ContentProof> {
+    this.validateDownloadOptions(options);
+
+    const record = await this.resolveContent(options);
+    const secret = await this.resolveDecryptionSecret(options);
+    const ciphertext = await this.storage.download(
+      record.cid,
+      options.onProgress,
+      record.storageProvider
+    );
+
+    const encryptedFile = this.encryption.splitEncryptedParts(ciphertext);
+    const dataKey =
+      typeof secret === 'string'
+        ? await this.encryption.unwrapDataKey(encryptedFile, secret)
+        : secret;
+    const { data } = await this.encryption.decryptFileWithMetadata(encryptedFile, dataKey);
+
+    const rawKey = await this.encryption.exportKey(dataKey);
+    try {
+      const proof = await this.zkProof.generateProof(data, options.schema, {
+        dataKey: rawKey,
+        ciphertext,
+      });
+      return {
+        proof,
+        cid: record.cid,
+        storageProvider: record.storageProvider,
+        contentHash: await this.zkProof.computeContentHash(data),
+        keyCommitment: this.zkProof.computeKeyCommitment(rawKey),
+      };
+    } finally {
+      rawKey.fill(0);
+    }
+  }
+
+  /**
+   * Verify a content proof against the ciphertext stored at a CID
+   */
+  async verifyContent(options: VerifyContentOptions): Promise<boolean> {
+    if (!options.cid) {
+      throw new ValidationError('CID is required', 'MISSING_CID');
+    }
+
+    const ciphertext = await this.storage.download(
+      options.cid,
+      undefined,
+      options.storageProvider
+    );
+    return await this.zkProof.verifyProof(options.proof, {
+      ciphertext,
+      contentHash: options.contentHash,
+      keyCommitment: options.keyCommitment,
+      schema: options.schema,
+    });
   }
 
   /**
@@ -172,6 +1264,326 @@ export class ZKFileClient {
 
   // Private helper methods
 
+  /**
+   * Build file metadata from the input and caller-supplied fields
+   */
+  private async buildFileMetadata(
+    file: FileInput,
+    metadata?: Partial<FileMetadata>
+  ): Promise<FileMetadata> {
+    const info = await describeInput(file);
+    return {
+      name: metadata?.name ?? info.name ?? 'encrypted-file',
+      type: metadata?.type ?? info.type ?? 'application/octet-stream',
+      size: info.size ?? metadata?.size ?? 0,
+      description: metadata?.description,
+      tags: metadata?.tags,
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Encrypt a file and its metadata and upload it, returning the CID
+   * Large files and streams are encrypted chunk by chunk while streaming to
+   * storage. The data key defaults to a fresh one.
+   */
+  private async encryptAndUpload(
+    file: FileInput,
+    password: string,
+    fileMetadata: FileMetadata,
+    wallet: WalletAdapter,
+    onProgress?: ProgressCallback,
+    dataKey?: CryptoKey
+  ): Promise<string> {
+    const storageOptions = { signer: walletDataItemSigner(wallet) };
+    const encryptProgress = new ProgressTracker('encrypt', onProgress, fileMetadata.size);
+
+    if (isBufferedInput(file) && fileMetadata.size <= ZKFileClient.STREAMING_THRESHOLD) {
+      encryptProgress.start();
+      const encryptedFile = await this.encryption.encryptFile(
+        file,
+        password,
+        fileMetadata,
+        dataKey
+      );
+      encryptProgress.complete(fileMetadata.size);
+
+      const combinedData = this.encryption.combineEncryptedParts(encryptedFile);
+      return await this.storage.upload(combinedData, onProgress, storageOptions);
+    }
+
+    this.storage.checkUploadSize(fileMetadata.size);
+    const source = await toReadableStream(file);
+    return await this.storage.uploadStream(
+      source
+        .pipeThrough(encryptProgress.transform())
+        .pipeThrough(this.encryption.createEncryptionStream(password, fileMetadata, { dataKey })),
+      storageOptions,
+      onProgress
+    );
+  }
+
+  /**
+   * Record a download receipt on-chain when the caller asked for one
+   * A stream already opened for the download is cancelled if recording fails.
+   */
+  private async recordDownload(
+    options: DownloadOptions,
+    record: FileRecord,
+    stream?: ReadableStream<Uint8Array>
+  ): Promise<void> {
+    if (!options.recordAccess) {
+      return;
+    }
+
+    try {
+      await this.solana.recordAccess(options.fileId, record.cid, options.wallet);
+    } catch (error) {
+      await stream?.cancel(error).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Derive the file ID from owner and full CID, and initialize the file account
+   */
+  private async registerFile(
+    cid: string,
+    provider: string,
+    options: Pick<UploadOptions, 'wallet' | 'onProgress' | 'expiresAt'>
+  ): Promise<{ fileId: string; signature: string }> {
+    const { wallet, onProgress, expiresAt } = options;
+    const fileId = await this.solana.deriveFileId(wallet.publicKey!, cid);
+
+    const confirmProgress = new ProgressTracker('confirm', onProgress, 0);
+    confirmProgress.start();
+    const signature = await this.solana.initializeFile(fileId, cid, provider, wallet, expiresAt);
+    confirmProgress.complete();
+
+    return { fileId, signature };
+  }
+
+  /**
+   * Resolve an archive for reading and decode its manifest
+   */
+  private async openArchive(options: DownloadOptions): Promise<{
+    record: FileRecord;
+    secret: string | CryptoKey;
+    manifest: ArchiveManifest;
+    dataOffset: number;
+  }> {
+    const record = await this.resolveContent(options);
+    const secret = await this.resolveDecryptionSecret(options);
+
+    const chunked = await this.openChunkedDownload(record, secret);
+    if (!chunked || chunked.metadata.type !== ARCHIVE_MIME_TYPE) {
+      await chunked?.stream.cancel().catch(() => undefined);
+      throw new ValidationError('File is not a directory archive', 'NOT_AN_ARCHIVE');
+    }
+
+    const { manifest, dataOffset } = await readArchiveManifest(chunked.stream);
+    return { record, secret, manifest, dataOffset };
+  }
+
+  /**
+   * Resolve the file record for a download, pointed at the requested version
+   */
+  private async resolveContent(options: DownloadOptions): Promise<FileRecord> {
+    const { fileId, version } = options;
+    const record = await this.solana.resolveFile(fileId);
+    if (version === undefined) {
+      return record;
+    }
+
+    const recorded = await this.solana.getVersion(fileId, version);
+    if (recorded) {
+      return { ...record, cid: recorded.cid, storageProvider: recorded.storageProvider };
+    }
+    // Files uploaded before versions were recorded only have their current content
+    if (version === 0 && (await this.solana.listVersions(fileId)).length === 0) {
+      return record;
+    }
+    throw new SolanaError(`Version ${version} not found: ${fileId}`, 'VERSION_NOT_FOUND');
+  }
+
+  /**
+   * Get the owner's password, or the data key unwrapped from the wallet's access grant
+   */
+  private async resolveDecryptionSecret(options: DownloadOptions): Promise<string | CryptoKey> {
+    if (options.password) {
+      return options.password;
+    }
+
+    const { fileId, wallet, decryptionKey } = options;
+    const grant = await this.solana.getAccessGrant(fileId, wallet.publicKey!);
+    this.assertGrantActive(fileId, grant);
+    if (!grant?.wrappedKey) {
+      throw new AccessDeniedError(
+        `Access grant for ${fileId} carries no wrapped key`,
+        'ACCESS_NOT_GRANTED'
+      );
+    }
+
+    if (decryptionKey) {
+      return await this.encryption.unwrapKeyForRecipient(grant.wrappedKey, decryptionKey);
+    }
+    const { secretKey } = await this.encryption.deriveEncryptionKeyPair(wallet);
+    try {
+      return await this.encryption.unwrapKeyForRecipient(grant.wrappedKey, secretKey);
+    } catch (error) {
+      // Grants made with allowWalletKey are wrapped for the converted wallet key
+      if (error instanceof EncryptionError && error.code === 'KEY_UNWRAP_FAILED') {
+        throw new AccessDeniedError(
+          `Access grant for ${fileId} is not wrapped for this wallet's registered ` +
+            'encryption key; pass the X25519 secret key converted from the wallet key ' +
+            'as decryptionKey',
+          'DECRYPTION_KEY_REQUIRED'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fail with an AccessDeniedError unless the grant exists, is not revoked and
+   * has not expired
+   */
+  private assertGrantActive(fileId: string, grant: AccessControl | null): void {
+    if (!grant) {
+      throw new AccessDeniedError(
+        `No access grant for this wallet: ${fileId}`,
+        'ACCESS_NOT_GRANTED'
+      );
+    }
+    if (grant.revoked) {
+      throw new AccessDeniedError(`Access to ${fileId} was revoked`, 'ACCESS_REVOKED');
+    }
+    if (grant.expiresAt !== undefined && grant.expiresAt <= Date.now()) {
+      throw new AccessDeniedError(
+        `Access to ${fileId} expired at ${new Date(grant.expiresAt).toISOString()}`,
+        'ACCESS_EXPIRED'
+      );
+    }
+  }
+
+  /**
+   * Whether a grant is neither revoked nor expired
+   */
+  private isGrantActive(grant: AccessControl): boolean {
+    return !grant.revoked && (grant.expiresAt === undefined || grant.expiresAt > Date.now());
+  }
+
+  /**
+   * Get the X25519 key to wrap data keys for: the recipient's registered key,
+   * or with `allowWalletKey` their wallet key converted from ed25519
+   */
+  private async getRecipientEncryptionKey(
+    recipient: PublicKey,
+    allowWalletKey = false
+  ): Promise<Uint8Array> {
+    const registered = await this.solana.getEncryptionKey(recipient);
+    if (registered) {
+      return registered;
+    }
+    if (!allowWalletKey) {
+      throw new ValidationError(
+        `Recipient ${recipient.toBase58()} has not registered an encryption key; ` +
+          'they can call registerEncryptionKey, or pass allowWalletKey to wrap for their ' +
+          'wallet key (they must then download with decryptionKey)',
+        'ENCRYPTION_KEY_NOT_REGISTERED'
+      );
+    }
+    return this.encryption.encryptionPublicKeyFromEd25519(recipient.toBytes());
+  }
+
+  /**
+   * Read the header and encrypted metadata of a chunked file with range requests
+   * Returns null when the file is not stored in chunked form
+   */
+  private async readRemotePrefix(record: FileRecord): Promise<Uint8Array | null> {
+    let length = 4096;
+    for (;;) {
+      const prefix = await readInput(
+        await this.storage.downloadStream(record.cid, record.storageProvider, undefined, {
+          start: 0,
+          end: length,
+        })
+      );
+
+      let prefixLength: number | null;
+      try {
+        prefixLength = this.encryption.chunkedPrefixLength(prefix);
+      } catch (error) {
+        if (error instanceof EncryptionError && error.code === 'NOT_CHUNKED') {
+          return null;
+        }
+        throw error;
+      }
+
+      if (prefixLength !== null && prefix.length >= prefixLength) {
+        return prefix.subarray(0, prefixLength);
+      }
+      if (prefix.length < length) {
+        // Truncated; let the buffered path report it
+        return null;
+      }
+      length = Math.max(prefixLength ?? length * 2, length * 2);
+    }
+  }
+
+  /**
+   * Read the container header of a stored file without downloading the content
+   */
+  private async readRemoteHeader(record: FileRecord): Promise<EncryptedFile> {
+    const stream = await this.storage.downloadStream(record.cid, record.storageProvider);
+    const reader = stream.getReader();
+
+    let buffer: Uint8Array = new Uint8Array(0);
+    try {
+      for (;;) {
+        const header = this.encryption.readHeader(buffer);
+        if (header) {
+          return header;
+        }
+        if (
+          buffer.length >= EncryptionService.PREFIX_LENGTH &&
+          !this.encryption.isContainer(buffer)
+        ) {
+          break;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer = concatBytes(buffer, value);
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined);
+    }
+
+    throw new EncryptionError(
+      'File has no wrapped data key and cannot be shared',
+      'NO_WRAPPED_KEY'
+    );
+  }
+
+  /**
+   * Reject a new password that scores below the password policy's minimum
+   */
+  private async checkPasswordStrength(password: string): Promise<void> {
+    const { minScore = ZKFileClient.MIN_PASSWORD_SCORE, estimate = estimatePasswordStrength } =
+      this.passwordPolicy;
+    const { score, feedback } = await estimate(password);
+    if (score < minScore) {
+      throw new WeakPasswordError(
+        `Password is too weak: scored ${score} of 4, at least ${minScore} required`,
+        score,
+        feedback
+      );
+    }
+  }
+
   private validateUploadOptions(options: UploadOptions): void {
     if (!options.file) {
       throw new ValidationError('File is required', 'MISSING_FILE');
@@ -182,18 +1594,97 @@ export class ZKFileClient {
     if (!options.wallet || !options.wallet.publicKey) {
       throw new ValidationError('Wallet is required', 'MISSING_WALLET');
     }
+    this.requireProgramId();
   }
 
-  private validateDownloadOptions(options: DownloadOptions): void {
-    if (!options.fileId) {
+  /**
+   * Uploads are registered on-chain so their file ID resolves; fail before
+   * encrypting and storing anything when there is no program to register with
+   */
+  private requireProgramId(): void {
+    if (!this.solana.getProgramId()) {
+      throw new SolanaError(
+        'Program ID not set: uploads need the file registry to be downloadable by file ID',
+        'PROGRAM_ID_NOT_SET'
+      );
+    }
+  }
+
+  private validateUpdateFileOptions(
+    fileId: string,
+    file: FileInput,
+    options: UpdateFileOptions
+  ): void {
+    if (!fileId) {
       throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
     }
+    this.validateUploadOptions({ ...options, file });
+  }
+
+  private validateUploadDirectoryOptions(options: UploadDirectoryOptions): void {
+    if (!options.files) {
+      throw new ValidationError('Files are required', 'MISSING_FILES');
+    }
     if (!options.password) {
       throw new ValidationError('Password is required', 'MISSING_PASSWORD');
     }
     if (!options.wallet || !options.wallet.publicKey) {
       throw new ValidationError('Wallet is required', 'MISSING_WALLET');
     }
+    this.requireProgramId();
+  }
+
+  private validateResumableUploadOptions(options: ResumableUploadOptions): void {
+    this.validateUploadOptions(options);
+    if (!isBufferedInput(options.file)) {
+      throw new ValidationError(
+        'Resumable uploads need a File, Blob, byte array or path',
+        'UNSUPPORTED_INPUT'
+      );
+    }
+    if (options.partSize !== undefined && !(options.partSize > 0)) {
+      throw new ValidationError('Part size must be positive', 'INVALID_PART_SIZE');
+    }
+    const minPartSize = this.storage.getMinPartSize();
+    if (!options.session && options.partSize !== undefined && options.partSize < minPartSize) {
+      throw new ValidationError(
+        `Part size must be at least ${minPartSize} bytes for ${this.storage.getProvider()}`,
+        'INVALID_PART_SIZE'
+      );
+    }
+  }
+
+  private validateOwnershipOptions(options: { fileId: string; secret: string }): void {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    if (!options.secret) {
+      throw new ValidationError('Ownership secret is required', 'MISSING_SECRET');
+    }
+  }
+
+  private validateDeleteOptions(options: DeleteOptions): void {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    if (!options.wallet || !options.wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+  }
+
+  private validateDownloadOptions(options: DownloadOptions): void {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    if (!options.wallet || !options.wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+    if (
+      options.version !== undefined &&
+      !(Number.isInteger(options.version) && options.version >= 0)
+    ) {
+      throw new ValidationError('Version must be a non-negative integer', 'INVALID_VERSION');
+    }
   }
 
   private validateShareOptions(options: ShareOptions): void {
@@ -203,6 +1694,24 @@ export class ZKFileClient {
     if (!options.recipient) {
       throw new ValidationError('Recipient is required', 'MISSING_RECIPIENT');
     }
+    if (!options.password) {
+      throw new ValidationError('Password is required', 'MISSING_PASSWORD');
+    }
+    if (!options.wallet || !options.wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
+  }
+
+  private validateShareManyOptions(options: ShareManyOptions): void {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    if (!options.recipients || options.recipients.length === 0) {
+      throw new ValidationError('Recipients are required', 'MISSING_RECIPIENT');
+    }
+    if (!options.password) {
+      throw new ValidationError('Password is required', 'MISSING_PASSWORD');
+    }
     if (!options.wallet || !options.wallet.publicKey) {
       throw new ValidationError('Wallet is required', 'MISSING_WALLET');
     }
@@ -215,19 +1724,24 @@ export class ZKFileClient {
     if (!options.recipient) {
       throw new ValidationError('Recipient is required', 'MISSING_RECIPIENT');
     }
+    if (options.rekey && !options.password) {
+      throw new ValidationError('Password is required to rekey', 'MISSING_PASSWORD');
+    }
     if (!options.wallet || !options.wallet.publicKey) {
       throw new ValidationError('Wallet is required', 'MISSING_WALLET');
     }
   }
 
-  private generateFileId(cid: string): string {
-    // Simple file ID generation (in production, use better method)
-    return `zkf_${cid.substring(0, 16)}`;
-  }
-
-  private extractCIDFromFileId(fileId: string): string {
-    // Extract CID from file ID (placeholder implementation)
-    return fileId.replace('zkf_', '');
+  private validateRotateKeyOptions(options: RotateKeyOptions): void {
+    if (!options.fileId) {
+      throw new ValidationError('File ID is required', 'MISSING_FILE_ID');
+    }
+    if (!options.password) {
+      throw new ValidationError('Password is required', 'MISSING_PASSWORD');
+    }
+    if (!options.wallet || !options.wallet.publicKey) {
+      throw new ValidationError('Wallet is required', 'MISSING_WALLET');
+    }
   }
 
   private generateAccessId(fileId: string, recipient: PublicKey): string {
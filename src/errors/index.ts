@@ -1,3 +1,5 @@
+import type { RotateKeyResult } from '../types';
+
 /**
  * Base ZKFile error class
  */
@@ -52,3 +54,92 @@ export class ValidationError extends ZKFileError {
     Object.setPrototypeOf(this, ValidationError.prototype);
   }
 }
+
+/**
+ * Password rejected by the password policy
+ */
+export class WeakPasswordError extends ValidationError {
+  constructor(
+    message: string,
+    public score: number,
+    public feedback: string[] = []
+  ) {
+    super(message, 'WEAK_PASSWORD');
+    this.name = 'WeakPasswordError';
+    Object.setPrototypeOf(this, WeakPasswordError.prototype);
+  }
+}
+
+/**
+ * Zero-knowledge proof errors
+ */
+export class ZKProofError extends ZKFileError {
+  constructor(message: string, code?: string) {
+    super(message, code);
+    this.name = 'ZKProofError';
+    Object.setPrototypeOf(this, ZKProofError.prototype);
+  }
+}
+
+/**
+ * Access control errors: no grant, or a revoked or expired one
+ */
+export class AccessDeniedError extends ZKFileError {
+  constructor(message: string, code?: string) {
+    super(message, code);
+    this.name = 'AccessDeniedError';
+    Object.setPrototypeOf(this, AccessDeniedError.prototype);
+  }
+}
+
+/**
+ * Failed transactions: an expired blockhash, insufficient funds, a program
+ * error or a signature the wallet rejected
+ */
+export class TransactionError extends SolanaError {
+  /** Program logs from the simulation or the failed transaction */
+  logs?: string[];
+  /** Custom error code returned by the failing program */
+  programErrorCode?: number;
+  /** Index of the failing instruction in the transaction */
+  instructionIndex?: number;
+  /** Transaction signature, once it was sent */
+  signature?: string;
+  /**
+   * For batches, the signatures of the instructions confirmed before the
+   * failure, one per instruction as sendBatch returns them
+   */
+  confirmedSignatures?: string[];
+
+  constructor(
+    message: string,
+    code?: string,
+    details: Pick<
+      TransactionError,
+      'logs' | 'programErrorCode' | 'instructionIndex' | 'signature' | 'confirmedSignatures'
+    > = {}
+  ) {
+    super(message, code);
+    this.name = 'TransactionError';
+    Object.setPrototypeOf(this, TransactionError.prototype);
+    Object.assign(this, details);
+  }
+}
+
+/**
+ * Key rotation after a revocation that did not complete; the revocation
+ * itself has landed
+ */
+export class RekeyError extends SolanaError {
+  constructor(
+    message: string,
+    /** Signature of the revocation */
+    public revokeSignature: string,
+    /** Partial rotation, when the new version was recorded but grantees are pending */
+    public rotation?: RotateKeyResult
+  ) {
+    super(message, 'REKEY_FAILED');
+    this.name = 'RekeyError';
+    Object.setPrototypeOf(this, RekeyError.prototype);
+  }
+}
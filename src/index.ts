@@ -10,26 +10,183 @@ export { EncryptionService } from './services/encryption';
 export { StorageService } from './services/storage';
 export { SolanaService } from './services/solana';
 export { ZKProofService } from './services/zk-proof';
+export {
+  IpfsProvider,
+  PinningServiceProvider,
+  S3Provider,
+  LocalFileSystemProvider,
+  MemoryStorageProvider,
+  ArweaveProvider,
+  GatewayPool,
+  IpfsGatewayClient,
+} from './storage';
+export type {
+  IpfsProviderOptions,
+  PinningServiceProviderOptions,
+  S3ProviderOptions,
+  LocalFileSystemProviderOptions,
+  ArweaveProviderOptions,
+} from './storage';
+export { computeCid } from './utils/unixfs-importer';
+export { ARCHIVE_MIME_TYPE } from './utils/archive';
+export { estimatePasswordStrength } from './utils/password';
+export { ed25519PublicKeyToX25519, ed25519SecretKeyToX25519 } from './utils/x25519';
+export {
+  SIGNATURE_TYPES,
+  createDataItem,
+  walletDataItemSigner,
+  deepHash,
+  encodeTags,
+} from './utils/data-item';
 
 export type {
   ZKFileConfig,
   UploadOptions,
   UploadResult,
+  UpdateFileOptions,
+  UpdateFileResult,
+  FileVersion,
+  DirectoryEntry,
+  DirectoryInput,
+  UploadDirectoryOptions,
+  UploadDirectoryResult,
+  ArchiveEntry,
+  ResumableUploadOptions,
   DownloadOptions,
+  DownloadToFileOptions,
   ShareOptions,
+  ShareManyOptions,
   ShareResult,
+  TransactionOptions,
+  BatchOptions,
+  BuildTransactionOptions,
+  DurableNonce,
+  UnsignedTransaction,
+  SubmitOptions,
   RevokeOptions,
+  DeleteOptions,
+  DeleteResult,
+  RetentionOptions,
+  CleanupResult,
+  RotateKeyOptions,
+  RotateKeyResult,
+  ProgressPhase,
+  ProgressUpdate,
+  ProgressCallback,
+  StorageProvider,
+  StorageObjectInfo,
+  StorageUploadOptions,
+  ByteRange,
+  GatewayOptions,
+  GatewayHealth,
+  CidOptions,
+  MultipartUpload,
+  UploadPart,
+  CompletedPart,
+  DataItem,
+  DataItemSigner,
+  DataItemTag,
   FileMetadata,
+  FileInput,
   EncryptedFile,
   DecryptedFile,
+  DecryptionStream,
+  DecryptedStream,
+  FileRecord,
+  EncryptionHeader,
+  EncryptionStreamOptions,
+  ChunkedEncryption,
+  ChunkedDecryption,
+  EncryptionKeyPair,
+  KdfParams,
+  Pbkdf2Params,
+  ScryptParams,
+  Argon2idParams,
+  PasswordStrength,
+  PasswordPolicy,
   AccessControl,
+  AccessListOptions,
   AuditLog,
+  AuditLogOptions,
+  ZKProof,
+  CircuitArtifacts,
+  ZKCircuits,
+  CommitOwnershipOptions,
+  ProveOwnershipOptions,
+  VerifyOwnershipOptions,
+  ContentSchema,
+  ContentProofInput,
+  ContentClaim,
+  ProveContentOptions,
+  ContentProof,
+  VerifyContentOptions,
 } from './types';
 
+export {
+  findFileAddress,
+  findAccessGrantAddress,
+  findEncryptionKeyAddress,
+  findOwnershipCommitmentAddress,
+  findRetentionAddress,
+  findVersionAddress,
+  decodeFileAccount,
+  decodeAccessGrant,
+  decodeEncryptionKey,
+  decodeOwnershipCommitment,
+  decodeFileRetention,
+  decodeFileVersion,
+} from './program/accounts';
+export type {
+  FileAccountData,
+  AccessGrantData,
+  EncryptionKeyData,
+  OwnershipCommitmentData,
+  FileRetentionData,
+  FileVersionData,
+} from './program/accounts';
+
+export {
+  createInitializeFileInstruction,
+  createGrantAccessInstruction,
+  createRevokeAccessInstruction,
+  createRegisterEncryptionKeyInstruction,
+  createUpdateFileInstruction,
+  createUpdateAccessKeyInstruction,
+  createSetOwnershipCommitmentInstruction,
+  createRecordAccessInstruction,
+  createSetRetentionInstruction,
+  createCloseAccessGrantInstruction,
+  createDeleteFileInstruction,
+  createAddVersionInstruction,
+  createCloseVersionInstruction,
+  decodeInstruction,
+} from './program/instructions';
+export type {
+  InitializeFileParams,
+  GrantAccessParams,
+  RevokeAccessParams,
+  RegisterEncryptionKeyParams,
+  UpdateFileParams,
+  UpdateAccessKeyParams,
+  SetOwnershipCommitmentParams,
+  RecordAccessParams,
+  SetRetentionParams,
+  CloseAccessGrantParams,
+  DeleteFileParams,
+  AddVersionParams,
+  CloseVersionParams,
+  DecodedInstruction,
+} from './program/instructions';
+
 export {
   ZKFileError,
   EncryptionError,
   StorageError,
   SolanaError,
+  TransactionError,
+  RekeyError,
   ValidationError,
+  WeakPasswordError,
+  ZKProofError,
+  AccessDeniedError,
 } from './errors';
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import {
+  ACCOUNT_DISCRIMINATORS,
+  decodeAccessGrant,
+  decodeEncryptionKey,
+  decodeFileAccount,
+  decodeFileVersion,
+} from './accounts';
+import { BorshWriter } from '../utils/borsh';
+
+const owner = Keypair.generate().publicKey;
+const file = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const fileIdHash = new Uint8Array(32).fill(7);
+
+describe('program accounts', () => {
+  it.each(Object.entries(ACCOUNT_DISCRIMINATORS))(
+    'uses the Anchor discriminator for %s',
+    (name, discriminator) => {
+      const expected = createHash('sha256').update(`account:${name}`).digest();
+      expect(Buffer.from(discriminator).equals(expected.subarray(0, 8))).toBe(true);
+    }
+  );
+
+  it('decodes a file account', () => {
+    const data = new BorshWriter()
+      .fixedBytes(ACCOUNT_DISCRIMINATORS.FileAccount)
+      .publicKey(owner)
+      .fixedBytes(fileIdHash)
+      .string('ipfs')
+      .string('bafkreitest')
+      .i64(1_700_000_000)
+      .u8(254)
+      .toBytes();
+
+    const account = decodeFileAccount(data);
+    expect(account.owner.equals(owner)).toBe(true);
+    expect(account).toMatchObject({
+      fileIdHash,
+      storageProvider: 'ipfs',
+      cid: 'bafkreitest',
+      createdAt: 1_700_000_000_000,
+      bump: 254,
+    });
+  });
+
+  it('decodes an access grant with and without expiry', () => {
+    const grant = (expiresAt?: number) =>
+      new BorshWriter()
+        .fixedBytes(ACCOUNT_DISCRIMINATORS.AccessGrant)
+        .publicKey(file)
+        .publicKey(owner)
+        .publicKey(recipient)
+        .i64(1_700_000_000)
+        .option(expiresAt, (writer, value) => writer.i64(value))
+        .bool(true)
+        .bytes(Uint8Array.of(1, 2, 3))
+        .u8(255)
+        .toBytes();
+
+    const expiring = decodeAccessGrant(grant(1_800_000_000));
+    expect(expiring.recipient.equals(recipient)).toBe(true);
+    expect(expiring).toMatchObject({
+      grantedAt: 1_700_000_000_000,
+      expiresAt: 1_800_000_000_000,
+      revoked: true,
+      wrappedKey: Uint8Array.of(1, 2, 3),
+      bump: 255,
+    });
+    expect(decodeAccessGrant(grant()).expiresAt).toBeUndefined();
+  });
+
+  it('decodes a file version', () => {
+    const data = new BorshWriter()
+      .fixedBytes(ACCOUNT_DISCRIMINATORS.FileVersion)
+      .publicKey(file)
+      .u32(2)
+      .publicKey(owner)
+      .string('arweave')
+      .string('tx-id')
+      .i64(1_700_000_000)
+      .u8(250)
+      .toBytes();
+
+    expect(decodeFileVersion(data)).toMatchObject({
+      version: 2,
+      storageProvider: 'arweave',
+      cid: 'tx-id',
+      createdAt: 1_700_000_000_000,
+      bump: 250,
+    });
+  });
+
+  it('rejects another account type', () => {
+    const data = new BorshWriter()
+      .fixedBytes(ACCOUNT_DISCRIMINATORS.FileAccount)
+      .publicKey(owner)
+      .fixedBytes(fileIdHash)
+      .u8(1)
+      .toBytes();
+
+    expect(() => decodeEncryptionKey(data)).toThrow(
+      expect.objectContaining({ code: 'INVALID_ACCOUNT_DATA' })
+    );
+  });
+
+  it('rejects truncated account data', () => {
+    const data = new BorshWriter()
+      .fixedBytes(ACCOUNT_DISCRIMINATORS.FileAccount)
+      .publicKey(owner)
+      .fixedBytes(fileIdHash)
+      .u32(100)
+      .toBytes();
+
+    expect(() => decodeFileAccount(data)).toThrow(
+      expect.objectContaining({ code: 'INVALID_ACCOUNT_DATA' })
+    );
+  });
+});
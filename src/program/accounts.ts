@@ -0,0 +1,312 @@
+import { PublicKey } from '@solana/web3.js';
+import { SolanaError } from '../errors';
+import { BorshReader, BorshWriter } from '../utils/borsh';
+import { bytesEqual } from '../utils/encoding';
+
+/**
+ * ZKFile program accounts: PDA derivation and Borsh decoders
+ * Timestamps are stored on-chain as i64 Unix seconds and exposed in milliseconds.
+ */
+
+/** PDA seed for file accounts */
+export const FILE_SEED = 'file';
+/** PDA seed for access grant accounts */
+export const ACCESS_SEED = 'access';
+/** PDA seed for registered encryption key accounts */
+export const ENCRYPTION_KEY_SEED = 'encryption_key';
+/** PDA seed for ownership commitment accounts */
+export const OWNERSHIP_SEED = 'ownership';
+/** PDA seed for file retention accounts */
+export const RETENTION_SEED = 'retention';
+/** PDA seed for file version accounts */
+export const VERSION_SEED = 'version';
+
+/** Anchor account discriminators: sha256("account:<Name>")[0..8] */
+export const ACCOUNT_DISCRIMINATORS = {
+  FileAccount: new Uint8Array([137, 179, 136, 94, 131, 141, 150, 80]),
+  AccessGrant: new Uint8Array([167, 55, 184, 237, 74, 242, 0, 109]),
+  EncryptionKey: new Uint8Array([6, 60, 23, 105, 201, 33, 233, 33]),
+  OwnershipCommitment: new Uint8Array([135, 44, 102, 48, 228, 234, 141, 34]),
+  FileRetention: new Uint8Array([194, 133, 64, 232, 137, 70, 197, 193]),
+  FileVersion: new Uint8Array([64, 112, 226, 81, 45, 16, 35, 192]),
+};
+
+/** Maximum length in bytes of a storage provider name */
+export const MAX_STORAGE_PROVIDER_LENGTH = 32;
+
+/**
+ * Decoded file account
+ */
+export interface FileAccountData {
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  /** Name of the storage provider holding the content */
+  storageProvider: string;
+  cid: string;
+  createdAt: number;
+  bump: number;
+}
+
+/**
+ * Decoded access grant account
+ */
+export interface AccessGrantData {
+  file: PublicKey;
+  owner: PublicKey;
+  recipient: PublicKey;
+  grantedAt: number;
+  expiresAt?: number;
+  revoked: boolean;
+  /** File data key wrapped for the recipient's X25519 key */
+  wrappedKey: Uint8Array;
+  bump: number;
+}
+
+/**
+ * Decoded encryption key account
+ */
+export interface EncryptionKeyData {
+  owner: PublicKey;
+  /** X25519 public key used to wrap data keys for the owner */
+  publicKey: Uint8Array;
+  bump: number;
+}
+
+/**
+ * Decoded ownership commitment account
+ */
+export interface OwnershipCommitmentData {
+  file: PublicKey;
+  /** Poseidon commitment to the owner's secret, a big-endian field element */
+  commitment: Uint8Array;
+  updatedAt: number;
+  bump: number;
+}
+
+/**
+ * Decoded file retention account
+ */
+export interface FileRetentionData {
+  file: PublicKey;
+  owner: PublicKey;
+  /** When the file may be deleted by a cleanup */
+  expiresAt: number;
+  bump: number;
+}
+
+/**
+ * Decoded file version account
+ */
+export interface FileVersionData {
+  file: PublicKey;
+  /** Version number, counting from 0 for the first upload */
+  version: number;
+  /** Wallet that uploaded the version */
+  uploader: PublicKey;
+  /** Name of the storage provider holding the content */
+  storageProvider: string;
+  cid: string;
+  createdAt: number;
+  bump: number;
+}
+
+/**
+ * Derive the file account address from a file ID hash
+ */
+export function findFileAddress(programId: PublicKey, fileIdHash: Uint8Array): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode(FILE_SEED), fileIdHash],
+    programId
+  );
+}
+
+/**
+ * Derive the access grant address for a file account and recipient
+ */
+export function findAccessGrantAddress(
+  programId: PublicKey,
+  file: PublicKey,
+  recipient: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode(ACCESS_SEED), file.toBytes(), recipient.toBytes()],
+    programId
+  );
+}
+
+/**
+ * Derive the registered encryption key address for a wallet
+ */
+export function findEncryptionKeyAddress(
+  programId: PublicKey,
+  owner: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode(ENCRYPTION_KEY_SEED), owner.toBytes()],
+    programId
+  );
+}
+
+/**
+ * Derive the ownership commitment account address for a file account
+ */
+export function findOwnershipCommitmentAddress(
+  programId: PublicKey,
+  file: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode(OWNERSHIP_SEED), file.toBytes()],
+    programId
+  );
+}
+
+/**
+ * Derive the retention account address for a file account
+ */
+export function findRetentionAddress(programId: PublicKey, file: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode(RETENTION_SEED), file.toBytes()],
+    programId
+  );
+}
+
+/**
+ * Derive the address of a file account's version
+ */
+export function findVersionAddress(
+  programId: PublicKey,
+  file: PublicKey,
+  version: number
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [
+      new TextEncoder().encode(VERSION_SEED),
+      file.toBytes(),
+      new BorshWriter().u32(version).toBytes(),
+    ],
+    programId
+  );
+}
+
+/**
+ * Decode a file account
+ * Layout: [discriminator (8)][owner (32)][file ID hash (32)][storage provider (string)]
+ *         [cid (string)][created at (i64)][bump (u8)]
+ */
+export function decodeFileAccount(data: Uint8Array): FileAccountData {
+  return decodeAccount('FileAccount', data, (reader) => {
+    const owner = reader.publicKey();
+    const fileIdHash = reader.fixedBytes(32);
+    const storageProvider = reader.string();
+    const cid = reader.string();
+    const createdAt = reader.i64() * 1000;
+    const bump = reader.u8();
+
+    return { owner, fileIdHash, storageProvider, cid, createdAt, bump };
+  });
+}
+
+/**
+ * Decode an access grant account
+ * Layout: [discriminator (8)][file (32)][owner (32)][recipient (32)][granted at (i64)]
+ *         [expires at (Option<i64>)][revoked (bool)][wrapped key (bytes)][bump (u8)]
+ */
+export function decodeAccessGrant(data: Uint8Array): AccessGrantData {
+  return decodeAccount('AccessGrant', data, (reader) => {
+    const file = reader.publicKey();
+    const owner = reader.publicKey();
+    const recipient = reader.publicKey();
+    const grantedAt = reader.i64() * 1000;
+    const expiresAt = reader.option((r) => r.i64() * 1000);
+    const revoked = reader.bool();
+    const wrappedKey = reader.bytes();
+    const bump = reader.u8();
+
+    return { file, owner, recipient, grantedAt, expiresAt, revoked, wrappedKey, bump };
+  });
+}
+
+/**
+ * Decode an encryption key account
+ * Layout: [discriminator (8)][owner (32)][X25519 public key (32)][bump (u8)]
+ */
+export function decodeEncryptionKey(data: Uint8Array): EncryptionKeyData {
+  return decodeAccount('EncryptionKey', data, (reader) => {
+    const owner = reader.publicKey();
+    const publicKey = reader.fixedBytes(32);
+    const bump = reader.u8();
+
+    return { owner, publicKey, bump };
+  });
+}
+
+/**
+ * Decode an ownership commitment account
+ * Layout: [discriminator (8)][file (32)][commitment (32)][updated at (i64)][bump (u8)]
+ */
+export function decodeOwnershipCommitment(data: Uint8Array): OwnershipCommitmentData {
+  return decodeAccount('OwnershipCommitment', data, (reader) => {
+    const file = reader.publicKey();
+    const commitment = reader.fixedBytes(32);
+    const updatedAt = reader.i64() * 1000;
+    const bump = reader.u8();
+
+    return { file, commitment, updatedAt, bump };
+  });
+}
+
+/**
+ * Decode a file retention account
+ * Layout: [discriminator (8)][file (32)][owner (32)][expires at (i64)][bump (u8)]
+ */
+export function decodeFileRetention(data: Uint8Array): FileRetentionData {
+  return decodeAccount('FileRetention', data, (reader) => {
+    const file = reader.publicKey();
+    const owner = reader.publicKey();
+    const expiresAt = reader.i64() * 1000;
+    const bump = reader.u8();
+
+    return { file, owner, expiresAt, bump };
+  });
+}
+
+/**
+ * Decode a file version account
+ * Layout: [discriminator (8)][file (32)][version (u32)][uploader (32)]
+ *         [storage provider (string)][cid (string)][created at (i64)][bump (u8)]
+ */
+export function decodeFileVersion(data: Uint8Array): FileVersionData {
+  return decodeAccount('FileVersion', data, (reader) => {
+    const file = reader.publicKey();
+    const version = reader.u32();
+    const uploader = reader.publicKey();
+    const storageProvider = reader.string();
+    const cid = reader.string();
+    const createdAt = reader.i64() * 1000;
+    const bump = reader.u8();
+
+    return { file, version, uploader, storageProvider, cid, createdAt, bump };
+  });
+}
+
+/**
+ * Check the discriminator and decode the remaining account data
+ */
+function decodeAccount<T>(
+  name: keyof typeof ACCOUNT_DISCRIMINATORS,
+  data: Uint8Array,
+  decode: (reader: BorshReader) => T
+): T {
+  try {
+    const reader = new BorshReader(data);
+    if (!bytesEqual(reader.fixedBytes(8), ACCOUNT_DISCRIMINATORS[name])) {
+      throw new Error('unexpected account discriminator');
+    }
+    return decode(reader);
+  } catch (error) {
+    throw new SolanaError(
+      `Invalid ${name} account: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_ACCOUNT_DATA'
+    );
+  }
+}
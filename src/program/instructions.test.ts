@@ -0,0 +1,200 @@
+import { createHash } from 'crypto';
+import { Keypair, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  createAddVersionInstruction,
+  createGrantAccessInstruction,
+  createInitializeFileInstruction,
+  createRecordAccessInstruction,
+  createRegisterEncryptionKeyInstruction,
+  createRevokeAccessInstruction,
+  createSetRetentionInstruction,
+  createUpdateAccessKeyInstruction,
+  decodeInstruction,
+  INSTRUCTION_DISCRIMINATORS,
+} from './instructions';
+import { findAccessGrantAddress, findFileAddress, findVersionAddress } from './accounts';
+
+const programId = Keypair.generate().publicKey;
+const owner = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const fileIdHash = new Uint8Array(32).map((_, i) => i);
+
+/** Decode an instruction's data as a plain Uint8Array, as read from a transaction */
+function decode(instruction: TransactionInstruction) {
+  return decodeInstruction(new Uint8Array(instruction.data));
+}
+
+describe('program instructions', () => {
+  it.each(Object.entries(INSTRUCTION_DISCRIMINATORS))(
+    'uses the Anchor discriminator for %s',
+    (name, discriminator) => {
+      const snakeName = name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+      const expected = createHash('sha256').update(`global:${snakeName}`).digest();
+      expect(Buffer.from(discriminator).equals(expected.subarray(0, 8))).toBe(true);
+    }
+  );
+
+  it('encodes initialize_file args and accounts', () => {
+    const instruction = createInitializeFileInstruction({
+      programId,
+      owner,
+      fileIdHash,
+      cid: 'bafkreitest',
+      storageProvider: 'ipfs',
+    });
+
+    expect(instruction.keys.map((key) => key.pubkey.toBase58())).toEqual([
+      findFileAddress(programId, fileIdHash)[0].toBase58(),
+      owner.toBase58(),
+      SystemProgram.programId.toBase58(),
+    ]);
+    expect(instruction.keys[1]).toMatchObject({ isSigner: true, isWritable: true });
+    expect(decode(instruction)).toEqual({
+      name: 'initializeFile',
+      fileIdHash,
+      cid: 'bafkreitest',
+      storageProvider: 'ipfs',
+    });
+  });
+
+  it('encodes the initialize_file layout byte for byte', () => {
+    const instruction = createInitializeFileInstruction({
+      programId,
+      owner,
+      fileIdHash,
+      cid: 'ab',
+      storageProvider: 's3',
+    });
+
+    expect([...instruction.data]).toEqual([
+      ...INSTRUCTION_DISCRIMINATORS.initializeFile,
+      ...fileIdHash,
+      ...[2, 0, 0, 0, 0x61, 0x62],
+      ...[2, 0, 0, 0, 0x73, 0x33],
+    ]);
+  });
+
+  it('stores grant expiry in seconds and decodes it in milliseconds', () => {
+    const wrappedKey = new Uint8Array(80).fill(9);
+    const instruction = createGrantAccessInstruction({
+      programId,
+      owner,
+      fileIdHash,
+      recipient,
+      expiresAt: 1_700_000_000_999,
+      wrappedKey,
+    });
+
+    const args = instruction.data.subarray(8);
+    expect(args[0]).toBe(1);
+    expect(args.readBigInt64LE(1)).toBe(1_700_000_000n);
+    expect(args.readUInt32LE(9)).toBe(80);
+    expect(decode(instruction)).toEqual({
+      name: 'grantAccess',
+      expiresAt: 1_700_000_000_000,
+      wrappedKey,
+    });
+
+    const [file] = findFileAddress(programId, fileIdHash);
+    expect(instruction.keys[1].pubkey.toBase58()).toBe(
+      findAccessGrantAddress(programId, file, recipient)[0].toBase58()
+    );
+  });
+
+  it('encodes a grant without expiry as None', () => {
+    const instruction = createGrantAccessInstruction({
+      programId,
+      owner,
+      fileIdHash,
+      recipient,
+      wrappedKey: new Uint8Array(0),
+    });
+
+    expect([...instruction.data.subarray(8)]).toEqual([0, 0, 0, 0, 0]);
+    expect(decode(instruction)).toEqual({
+      name: 'grantAccess',
+      expiresAt: undefined,
+      wrappedKey: new Uint8Array(0),
+    });
+  });
+
+  it.each([
+    [
+      'addVersion',
+      createAddVersionInstruction({
+        programId,
+        uploader: owner,
+        fileIdHash,
+        version: 258,
+        cid: 'ar-tx-id',
+        storageProvider: 'arweave',
+      }),
+      { version: 258, cid: 'ar-tx-id', storageProvider: 'arweave' },
+    ],
+    [
+      'updateAccessKey',
+      createUpdateAccessKeyInstruction({
+        programId,
+        owner,
+        fileIdHash,
+        recipient,
+        wrappedKey: Uint8Array.of(1, 2, 3),
+      }),
+      { wrappedKey: Uint8Array.of(1, 2, 3) },
+    ],
+    [
+      'registerEncryptionKey',
+      createRegisterEncryptionKeyInstruction({ programId, owner, publicKey: fileIdHash }),
+      { publicKey: fileIdHash },
+    ],
+    [
+      'recordAccess',
+      createRecordAccessInstruction({ programId, reader: recipient, fileIdHash, cid: 'cid' }),
+      { cid: 'cid' },
+    ],
+    [
+      'setRetention',
+      createSetRetentionInstruction({ programId, owner, fileIdHash, expiresAt: 86_400_000 }),
+      { expiresAt: 86_400_000 },
+    ],
+    [
+      'revokeAccess',
+      createRevokeAccessInstruction({ programId, owner, fileIdHash, recipient }),
+      {},
+    ],
+  ])('round-trips %s through decodeInstruction', (name, instruction, args) => {
+    expect(decode(instruction)).toEqual({ name, ...args });
+  });
+
+  it('derives the version address from the little-endian version number', () => {
+    const instruction = createAddVersionInstruction({
+      programId,
+      uploader: owner,
+      fileIdHash,
+      version: 3,
+      cid: 'cid',
+      storageProvider: 'ipfs',
+    });
+
+    const [file] = findFileAddress(programId, fileIdHash);
+    expect(instruction.keys[1].pubkey.toBase58()).toBe(
+      findVersionAddress(programId, file, 3)[0].toBase58()
+    );
+  });
+
+  it('returns null for unknown discriminators', () => {
+    expect(decodeInstruction(new Uint8Array(16))).toBeNull();
+  });
+
+  it('throws on truncated args', () => {
+    const instruction = createInitializeFileInstruction({
+      programId,
+      owner,
+      fileIdHash,
+      cid: 'bafkreitest',
+      storageProvider: 'ipfs',
+    });
+
+    expect(() => decodeInstruction(instruction.data.subarray(0, 45))).toThrow(RangeError);
+  });
+});
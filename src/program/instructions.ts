@@ -0,0 +1,555 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { BorshReader, BorshWriter } from '../utils/borsh';
+import { concatBytes } from '../utils/encoding';
+import {
+  findAccessGrantAddress,
+  findEncryptionKeyAddress,
+  findFileAddress,
+  findOwnershipCommitmentAddress,
+  findRetentionAddress,
+  findVersionAddress,
+} from './accounts';
+
+/**
+ * ZKFile program instructions
+ * Instruction data is [discriminator (8)][Borsh-encoded args], Anchor style.
+ */
+
+/** Anchor instruction discriminators: sha256("global:<name>")[0..8] */
+export const INSTRUCTION_DISCRIMINATORS = {
+  initializeFile: new Uint8Array([224, 102, 178, 151, 40, 216, 112, 29]),
+  grantAccess: new Uint8Array([66, 88, 87, 113, 39, 22, 27, 165]),
+  revokeAccess: new Uint8Array([106, 128, 38, 169, 103, 238, 102, 147]),
+  registerEncryptionKey: new Uint8Array([52, 17, 28, 66, 141, 254, 167, 183]),
+  updateFile: new Uint8Array([222, 94, 111, 3, 140, 241, 125, 97]),
+  updateAccessKey: new Uint8Array([242, 10, 212, 35, 207, 191, 12, 169]),
+  setOwnershipCommitment: new Uint8Array([208, 111, 108, 184, 107, 140, 175, 128]),
+  recordAccess: new Uint8Array([64, 187, 29, 123, 147, 64, 218, 100]),
+  setRetention: new Uint8Array([145, 7, 233, 72, 215, 201, 38, 250]),
+  closeAccessGrant: new Uint8Array([194, 75, 18, 103, 1, 202, 93, 163]),
+  deleteFile: new Uint8Array([60, 149, 33, 105, 184, 39, 230, 235]),
+  addVersion: new Uint8Array([167, 42, 0, 24, 83, 109, 61, 248]),
+  closeVersion: new Uint8Array([234, 243, 5, 102, 199, 184, 87, 98]),
+};
+
+/**
+ * initialize_file accounts and args
+ */
+export interface InitializeFileParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  cid: string;
+  /** Storage provider name */
+  storageProvider: string;
+}
+
+/**
+ * grant_access accounts and args
+ */
+export interface GrantAccessParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  recipient: PublicKey;
+  /** Expiration timestamp in milliseconds */
+  expiresAt?: number;
+  /** File data key wrapped for the recipient */
+  wrappedKey: Uint8Array;
+}
+
+/**
+ * update_file accounts and args
+ */
+export interface UpdateFileParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  cid: string;
+  /** Storage provider name */
+  storageProvider: string;
+}
+
+/**
+ * update_access_key accounts and args
+ */
+export interface UpdateAccessKeyParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  recipient: PublicKey;
+  /** New file data key wrapped for the recipient */
+  wrappedKey: Uint8Array;
+}
+
+/**
+ * revoke_access accounts
+ */
+export interface RevokeAccessParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  recipient: PublicKey;
+}
+
+/**
+ * register_encryption_key accounts and args
+ */
+export interface RegisterEncryptionKeyParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  /** X25519 public key */
+  publicKey: Uint8Array;
+}
+
+/**
+ * set_ownership_commitment accounts and args
+ */
+export interface SetOwnershipCommitmentParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  /** Poseidon commitment, a 32-byte big-endian field element */
+  commitment: Uint8Array;
+}
+
+/**
+ * record_access accounts and args
+ */
+export interface RecordAccessParams {
+  programId: PublicKey;
+  reader: PublicKey;
+  fileIdHash: Uint8Array;
+  /** CID of the content that was accessed */
+  cid: string;
+}
+
+/**
+ * set_retention accounts and args
+ */
+export interface SetRetentionParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  /** Expiration timestamp in milliseconds; omit to clear the retention */
+  expiresAt?: number;
+}
+
+/**
+ * close_access_grant accounts
+ */
+export interface CloseAccessGrantParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  recipient: PublicKey;
+}
+
+/**
+ * delete_file accounts
+ */
+export interface DeleteFileParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+}
+
+/**
+ * add_version accounts and args
+ */
+export interface AddVersionParams {
+  programId: PublicKey;
+  uploader: PublicKey;
+  fileIdHash: Uint8Array;
+  /** Version number; the next after the file's latest */
+  version: number;
+  cid: string;
+  /** Storage provider name */
+  storageProvider: string;
+}
+
+/**
+ * close_version accounts
+ */
+export interface CloseVersionParams {
+  programId: PublicKey;
+  owner: PublicKey;
+  fileIdHash: Uint8Array;
+  version: number;
+}
+
+/**
+ * Instruction decoded from transaction data
+ */
+export type DecodedInstruction =
+  | { name: 'initializeFile'; fileIdHash: Uint8Array; cid: string; storageProvider: string }
+  | { name: 'grantAccess'; expiresAt?: number; wrappedKey: Uint8Array }
+  | { name: 'revokeAccess' }
+  | { name: 'registerEncryptionKey'; publicKey: Uint8Array }
+  | { name: 'updateFile'; cid: string; storageProvider: string }
+  | { name: 'updateAccessKey'; wrappedKey: Uint8Array }
+  | { name: 'setOwnershipCommitment'; commitment: Uint8Array }
+  | { name: 'recordAccess'; cid: string }
+  | { name: 'setRetention'; expiresAt?: number }
+  | { name: 'closeAccessGrant' }
+  | { name: 'deleteFile' }
+  | { name: 'addVersion'; version: number; cid: string; storageProvider: string }
+  | { name: 'closeVersion' };
+
+/**
+ * Create an initialize_file instruction
+ * Accounts: [file (w)][owner (s, w)][system program]
+ */
+export function createInitializeFileInstruction(
+  params: InitializeFileParams
+): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const data = new BorshWriter()
+    .fixedBytes(params.fileIdHash)
+    .string(params.cid)
+    .string(params.storageProvider)
+    .toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: true },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('initializeFile', data),
+  });
+}
+
+/**
+ * Create a grant_access instruction
+ * Accounts: [file][access grant (w)][recipient][owner (s, w)][system program]
+ */
+export function createGrantAccessInstruction(params: GrantAccessParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [grant] = findAccessGrantAddress(params.programId, file, params.recipient);
+  const data = new BorshWriter()
+    .option(params.expiresAt, (writer, expiresAt) => writer.i64(Math.floor(expiresAt / 1000)))
+    .bytes(params.wrappedKey)
+    .toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: grant, isSigner: false, isWritable: true },
+      { pubkey: params.recipient, isSigner: false, isWritable: false },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('grantAccess', data),
+  });
+}
+
+/**
+ * Create a revoke_access instruction
+ * Accounts: [file][access grant (w)][recipient][owner (s)]
+ */
+export function createRevokeAccessInstruction(params: RevokeAccessParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [grant] = findAccessGrantAddress(params.programId, file, params.recipient);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: grant, isSigner: false, isWritable: true },
+      { pubkey: params.recipient, isSigner: false, isWritable: false },
+      { pubkey: params.owner, isSigner: true, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('revokeAccess', new Uint8Array(0)),
+  });
+}
+
+/**
+ * Create an update_file instruction, pointing the file at new content
+ * Accounts: [file (w)][owner (s)]
+ */
+export function createUpdateFileInstruction(params: UpdateFileParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const data = new BorshWriter()
+    .string(params.cid)
+    .string(params.storageProvider)
+    .toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: true },
+      { pubkey: params.owner, isSigner: true, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('updateFile', data),
+  });
+}
+
+/**
+ * Create an update_access_key instruction, replacing a grant's wrapped key
+ * Accounts: [file][access grant (w)][recipient][owner (s)]
+ */
+export function createUpdateAccessKeyInstruction(
+  params: UpdateAccessKeyParams
+): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [grant] = findAccessGrantAddress(params.programId, file, params.recipient);
+  const data = new BorshWriter().bytes(params.wrappedKey).toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: grant, isSigner: false, isWritable: true },
+      { pubkey: params.recipient, isSigner: false, isWritable: false },
+      { pubkey: params.owner, isSigner: true, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('updateAccessKey', data),
+  });
+}
+
+/**
+ * Create a register_encryption_key instruction (creates or replaces the key)
+ * Accounts: [encryption key (w)][owner (s, w)][system program]
+ */
+export function createRegisterEncryptionKeyInstruction(
+  params: RegisterEncryptionKeyParams
+): TransactionInstruction {
+  const [encryptionKey] = findEncryptionKeyAddress(params.programId, params.owner);
+  const data = new BorshWriter().fixedBytes(params.publicKey).toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: encryptionKey, isSigner: false, isWritable: true },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('registerEncryptionKey', data),
+  });
+}
+
+/**
+ * Create a set_ownership_commitment instruction (creates or replaces the commitment)
+ * Accounts: [ownership commitment (w)][file][owner (s, w)][system program]
+ */
+export function createSetOwnershipCommitmentInstruction(
+  params: SetOwnershipCommitmentParams
+): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [ownership] = findOwnershipCommitmentAddress(params.programId, file);
+  const data = new BorshWriter().fixedBytes(params.commitment).toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: ownership, isSigner: false, isWritable: true },
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('setOwnershipCommitment', data),
+  });
+}
+
+/**
+ * Create a record_access instruction: a receipt, signed by the reader, that
+ * the file's content was accessed
+ * Accounts: [file][access grant][reader (s)]
+ */
+export function createRecordAccessInstruction(params: RecordAccessParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [grant] = findAccessGrantAddress(params.programId, file, params.reader);
+  const data = new BorshWriter().string(params.cid).toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: grant, isSigner: false, isWritable: false },
+      { pubkey: params.reader, isSigner: true, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('recordAccess', data),
+  });
+}
+
+/**
+ * Create a set_retention instruction; without an expiration the retention
+ * account is closed
+ * Accounts: [retention (w)][file][owner (s, w)][system program]
+ */
+export function createSetRetentionInstruction(params: SetRetentionParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [retention] = findRetentionAddress(params.programId, file);
+  const data = new BorshWriter()
+    .option(params.expiresAt, (writer, expiresAt) => writer.i64(Math.floor(expiresAt / 1000)))
+    .toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: retention, isSigner: false, isWritable: true },
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('setRetention', data),
+  });
+}
+
+/**
+ * Create a close_access_grant instruction, returning the grant's rent to the owner
+ * Accounts: [file][access grant (w)][recipient][owner (s, w)]
+ */
+export function createCloseAccessGrantInstruction(
+  params: CloseAccessGrantParams
+): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [grant] = findAccessGrantAddress(params.programId, file, params.recipient);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: grant, isSigner: false, isWritable: true },
+      { pubkey: params.recipient, isSigner: false, isWritable: false },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('closeAccessGrant', new Uint8Array(0)),
+  });
+}
+
+/**
+ * Create a delete_file instruction, closing the file account and its
+ * ownership commitment and retention accounts when they exist; access grants
+ * and versions must be closed first
+ * Accounts: [file (w)][ownership commitment (w)][retention (w)][owner (s, w)]
+ */
+export function createDeleteFileInstruction(params: DeleteFileParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [ownership] = findOwnershipCommitmentAddress(params.programId, file);
+  const [retention] = findRetentionAddress(params.programId, file);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: true },
+      { pubkey: ownership, isSigner: false, isWritable: true },
+      { pubkey: retention, isSigner: false, isWritable: true },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('deleteFile', new Uint8Array(0)),
+  });
+}
+
+/**
+ * Create an add_version instruction, recording a version of a file's content
+ * and pointing the file at it
+ * Accounts: [file (w)][version (w)][uploader (s, w)][system program]
+ */
+export function createAddVersionInstruction(params: AddVersionParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [version] = findVersionAddress(params.programId, file, params.version);
+  const data = new BorshWriter()
+    .u32(params.version)
+    .string(params.cid)
+    .string(params.storageProvider)
+    .toBytes();
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: true },
+      { pubkey: version, isSigner: false, isWritable: true },
+      { pubkey: params.uploader, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('addVersion', data),
+  });
+}
+
+/**
+ * Create a close_version instruction, returning the version's rent to the owner
+ * Accounts: [file][version (w)][owner (s, w)]
+ */
+export function createCloseVersionInstruction(params: CloseVersionParams): TransactionInstruction {
+  const [file] = findFileAddress(params.programId, params.fileIdHash);
+  const [version] = findVersionAddress(params.programId, file, params.version);
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: file, isSigner: false, isWritable: false },
+      { pubkey: version, isSigner: false, isWritable: true },
+      { pubkey: params.owner, isSigner: true, isWritable: true },
+    ],
+    programId: params.programId,
+    data: encodeInstruction('closeVersion', new Uint8Array(0)),
+  });
+}
+
+/**
+ * Decode ZKFile instruction data
+ * Returns null for unknown discriminators; throws on malformed args.
+ */
+export function decodeInstruction(data: Uint8Array): DecodedInstruction | null {
+  const name = (
+    Object.keys(INSTRUCTION_DISCRIMINATORS) as (keyof typeof INSTRUCTION_DISCRIMINATORS)[]
+  ).find((key) => INSTRUCTION_DISCRIMINATORS[key].every((byte, i) => data[i] === byte));
+  if (!name) {
+    return null;
+  }
+
+  const reader = new BorshReader(data.subarray(8));
+  switch (name) {
+    case 'initializeFile':
+      return {
+        name,
+        fileIdHash: reader.fixedBytes(32),
+        cid: reader.string(),
+        storageProvider: reader.string(),
+      };
+    case 'grantAccess':
+      return {
+        name,
+        expiresAt: reader.option((r) => r.i64() * 1000),
+        wrappedKey: reader.bytes(),
+      };
+    case 'revokeAccess':
+      return { name };
+    case 'registerEncryptionKey':
+      return { name, publicKey: reader.fixedBytes(32) };
+    case 'updateFile':
+      return { name, cid: reader.string(), storageProvider: reader.string() };
+    case 'updateAccessKey':
+      return { name, wrappedKey: reader.bytes() };
+    case 'setOwnershipCommitment':
+      return { name, commitment: reader.fixedBytes(32) };
+    case 'recordAccess':
+      return { name, cid: reader.string() };
+    case 'setRetention':
+      return { name, expiresAt: reader.option((r) => r.i64() * 1000) };
+    case 'addVersion':
+      return {
+        name,
+        version: reader.u32(),
+        cid: reader.string(),
+        storageProvider: reader.string(),
+      };
+    case 'closeAccessGrant':
+    case 'deleteFile':
+    case 'closeVersion':
+      return { name };
+  }
+}
+
+/**
+ * Prefix Borsh-encoded args with the instruction discriminator
+ */
+function encodeInstruction(
+  name: keyof typeof INSTRUCTION_DISCRIMINATORS,
+  args: Uint8Array
+): Buffer {
+  return Buffer.from(concatBytes(INSTRUCTION_DISCRIMINATORS[name], args));
+}
@@ -0,0 +1,280 @@
+import { webcrypto } from 'crypto';
+import { EncryptionService } from './encryption';
+import { concatBytes } from '../utils/encoding';
+import type { KdfParams } from '../types';
+
+const PASSWORD = 'correct horse battery staple';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function streamOf(data: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  });
+}
+
+/** Replace text in a container's header without changing its length */
+function patchHeader(container: Uint8Array, search: string, replacement: string): Uint8Array {
+  expect(replacement).toHaveLength(search.length);
+  const text = Buffer.from(container).toString('latin1');
+  expect(text).toContain(search);
+  return new Uint8Array(Buffer.from(text.replace(search, replacement), 'latin1'));
+}
+
+describe('EncryptionService', () => {
+  const encryption = new EncryptionService();
+  const data = new TextEncoder().encode('The quick brown fox jumps over the lazy dog');
+
+  describe('container', () => {
+    it('round-trips content and metadata', async () => {
+      const encrypted = await encryption.encryptFile(data, PASSWORD, {
+        name: 'fox.txt',
+        type: 'text/plain',
+      });
+      const container = encryption.combineEncryptedParts(encrypted);
+
+      expect(encryption.isContainer(container)).toBe(true);
+      const decrypted = await encryption.decryptFileWithMetadata(
+        encryption.splitEncryptedParts(container),
+        PASSWORD
+      );
+      expect(decrypted.data).toEqual(data);
+      expect(decrypted.metadata).toMatchObject({ name: 'fox.txt', type: 'text/plain' });
+    });
+
+    it('rejects a wrong password', async () => {
+      const container = encryption.combineEncryptedParts(
+        await encryption.encryptFile(data, PASSWORD)
+      );
+      await expect(
+        encryption.decryptFile(encryption.splitEncryptedParts(container), 'wrong password')
+      ).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('rejects a modified header', async () => {
+      const container = encryption.combineEncryptedParts(
+        await encryption.encryptFile(data, PASSWORD)
+      );
+      const tampered = patchHeader(container, '"iterations":100000', '"iterations":100001');
+      await expect(
+        encryption.decryptFile(encryption.splitEncryptedParts(tampered), PASSWORD)
+      ).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    /** Encrypt data in the legacy layout written before the container format */
+    async function encryptLegacy(iv: Uint8Array): Promise<Uint8Array> {
+      const salt = webcrypto.getRandomValues(new Uint8Array(16));
+      const material = await webcrypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(PASSWORD),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+      );
+      const key = await webcrypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt']
+      );
+      const ciphertext = new Uint8Array(
+        await webcrypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data)
+      );
+      return concatBytes(iv, salt, ciphertext);
+    }
+
+    it('decrypts legacy [IV][Salt][Ciphertext] blobs', async () => {
+      const blob = await encryptLegacy(webcrypto.getRandomValues(new Uint8Array(12)));
+
+      const parts = encryption.splitEncryptedParts(blob);
+      expect(parts.header).toBeUndefined();
+      expect(await encryption.decryptFile(parts, PASSWORD)).toEqual(data);
+    });
+
+    it('decrypts legacy blobs whose IV starts with the container magic', async () => {
+      const iv = concatBytes(
+        new TextEncoder().encode('ZKFC'),
+        Uint8Array.of(7, 0, 3),
+        webcrypto.getRandomValues(new Uint8Array(5))
+      );
+      const blob = await encryptLegacy(iv);
+
+      expect(encryption.isContainer(blob)).toBe(true);
+      const parts = encryption.splitEncryptedParts(blob);
+      expect(parts.header).toBeUndefined();
+      expect(await encryption.decryptFile(parts, PASSWORD)).toEqual(data);
+    });
+
+    it('rejects a container with a newer format version', async () => {
+      const container = encryption.combineEncryptedParts(
+        await encryption.encryptFile(data, PASSWORD)
+      );
+      const newer = container.slice();
+      newer[4] = 2;
+
+      expect(() => encryption.splitEncryptedParts(newer)).toThrow(
+        expect.objectContaining({ code: 'UNSUPPORTED_FORMAT_VERSION' })
+      );
+    });
+
+    it.each([
+      ['negative', '"chunkSize":100', '"chunkSize":-10'],
+      ['fractional', '"chunkSize":100', '"chunkSize":1.5'],
+      ['huge', '"chunkSize":100', '"chunkSize":1e9'],
+    ])('rejects a %s chunk size in the header', async (_, search, replacement) => {
+      const container = await readAll(
+        streamOf(data).pipeThrough(
+          encryption.createEncryptionStream(PASSWORD, { name: 'fox.txt' }, { chunkSize: 100 })
+        )
+      );
+      expect(() =>
+        encryption.splitEncryptedParts(patchHeader(container, search, replacement))
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ENCRYPTED_DATA' }));
+    });
+
+    it('rejects a negative metadata length in the header', async () => {
+      const container = encryption.combineEncryptedParts(
+        await encryption.encryptFile(data, PASSWORD)
+      );
+      const length = /"metadataLength":(\d+)/.exec(Buffer.from(container).toString('latin1'))![1];
+      const tampered = patchHeader(
+        container,
+        `"metadataLength":${length}`,
+        `"metadataLength":-${length.slice(1)}`
+      );
+      expect(() => encryption.splitEncryptedParts(tampered)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ENCRYPTED_DATA' })
+      );
+    });
+
+    it('rejects chunk sizes above the maximum when encrypting', () => {
+      expect(() =>
+        encryption.createEncryptionStream(PASSWORD, undefined, {
+          chunkSize: EncryptionService.MAX_CHUNK_SIZE + 1,
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CHUNK_SIZE' }));
+    });
+  });
+
+  describe('key derivation bounds', () => {
+    it.each([
+      ['PBKDF2 without iterations', { algorithm: 'PBKDF2-SHA256', iterations: 0 }],
+      [
+        'scrypt above the memory limit',
+        { algorithm: 'scrypt', cost: 2 ** 20, blockSize: 16, parallelism: 1 },
+      ],
+      [
+        'scrypt with a cost that is not a power of two',
+        { algorithm: 'scrypt', cost: 1000, blockSize: 8, parallelism: 1 },
+      ],
+      [
+        'Argon2id above the memory limit',
+        { algorithm: 'Argon2id', memory: 2 * 1024 ** 2, iterations: 3, parallelism: 1 },
+      ],
+    ] as Array<[string, KdfParams]>)('rejects %s', (_, kdf) => {
+      expect(() => new EncryptionService(kdf)).toThrow(
+        expect.objectContaining({ code: 'INVALID_KDF_PARAMS' })
+      );
+    });
+
+    it('accepts scrypt at exactly the memory limit', () => {
+      expect(
+        () =>
+          new EncryptionService({
+            algorithm: 'scrypt',
+            cost: 2 ** 20,
+            blockSize: 8,
+            parallelism: 1,
+          })
+      ).not.toThrow();
+    });
+
+    it('round-trips with Argon2id and rejects a header asking for too much memory', async () => {
+      const argon2 = new EncryptionService({
+        algorithm: 'Argon2id',
+        memory: 1024,
+        iterations: 1,
+        parallelism: 1,
+      });
+      const container = argon2.combineEncryptedParts(await argon2.encryptFile(data, PASSWORD));
+
+      expect(
+        await encryption.decryptFile(encryption.splitEncryptedParts(container), PASSWORD)
+      ).toEqual(data);
+      expect(() =>
+        encryption.splitEncryptedParts(patchHeader(container, '"memory":1024', '"memory":2e10'))
+      ).toThrow(expect.objectContaining({ code: 'INVALID_KDF_PARAMS' }));
+    });
+
+    it('rejects a header with an unknown algorithm', async () => {
+      const container = encryption.combineEncryptedParts(
+        await encryption.encryptFile(data, PASSWORD)
+      );
+      expect(() =>
+        encryption.splitEncryptedParts(patchHeader(container, 'PBKDF2-SHA256', 'PBKDF2-SHA512'))
+      ).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_KDF' }));
+    });
+  });
+
+  describe('chunked streams', () => {
+    const chunkSize = 16;
+    const segmentSize = chunkSize + 16;
+    const plaintext = new Uint8Array(40).map((_, i) => i);
+
+    async function encryptChunked(): Promise<{ prefix: Uint8Array; segments: Uint8Array[] }> {
+      const container = await readAll(
+        streamOf(plaintext).pipeThrough(
+          encryption.createEncryptionStream(PASSWORD, { name: 'data.bin' }, { chunkSize })
+        )
+      );
+      const prefixLength = encryption.chunkedPrefixLength(container)!;
+      const segments: Uint8Array[] = [];
+      for (let offset = prefixLength; offset < container.length; offset += segmentSize) {
+        segments.push(container.subarray(offset, offset + segmentSize));
+      }
+      return { prefix: container.subarray(0, prefixLength), segments };
+    }
+
+    async function decrypt(container: Uint8Array): Promise<Uint8Array> {
+      return await readAll(
+        streamOf(container).pipeThrough(encryption.createDecryptionStream(PASSWORD))
+      );
+    }
+
+    it('round-trips through the streams and decryptFile', async () => {
+      const { prefix, segments } = await encryptChunked();
+      expect(segments).toHaveLength(3);
+      const container = concatBytes(prefix, ...segments);
+
+      expect(await decrypt(container)).toEqual(plaintext);
+      expect(
+        await encryption.decryptFile(encryption.splitEncryptedParts(container), PASSWORD)
+      ).toEqual(plaintext);
+    });
+
+    it('rejects reordered chunks', async () => {
+      const { prefix, segments } = await encryptChunked();
+      await expect(
+        decrypt(concatBytes(prefix, segments[1], segments[0], segments[2]))
+      ).rejects.toThrow();
+    });
+
+    it('rejects a container truncated at a chunk boundary', async () => {
+      const { prefix, segments } = await encryptChunked();
+      await expect(decrypt(concatBytes(prefix, segments[0], segments[1]))).rejects.toThrow();
+    });
+
+    it('rejects a container truncated inside a chunk', async () => {
+      const { prefix, segments } = await encryptChunked();
+      await expect(
+        decrypt(concatBytes(prefix, segments[0], segments[1], segments[2].subarray(0, 10)))
+      ).rejects.toThrow();
+    });
+  });
+});
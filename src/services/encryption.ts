@@ -1,9 +1,32 @@
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import nacl from 'tweetnacl';
 import { EncryptionError } from '../errors';
-import type { EncryptedFile, DecryptedFile, FileMetadata } from '../types';
+import { getCrypto } from '../utils/crypto';
+import { bytesEqual, concatBytes, fromBase64, toBase64 } from '../utils/encoding';
+import { describeInput, readInput } from '../utils/input';
+import type { InputInfo } from '../utils/input';
+import { ed25519PublicKeyToX25519, ed25519SecretKeyToX25519 } from '../utils/x25519';
+import type {
+  ChunkedDecryption,
+  ChunkedEncryption,
+  EncryptedFile,
+  DecryptedFile,
+  DecryptionStream,
+  EncryptionHeader,
+  EncryptionStreamOptions,
+  EncryptionKeyPair,
+  FileInput,
+  FileMetadata,
+  KdfParams,
+  WalletAdapter,
+} from '../types';
 
 /**
  * Encryption Service
- * Implements AES-256-GCM encryption with PBKDF2 key derivation
+ * Implements AES-256-GCM envelope encryption: content is encrypted under a
+ * random data key, which is wrapped under a password-derived key (PBKDF2,
+ * scrypt or Argon2id) and, per recipient, with tweetnacl box
  * Based on the existing implementation in lib/crypto/encryption.ts
  */
 export class EncryptionService {
@@ -14,40 +37,99 @@ export class EncryptionService {
   private static readonly PBKDF2_ITERATIONS = 100000;
   private static readonly TAG_LENGTH = 128;
 
+  /** Current container format version */
+  static readonly FORMAT_VERSION = 1;
+  /** Default plaintext chunk size for streaming encryption */
+  static readonly DEFAULT_CHUNK_SIZE = 1024 * 1024;
+  /** Largest plaintext chunk size, in bytes */
+  static readonly MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+  /** Container magic bytes ("ZKFC") */
+  private static readonly MAGIC = new Uint8Array([0x5a, 0x4b, 0x46, 0x43]);
+  /** Magic (4 bytes) + version (1 byte) + header length (2 bytes) */
+  static readonly PREFIX_LENGTH = 7;
+  /** Raw AES-256 data key length */
+  private static readonly DATA_KEY_LENGTH = 32;
+  /** Message signed by a wallet to derive its registered encryption key */
+  static readonly ENCRYPTION_KEY_MESSAGE = 'ZKFile encryption key v1';
+  /** Most memory a file's KDF parameters may ask for, in bytes */
+  private static readonly MAX_KDF_MEMORY = 1024 ** 3;
+
+  private kdf: KdfParams;
+
+  /**
+   * Passwords of new files are derived with `kdf`; files already written keep
+   * the parameters stored in their header
+   */
+  constructor(kdf: KdfParams = EncryptionService.defaultKdf()) {
+    if (!EncryptionService.isValidKdf(kdf)) {
+      throw new EncryptionError('Invalid key derivation parameters', 'INVALID_KDF_PARAMS');
+    }
+    this.kdf = kdf;
+  }
+
   /**
    * Encrypt a file with AES-256-GCM
+   * Content and metadata are encrypted under `dataKey` (a fresh key from
+   * generateKey by default), and the data key is wrapped under the password
    */
   async encryptFile(
-    file: File | Blob,
+    file: FileInput,
     password: string,
-    metadata?: Partial<FileMetadata>
+    metadata?: Partial<FileMetadata>,
+    dataKey?: CryptoKey
   ): Promise<EncryptedFile> {
     try {
+      const webCrypto = await getCrypto();
+
       // Generate random IV and salt
-      const iv = crypto.getRandomValues(new Uint8Array(EncryptionService.IV_LENGTH));
-      const salt = crypto.getRandomValues(new Uint8Array(EncryptionService.SALT_LENGTH));
+      const iv = webCrypto.getRandomValues(new Uint8Array(EncryptionService.IV_LENGTH));
+      const salt = webCrypto.getRandomValues(new Uint8Array(EncryptionService.SALT_LENGTH));
+
+      const metadataBytes = new TextEncoder().encode(
+        JSON.stringify(this.buildMetadata(await describeInput(file), metadata))
+      );
+
+      // Wrap the data key under a key derived from the password
+      const key = dataKey ?? (await this.generateKey());
+      const wrappedKey = await this.wrapKeyWithPassword(key, password, salt, this.kdf);
 
-      // Derive key from password using PBKDF2
-      const key = await this.deriveKey(password, salt);
+      const header = this.createHeader(metadataBytes.length, 0, wrappedKey);
+      const additionalData = this.encodeHeader(header, iv, salt);
 
       // Read file data
-      const fileData = await this.fileToArrayBuffer(file);
+      const fileData = await readInput(file);
 
-      // Encrypt the data
-      const encryptedData = await crypto.subtle.encrypt(
+      // Encrypt the data, authenticating the serialized header
+      const encryptedData = await webCrypto.subtle.encrypt(
         {
           name: EncryptionService.ALGORITHM,
           iv,
           tagLength: EncryptionService.TAG_LENGTH,
+          additionalData: additionalData as BufferSource,
         },
         key,
-        fileData
+        fileData as BufferSource
+      );
+
+      // Encrypt the metadata with its own IV
+      const metadataIv = webCrypto.getRandomValues(new Uint8Array(EncryptionService.IV_LENGTH));
+      const encryptedMetadata = await webCrypto.subtle.encrypt(
+        {
+          name: EncryptionService.ALGORITHM,
+          iv: metadataIv,
+          tagLength: EncryptionService.TAG_LENGTH,
+          additionalData: additionalData as BufferSource,
+        },
+        key,
+        metadataBytes
       );
 
       return {
         iv,
         salt,
         ciphertext: new Uint8Array(encryptedData),
+        header,
+        encryptedMetadata: concatBytes(metadataIv, new Uint8Array(encryptedMetadata)),
       };
     } catch (error) {
       throw new EncryptionError(
@@ -59,42 +141,842 @@ export class EncryptionService {
 
   /**
    * Decrypt a file with AES-256-GCM
+   * @param secret - Password, or the file's data key
    */
   async decryptFile(
     encryptedFile: EncryptedFile,
-    password: string
+    secret: string | CryptoKey
   ): Promise<Uint8Array> {
+    const { data } = await this.decryptFileWithMetadata(encryptedFile, secret);
+    return data;
+  }
+
+  /**
+   * Decrypt a file and its metadata with AES-256-GCM
+   * Legacy blobs carry no metadata, so a generic name and type are returned
+   * @param secret - Password, or the file's data key
+   */
+  async decryptFileWithMetadata(
+    encryptedFile: EncryptedFile,
+    secret: string | CryptoKey
+  ): Promise<DecryptedFile> {
     try {
-      // Derive key from password using the same salt
-      const key = await this.deriveKey(password, encryptedFile.salt);
+      const key = await this.resolveContentKey(
+        secret,
+        encryptedFile.salt,
+        encryptedFile.header
+      );
+
+      const additionalData = encryptedFile.header
+        ? this.encodeHeader(encryptedFile.header, encryptedFile.iv, encryptedFile.salt)
+        : undefined;
 
       // Decrypt the data
-      const decryptedData = await crypto.subtle.decrypt(
+      const chunkSize = encryptedFile.header?.chunkSize ?? 0;
+      const data =
+        chunkSize > 0
+          ? await this.decryptChunks(
+              key,
+              encryptedFile.iv,
+              encryptedFile.ciphertext,
+              chunkSize,
+              additionalData as Uint8Array
+            )
+          : await this.decryptSegment(
+              key,
+              encryptedFile.iv,
+              encryptedFile.ciphertext,
+              additionalData
+            );
+
+      if (!encryptedFile.encryptedMetadata) {
+        return {
+          data,
+          metadata: {
+            name: 'decrypted-file',
+            type: 'application/octet-stream',
+            size: data.length,
+          },
+        };
+      }
+
+      // Decrypt the metadata
+      const metadataBytes = await this.decryptSegment(
+        key,
+        encryptedFile.encryptedMetadata.subarray(0, EncryptionService.IV_LENGTH),
+        encryptedFile.encryptedMetadata.subarray(EncryptionService.IV_LENGTH),
+        additionalData
+      );
+
+      return {
+        data,
+        metadata: JSON.parse(new TextDecoder().decode(metadataBytes)) as FileMetadata,
+      };
+    } catch (error) {
+      throw new EncryptionError(
+        `Failed to decrypt file: ${error instanceof Error ? error.message : 'Invalid password or corrupted data'}`,
+        'DECRYPTION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Decrypt a single AES-GCM segment
+   */
+  private async decryptSegment(
+    key: CryptoKey,
+    iv: Uint8Array,
+    ciphertext: Uint8Array,
+    additionalData?: Uint8Array
+  ): Promise<Uint8Array> {
+    const params: AesGcmParams = {
+      name: EncryptionService.ALGORITHM,
+      iv: iv as BufferSource,
+      tagLength: EncryptionService.TAG_LENGTH,
+    };
+    if (additionalData) {
+      params.additionalData = additionalData as BufferSource;
+    }
+
+    const webCrypto = await getCrypto();
+    const decrypted = await webCrypto.subtle.decrypt(params, key, ciphertext as BufferSource);
+    return new Uint8Array(decrypted);
+  }
+
+  /**
+   * Decrypt a chunked payload held in memory
+   */
+  private async decryptChunks(
+    key: CryptoKey,
+    iv: Uint8Array,
+    ciphertext: Uint8Array,
+    chunkSize: number,
+    additionalData: Uint8Array
+  ): Promise<Uint8Array> {
+    const segmentSize = chunkSize + EncryptionService.TAG_LENGTH / 8;
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    let index = 0;
+
+    while (ciphertext.length - offset > segmentSize) {
+      chunks.push(
+        await this.decryptChunk(
+          key,
+          iv,
+          index++,
+          false,
+          ciphertext.subarray(offset, offset + segmentSize),
+          additionalData
+        )
+      );
+      offset += segmentSize;
+    }
+    chunks.push(
+      await this.decryptChunk(key, iv, index, true, ciphertext.subarray(offset), additionalData)
+    );
+
+    return concatBytes(...chunks);
+  }
+
+  /**
+   * Create a TransformStream that encrypts plaintext into a chunked container
+   * Each chunk is sealed with a nonce derived from its index and a final-chunk
+   * flag, so reordered, dropped or truncated chunks fail authentication.
+   * Metadata size is taken from `metadata.size` (0 if unknown).
+   */
+  createEncryptionStream(
+    password: string,
+    metadata?: Partial<FileMetadata>,
+    options: EncryptionStreamOptions = {}
+  ): TransformStream<Uint8Array, Uint8Array> {
+    const chunkSize = options.chunkSize ?? EncryptionService.DEFAULT_CHUNK_SIZE;
+    if (
+      !Number.isInteger(chunkSize) ||
+      chunkSize <= 0 ||
+      chunkSize > EncryptionService.MAX_CHUNK_SIZE
+    ) {
+      throw new EncryptionError(
+        `Chunk size must be a positive integer of at most ${EncryptionService.MAX_CHUNK_SIZE} bytes`,
+        'INVALID_CHUNK_SIZE'
+      );
+    }
+
+    let session: ChunkedEncryption;
+    let pending: Uint8Array = new Uint8Array(0);
+    let index = 0;
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+      start: async (controller) => {
+        session = await this.beginChunkedEncryption(password, metadata, { ...options, chunkSize });
+        controller.enqueue(session.prefix);
+      },
+      transform: async (chunk, controller) => {
+        pending = concatBytes(pending, chunk);
+        // Hold back at least one byte so the final chunk is always known at flush
+        while (pending.length > chunkSize) {
+          const chunkData = pending.subarray(0, chunkSize);
+          controller.enqueue(await session.encryptChunk(index++, chunkData, false));
+          pending = pending.slice(chunkSize);
+        }
+      },
+      flush: async (controller) => {
+        controller.enqueue(await session.encryptChunk(index, pending, true));
+      },
+    });
+  }
+
+  /**
+   * Start a chunked container whose chunks can be encrypted in any order
+   * The prefix (header and encrypted metadata) holds no secrets, so it can be
+   * persisted to resume the container later with resumeChunkedEncryption.
+   */
+  async beginChunkedEncryption(
+    password: string,
+    metadata?: Partial<FileMetadata>,
+    options: EncryptionStreamOptions = {}
+  ): Promise<ChunkedEncryption> {
+    const chunkSize = options.chunkSize ?? EncryptionService.DEFAULT_CHUNK_SIZE;
+    if (
+      !Number.isInteger(chunkSize) ||
+      chunkSize <= 0 ||
+      chunkSize > EncryptionService.MAX_CHUNK_SIZE
+    ) {
+      throw new EncryptionError(
+        `Chunk size must be a positive integer of at most ${EncryptionService.MAX_CHUNK_SIZE} bytes`,
+        'INVALID_CHUNK_SIZE'
+      );
+    }
+
+    try {
+      const webCrypto = await getCrypto();
+      const iv = webCrypto.getRandomValues(new Uint8Array(EncryptionService.IV_LENGTH));
+      const salt = webCrypto.getRandomValues(new Uint8Array(EncryptionService.SALT_LENGTH));
+
+      const fileMetadata = this.buildMetadata({}, metadata);
+      const metadataBytes = new TextEncoder().encode(JSON.stringify(fileMetadata));
+
+      const key = options.dataKey ?? (await this.generateKey());
+      const wrappedKey = await this.wrapKeyWithPassword(key, password, salt, this.kdf);
+
+      const header = this.createHeader(metadataBytes.length, chunkSize, wrappedKey);
+      const additionalData = this.encodeHeader(header, iv, salt);
+
+      const metadataIv = webCrypto.getRandomValues(new Uint8Array(EncryptionService.IV_LENGTH));
+      const encryptedMetadata = await webCrypto.subtle.encrypt(
         {
           name: EncryptionService.ALGORITHM,
-          iv: encryptedFile.iv,
+          iv: metadataIv,
           tagLength: EncryptionService.TAG_LENGTH,
+          additionalData: additionalData as BufferSource,
         },
         key,
-        encryptedFile.ciphertext
+        metadataBytes
       );
 
-      return new Uint8Array(decryptedData);
+      const prefix = concatBytes(additionalData, metadataIv, new Uint8Array(encryptedMetadata));
+      return this.chunkedEncryption(prefix, key, iv, chunkSize, additionalData, fileMetadata);
     } catch (error) {
+      throw this.toEncryptionError(error, 'Failed to encrypt stream', 'ENCRYPTION_FAILED');
+    }
+  }
+
+  /**
+   * Resume a chunked container from its persisted prefix
+   * Chunks encrypted after resuming are identical to those of the original session.
+   */
+  async resumeChunkedEncryption(prefix: Uint8Array, password: string): Promise<ChunkedEncryption> {
+    const container = await this.openChunkedContainer(prefix, password);
+    return this.chunkedEncryption(
+      prefix.slice(0, container.prefixLength),
+      container.key,
+      container.iv,
+      container.chunkSize,
+      container.additionalData,
+      container.metadata
+    );
+  }
+
+  /**
+   * Open a chunked container for random-access decryption from its prefix
+   * Pass at least the header and encrypted metadata (see chunkedPrefixLength).
+   * @param secret - Password, or the file's data key
+   */
+  async openChunkedDecryption(
+    prefix: Uint8Array,
+    secret: string | CryptoKey
+  ): Promise<ChunkedDecryption> {
+    const { key, iv, chunkSize, prefixLength, additionalData, metadata } =
+      await this.openChunkedContainer(prefix, secret);
+
+    return {
+      prefixLength,
+      chunkSize,
+      segmentSize: chunkSize + EncryptionService.TAG_LENGTH / 8,
+      metadata,
+      decryptChunk: (index, ciphertext, final) =>
+        this.decryptChunk(key, iv, index, final, ciphertext, additionalData),
+    };
+  }
+
+  /**
+   * Get the length of a chunked container's prefix from its leading bytes
+   * Returns null when more bytes are needed; throws if the data is not chunked
+   */
+  chunkedPrefixLength(data: Uint8Array): number | null {
+    if (data.length < EncryptionService.PREFIX_LENGTH) {
+      return null;
+    }
+    if (!this.isContainer(data)) {
+      throw new EncryptionError('Data is not a chunked container', 'NOT_CHUNKED');
+    }
+
+    const parsed = this.parseHeader(data);
+    if (!parsed) {
+      return null;
+    }
+    if (parsed.header.chunkSize === 0) {
+      throw new EncryptionError('Data is not a chunked container', 'NOT_CHUNKED');
+    }
+    return parsed.headerEnd + (parsed.header.metadataLength ?? 0);
+  }
+
+  /**
+   * Parse a complete chunked container prefix, resolve its key and decrypt its metadata
+   */
+  private async openChunkedContainer(
+    prefix: Uint8Array,
+    secret: string | CryptoKey
+  ): Promise<{
+    key: CryptoKey;
+    iv: Uint8Array;
+    chunkSize: number;
+    prefixLength: number;
+    additionalData: Uint8Array;
+    metadata: FileMetadata;
+  }> {
+    const prefixLength = this.chunkedPrefixLength(prefix);
+    const parsed =
+      prefixLength !== null && prefix.length >= prefixLength ? this.parseHeader(prefix) : null;
+    if (!parsed || prefixLength === null) {
       throw new EncryptionError(
-        `Failed to decrypt file: ${error instanceof Error ? error.message : 'Invalid password or corrupted data'}`,
-        'DECRYPTION_FAILED'
+        'Invalid encrypted data: truncated header',
+        'INVALID_ENCRYPTED_DATA'
       );
     }
+
+    const { header, iv, salt, headerEnd } = parsed;
+    const additionalData = prefix.slice(0, headerEnd);
+    const key = await this.resolveContentKey(secret, salt, header);
+
+    let metadata: FileMetadata = {
+      name: 'decrypted-file',
+      type: 'application/octet-stream',
+      size: 0,
+    };
+    if (prefixLength > headerEnd) {
+      try {
+        const metadataBytes = await this.decryptSegment(
+          key,
+          prefix.subarray(headerEnd, headerEnd + EncryptionService.IV_LENGTH),
+          prefix.subarray(headerEnd + EncryptionService.IV_LENGTH, prefixLength),
+          additionalData
+        );
+        metadata = JSON.parse(new TextDecoder().decode(metadataBytes));
+      } catch (error) {
+        throw this.toEncryptionError(error, 'Failed to decrypt metadata', 'DECRYPTION_FAILED');
+      }
+    }
+
+    return { key, iv, chunkSize: header.chunkSize, prefixLength, additionalData, metadata };
+  }
+
+  /**
+   * Bind chunk encryption to a container's key and header
+   */
+  private chunkedEncryption(
+    prefix: Uint8Array,
+    key: CryptoKey,
+    iv: Uint8Array,
+    chunkSize: number,
+    additionalData: Uint8Array,
+    metadata: FileMetadata
+  ): ChunkedEncryption {
+    return {
+      prefix,
+      chunkSize,
+      metadata,
+      segmentSize: chunkSize + EncryptionService.TAG_LENGTH / 8,
+      encryptChunk: async (index, plaintext, final) => {
+        try {
+          return await this.encryptChunk(key, iv, index, final, plaintext, additionalData);
+        } catch (error) {
+          throw this.toEncryptionError(error, 'Failed to encrypt chunk', 'ENCRYPTION_FAILED');
+        }
+      },
+    };
   }
 
   /**
-   * Derive encryption key from password using PBKDF2
+   * Create a TransformStream that decrypts a container
+   * Chunked containers are decrypted incrementally; single-segment and legacy
+   * blobs are buffered and decrypted once the input ends. The stream's
+   * `metadata` promise resolves as soon as the metadata has been decrypted.
+   * @param secret - Password, or the file's data key
    */
-  private async deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+  createDecryptionStream(secret: string | CryptoKey): DecryptionStream {
+    let buffer: Uint8Array = new Uint8Array(0);
+    let parsed: { header: EncryptionHeader; iv: Uint8Array; additionalData: Uint8Array } | null =
+      null;
+    let key: CryptoKey;
+    let buffered = false;
+    let index = 0;
+
+    let resolveMetadata!: (metadata: FileMetadata) => void;
+    let rejectMetadata!: (error: unknown) => void;
+    const metadata = new Promise<FileMetadata>((resolve, reject) => {
+      resolveMetadata = resolve;
+      rejectMetadata = reject;
+    });
+    // Callers that never await the metadata should not see an unhandled rejection
+    metadata.catch(() => undefined);
+
+    const step = async (
+      controller: TransformStreamDefaultController<Uint8Array>,
+      final: boolean
+    ): Promise<void> => {
+      if (!parsed && !buffered) {
+        if (buffer.length < EncryptionService.PREFIX_LENGTH && !final) {
+          return;
+        }
+
+        const header = this.isContainer(buffer) ? this.parseHeader(buffer) : null;
+        if (!header) {
+          if (!this.isContainer(buffer) || final) {
+            // Legacy or single-segment data cannot be decrypted incrementally
+            buffered = true;
+          }
+          if (!final) {
+            return;
+          }
+        } else {
+          const metadataLength = header.header.metadataLength ?? 0;
+          if (header.header.chunkSize === 0) {
+            buffered = true;
+          } else if (buffer.length < header.headerEnd + metadataLength) {
+            if (final) {
+              throw new EncryptionError(
+                'Invalid encrypted data: truncated metadata',
+                'INVALID_ENCRYPTED_DATA'
+              );
+            }
+            return;
+          } else {
+            const additionalData = buffer.slice(0, header.headerEnd);
+            key = await this.resolveContentKey(secret, header.salt, header.header);
+
+            if (metadataLength > 0) {
+              const encryptedMetadata = buffer.subarray(
+                header.headerEnd,
+                header.headerEnd + metadataLength
+              );
+              const metadataBytes = await this.decryptSegment(
+                key,
+                encryptedMetadata.subarray(0, EncryptionService.IV_LENGTH),
+                encryptedMetadata.subarray(EncryptionService.IV_LENGTH),
+                additionalData
+              );
+              resolveMetadata(JSON.parse(new TextDecoder().decode(metadataBytes)));
+            } else {
+              resolveMetadata({
+                name: 'decrypted-file',
+                type: 'application/octet-stream',
+                size: 0,
+              });
+            }
+
+            parsed = { header: header.header, iv: header.iv, additionalData };
+            buffer = buffer.slice(header.headerEnd + metadataLength);
+          }
+        }
+      }
+
+      if (buffered) {
+        if (final) {
+          const decrypted = await this.decryptFileWithMetadata(
+            this.splitEncryptedParts(buffer),
+            secret
+          );
+          resolveMetadata(decrypted.metadata);
+          controller.enqueue(decrypted.data);
+        }
+        return;
+      }
+
+      if (!parsed) {
+        return;
+      }
+
+      const segmentSize = parsed.header.chunkSize + EncryptionService.TAG_LENGTH / 8;
+      let offset = 0;
+      while (buffer.length - offset > segmentSize) {
+        controller.enqueue(
+          await this.decryptChunk(
+            key,
+            parsed.iv,
+            index++,
+            false,
+            buffer.subarray(offset, offset + segmentSize),
+            parsed.additionalData
+          )
+        );
+        offset += segmentSize;
+      }
+      buffer = buffer.slice(offset);
+
+      if (final) {
+        controller.enqueue(
+          await this.decryptChunk(key, parsed.iv, index, true, buffer, parsed.additionalData)
+        );
+      }
+    };
+
+    const handle = async (
+      controller: TransformStreamDefaultController<Uint8Array>,
+      final: boolean
+    ): Promise<void> => {
+      try {
+        await step(controller, final);
+      } catch (error) {
+        const wrapped = this.toEncryptionError(error, 'Failed to decrypt stream', 'DECRYPTION_FAILED');
+        rejectMetadata(wrapped);
+        throw wrapped;
+      }
+    };
+
+    // A readable high-water mark of 1 lets the header be consumed before the
+    // caller starts reading, so `metadata` can resolve on its own
+    const stream = new TransformStream<Uint8Array, Uint8Array>(
+      {
+        transform: async (chunk, controller) => {
+          buffer = concatBytes(buffer, chunk);
+          await handle(controller, false);
+        },
+        flush: async (controller) => {
+          await handle(controller, true);
+        },
+      },
+      undefined,
+      { highWaterMark: 1 }
+    );
+
+    return Object.assign(stream, { metadata });
+  }
+
+  /**
+   * Encrypt one chunk of a chunked container
+   */
+  private async encryptChunk(
+    key: CryptoKey,
+    iv: Uint8Array,
+    index: number,
+    final: boolean,
+    plaintext: Uint8Array,
+    additionalData: Uint8Array
+  ): Promise<Uint8Array> {
+    const webCrypto = await getCrypto();
+    const encrypted = await webCrypto.subtle.encrypt(
+      {
+        name: EncryptionService.ALGORITHM,
+        iv: this.chunkNonce(iv, index, final) as BufferSource,
+        tagLength: EncryptionService.TAG_LENGTH,
+        additionalData: additionalData as BufferSource,
+      },
+      key,
+      plaintext as BufferSource
+    );
+    return new Uint8Array(encrypted);
+  }
+
+  /**
+   * Decrypt one chunk of a chunked container
+   */
+  private async decryptChunk(
+    key: CryptoKey,
+    iv: Uint8Array,
+    index: number,
+    final: boolean,
+    ciphertext: Uint8Array,
+    additionalData: Uint8Array
+  ): Promise<Uint8Array> {
     try {
+      return await this.decryptSegment(
+        key,
+        this.chunkNonce(iv, index, final),
+        ciphertext,
+        additionalData
+      );
+    } catch {
+      throw new EncryptionError(
+        `Chunk ${index} failed authentication (tampered, reordered or truncated data)`,
+        'CHUNK_AUTHENTICATION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Derive a chunk nonce: the base IV with the chunk index XORed into bytes
+   * 7-10 (big-endian) and the final-chunk flag XORed into byte 11
+   */
+  private chunkNonce(iv: Uint8Array, index: number, final: boolean): Uint8Array {
+    if (index > 0xffffffff) {
+      throw new EncryptionError('Too many chunks', 'CHUNK_LIMIT_EXCEEDED');
+    }
+
+    const nonce = iv.slice();
+    nonce[7] ^= (index >>> 24) & 0xff;
+    nonce[8] ^= (index >>> 16) & 0xff;
+    nonce[9] ^= (index >>> 8) & 0xff;
+    nonce[10] ^= index & 0xff;
+    if (final) {
+      nonce[11] ^= 1;
+    }
+    return nonce;
+  }
+
+  /**
+   * Wrap an unknown error as an EncryptionError, keeping existing ones
+   */
+  private toEncryptionError(error: unknown, message: string, code: string): EncryptionError {
+    if (error instanceof EncryptionError) {
+      return error;
+    }
+    return new EncryptionError(
+      `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      code
+    );
+  }
+
+  /**
+   * Build complete file metadata from the file and caller overrides
+   */
+  private buildMetadata(info: InputInfo, metadata?: Partial<FileMetadata>): FileMetadata {
+    return {
+      name: metadata?.name ?? info.name ?? 'encrypted-file',
+      type: metadata?.type ?? info.type ?? 'application/octet-stream',
+      size: info.size ?? metadata?.size ?? 0,
+      description: metadata?.description,
+      tags: metadata?.tags,
+      createdAt: metadata?.createdAt ?? Date.now(),
+    };
+  }
+
+  /**
+   * Unwrap a file's data key with the owner's password
+   * Accepts a full EncryptedFile or a header-only one from readHeader
+   */
+  async unwrapDataKey(encryptedFile: EncryptedFile, password: string): Promise<CryptoKey> {
+    if (!encryptedFile.header?.wrappedKey) {
+      throw new EncryptionError(
+        'File was not encrypted with a wrapped data key',
+        'NO_WRAPPED_KEY'
+      );
+    }
+    return await this.resolveContentKey(password, encryptedFile.salt, encryptedFile.header);
+  }
+
+  /**
+   * Wrap a data key for a recipient's X25519 public key with tweetnacl box
+   * An ephemeral sender key pair is used, so no sender secret is needed.
+   * Format: [Ephemeral public key (32)][Nonce (24)][Box (48)]
+   */
+  async wrapKeyForRecipient(
+    dataKey: CryptoKey,
+    recipientPublicKey: Uint8Array
+  ): Promise<Uint8Array> {
+    try {
+      const ephemeral = nacl.box.keyPair();
+      const nonce = nacl.randomBytes(nacl.box.nonceLength);
+      const rawKey = await this.exportKey(dataKey);
+      const boxed = nacl.box(rawKey, nonce, recipientPublicKey, ephemeral.secretKey);
+      rawKey.fill(0);
+
+      return concatBytes(ephemeral.publicKey, nonce, boxed);
+    } catch (error) {
+      throw new EncryptionError(
+        `Failed to wrap key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'KEY_WRAP_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Unwrap a data key wrapped by wrapKeyForRecipient
+   * @param secretKey - Recipient's X25519 secret key
+   */
+  async unwrapKeyForRecipient(wrappedKey: Uint8Array, secretKey: Uint8Array): Promise<CryptoKey> {
+    const publicKeyLength = nacl.box.publicKeyLength;
+    const nonceEnd = publicKeyLength + nacl.box.nonceLength;
+    const rawKey = nacl.box.open(
+      wrappedKey.subarray(nonceEnd),
+      wrappedKey.subarray(publicKeyLength, nonceEnd),
+      wrappedKey.subarray(0, publicKeyLength),
+      secretKey
+    );
+
+    if (!rawKey || rawKey.length !== EncryptionService.DATA_KEY_LENGTH) {
+      throw new EncryptionError(
+        'Failed to unwrap key: not wrapped for this encryption key',
+        'KEY_UNWRAP_FAILED'
+      );
+    }
+
+    const key = await this.importKey(rawKey);
+    rawKey.fill(0);
+    return key;
+  }
+
+  /**
+   * Derive a wallet's registered encryption key pair from a signature over
+   * ENCRYPTION_KEY_MESSAGE (ed25519 signatures are deterministic)
+   */
+  async deriveEncryptionKeyPair(wallet: WalletAdapter): Promise<EncryptionKeyPair> {
+    if (!wallet.signMessage) {
+      throw new EncryptionError(
+        'Wallet does not support message signing',
+        'SIGN_MESSAGE_NOT_SUPPORTED'
+      );
+    }
+
+    const signature = await wallet.signMessage(
+      new TextEncoder().encode(EncryptionService.ENCRYPTION_KEY_MESSAGE)
+    );
+    const keyPair = nacl.box.keyPair.fromSecretKey(nacl.hash(signature).slice(0, 32));
+    return { publicKey: keyPair.publicKey, secretKey: keyPair.secretKey };
+  }
+
+  /**
+   * Get the X25519 encryption key pair for an ed25519 keypair secret key
+   * (e.g. `Keypair.secretKey` on servers)
+   */
+  encryptionKeyPairFromEd25519(secretKey: Uint8Array): EncryptionKeyPair {
+    const keyPair = nacl.box.keyPair.fromSecretKey(ed25519SecretKeyToX25519(secretKey));
+    return { publicKey: keyPair.publicKey, secretKey: keyPair.secretKey };
+  }
+
+  /**
+   * Get the X25519 encryption public key for an ed25519 wallet public key
+   */
+  encryptionPublicKeyFromEd25519(publicKey: Uint8Array): Uint8Array {
+    return ed25519PublicKeyToX25519(publicKey);
+  }
+
+  /**
+   * Wrap a data key under a key derived from a password
+   * Format: [IV (12 bytes)][Ciphertext]
+   */
+  private async wrapKeyWithPassword(
+    dataKey: CryptoKey,
+    password: string,
+    salt: Uint8Array,
+    kdf: KdfParams
+  ): Promise<Uint8Array> {
+    const webCrypto = await getCrypto();
+    const passwordKey = await this.deriveKey(password, salt, kdf);
+    const iv = webCrypto.getRandomValues(new Uint8Array(EncryptionService.IV_LENGTH));
+    const rawKey = await this.exportKey(dataKey);
+
+    const wrapped = await webCrypto.subtle.encrypt(
+      { name: EncryptionService.ALGORITHM, iv, tagLength: EncryptionService.TAG_LENGTH },
+      passwordKey,
+      rawKey as BufferSource
+    );
+    rawKey.fill(0);
+
+    return concatBytes(iv, new Uint8Array(wrapped));
+  }
+
+  /**
+   * Resolve the key that encrypts a file's content
+   * A password unwraps the header's data key, or is the content key itself for
+   * files written before envelope encryption; a CryptoKey is used as-is
+   */
+  private async resolveContentKey(
+    secret: string | CryptoKey,
+    salt: Uint8Array,
+    header?: EncryptionHeader
+  ): Promise<CryptoKey> {
+    if (typeof secret !== 'string') {
+      return secret;
+    }
+
+    const passwordKey = await this.deriveKey(secret, salt, header?.kdf);
+    if (!header?.wrappedKey) {
+      return passwordKey;
+    }
+
+    let rawKey: Uint8Array;
+    try {
+      rawKey = await this.decryptSegment(
+        passwordKey,
+        header.wrappedKey.subarray(0, EncryptionService.IV_LENGTH),
+        header.wrappedKey.subarray(EncryptionService.IV_LENGTH)
+      );
+    } catch {
+      throw new EncryptionError('Failed to unwrap data key: invalid password', 'KEY_UNWRAP_FAILED');
+    }
+
+    const key = await this.importKey(rawKey);
+    rawKey.fill(0);
+    return key;
+  }
+
+  /**
+   * Derive encryption key from password with PBKDF2, scrypt or Argon2id
+   * Legacy blobs carry no KDF parameters and use the defaults
+   */
+  private async deriveKey(
+    password: string,
+    salt: Uint8Array,
+    kdf: KdfParams = EncryptionService.defaultKdf()
+  ): Promise<CryptoKey> {
+    try {
+      const webCrypto = await getCrypto();
+
+      // Memory-hard KDFs run in JavaScript and yield raw key bytes
+      if (kdf.algorithm !== 'PBKDF2-SHA256') {
+        const secret = new TextEncoder().encode(password);
+        const length = EncryptionService.KEY_LENGTH / 8;
+        const rawKey =
+          kdf.algorithm === 'scrypt'
+            ? await scryptAsync(secret, salt, {
+                N: kdf.cost,
+                r: kdf.blockSize,
+                p: kdf.parallelism,
+                dkLen: length,
+                maxmem: 2 * EncryptionService.MAX_KDF_MEMORY,
+              })
+            : await argon2idAsync(secret, salt, {
+                m: kdf.memory,
+                t: kdf.iterations,
+                p: kdf.parallelism,
+                dkLen: length,
+              });
+        secret.fill(0);
+        try {
+          return await webCrypto.subtle.importKey(
+            'raw',
+            rawKey as BufferSource,
+            { name: EncryptionService.ALGORITHM },
+            false,
+            ['encrypt', 'decrypt']
+          );
+        } finally {
+          rawKey.fill(0);
+        }
+      }
+
       // Import password as key material
-      const passwordKey = await crypto.subtle.importKey(
+      const passwordKey = await webCrypto.subtle.importKey(
         'raw',
         new TextEncoder().encode(password),
         'PBKDF2',
@@ -103,11 +985,11 @@ export class EncryptionService {
       );
 
       // Derive AES key
-      return await crypto.subtle.deriveKey(
+      return await webCrypto.subtle.deriveKey(
         {
           name: 'PBKDF2',
-          salt,
-          iterations: EncryptionService.PBKDF2_ITERATIONS,
+          salt: salt as BufferSource,
+          iterations: kdf.iterations,
           hash: 'SHA-256',
         },
         passwordKey,
@@ -126,44 +1008,37 @@ export class EncryptionService {
     }
   }
 
-  /**
-   * Convert File/Blob to ArrayBuffer
-   */
-  private fileToArrayBuffer(file: File | Blob): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as ArrayBuffer);
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsArrayBuffer(file);
-    });
-  }
-
   /**
    * Combine encrypted file parts into a single Uint8Array
-   * Format: [IV (12 bytes)][Salt (16 bytes)][Ciphertext]
+   * Format: [Magic "ZKFC"][Version (1 byte)][Header length (2 bytes)][Header JSON]
+   *         [Encrypted metadata][Ciphertext]
+   * Files without a header are written in the legacy [IV][Salt][Ciphertext] layout
    */
   combineEncryptedParts(encryptedFile: EncryptedFile): Uint8Array {
-    const combined = new Uint8Array(
-      encryptedFile.iv.length +
-      encryptedFile.salt.length +
-      encryptedFile.ciphertext.length
-    );
+    if (!encryptedFile.header) {
+      return concatBytes(encryptedFile.iv, encryptedFile.salt, encryptedFile.ciphertext);
+    }
 
-    combined.set(encryptedFile.iv, 0);
-    combined.set(encryptedFile.salt, encryptedFile.iv.length);
-    combined.set(
-      encryptedFile.ciphertext,
-      encryptedFile.iv.length + encryptedFile.salt.length
+    return concatBytes(
+      this.encodeHeader(encryptedFile.header, encryptedFile.iv, encryptedFile.salt),
+      encryptedFile.encryptedMetadata ?? new Uint8Array(0),
+      encryptedFile.ciphertext
     );
-
-    return combined;
   }
 
   /**
    * Split combined encrypted data into parts
-   * Format: [IV (12 bytes)][Salt (16 bytes)][Ciphertext]
+   * Detects the versioned container and falls back to the legacy
+   * [IV (12 bytes)][Salt (16 bytes)][Ciphertext] layout
    */
   splitEncryptedParts(combinedData: Uint8Array): EncryptedFile {
+    if (this.isContainer(combinedData)) {
+      const parsed = this.parseContainer(combinedData);
+      if (parsed) {
+        return parsed;
+      }
+    }
+
     if (combinedData.length < EncryptionService.IV_LENGTH + EncryptionService.SALT_LENGTH) {
       throw new EncryptionError(
         'Invalid encrypted data: too short',
@@ -183,11 +1058,332 @@ export class EncryptionService {
     return { iv, salt, ciphertext };
   }
 
+  /**
+   * Read just the header of a container from its leading bytes
+   * Returns a header-only EncryptedFile (empty ciphertext), or null when more
+   * bytes are needed or the data is not a versioned container
+   */
+  readHeader(data: Uint8Array): EncryptedFile | null {
+    if (!this.isContainer(data)) {
+      return null;
+    }
+
+    const parsed = this.parseHeader(data);
+    if (!parsed) {
+      return null;
+    }
+
+    return {
+      iv: parsed.iv,
+      salt: parsed.salt,
+      ciphertext: new Uint8Array(0),
+      header: parsed.header,
+    };
+  }
+
+  /**
+   * Check whether data starts with the versioned container magic
+   */
+  isContainer(data: Uint8Array): boolean {
+    return (
+      data.length >= EncryptionService.PREFIX_LENGTH &&
+      bytesEqual(data.subarray(0, EncryptionService.MAGIC.length), EncryptionService.MAGIC)
+    );
+  }
+
+  /**
+   * Build the header for a new container
+   */
+  private createHeader(
+    metadataPlaintextLength: number,
+    chunkSize: number,
+    wrappedKey: Uint8Array
+  ): EncryptionHeader {
+    return {
+      version: EncryptionService.FORMAT_VERSION,
+      cipher: 'AES-256-GCM',
+      kdf: this.kdf,
+      chunkSize,
+      metadataLength:
+        EncryptionService.IV_LENGTH +
+        metadataPlaintextLength +
+        EncryptionService.TAG_LENGTH / 8,
+      wrappedKey,
+    };
+  }
+
+  /**
+   * Serialize the container prefix and header
+   * The output is also used as AES-GCM additional data, so field order is fixed
+   */
+  private encodeHeader(header: EncryptionHeader, iv: Uint8Array, salt: Uint8Array): Uint8Array {
+    const json = new TextEncoder().encode(
+      JSON.stringify({
+        cipher: header.cipher,
+        kdf: EncryptionService.encodeKdf(header.kdf),
+        chunkSize: header.chunkSize,
+        metadataLength: header.metadataLength,
+        wrappedKey: header.wrappedKey ? toBase64(header.wrappedKey) : undefined,
+        iv: toBase64(iv),
+        salt: toBase64(salt),
+      })
+    );
+
+    if (json.length > 0xffff) {
+      throw new EncryptionError('Encrypted header too large', 'HEADER_TOO_LARGE');
+    }
+
+    const prefix = new Uint8Array(EncryptionService.PREFIX_LENGTH);
+    prefix.set(EncryptionService.MAGIC, 0);
+    prefix[4] = header.version;
+    new DataView(prefix.buffer).setUint16(5, json.length);
+
+    return concatBytes(prefix, json);
+  }
+
+  /**
+   * Parse a versioned container
+   * Returns null when the header is malformed, which happens when a legacy
+   * blob's random IV starts with the magic bytes; such blobs are then read as
+   * legacy data, whatever their version byte
+   */
+  private parseContainer(data: Uint8Array): EncryptedFile | null {
+    const parsed = this.parseHeader(data);
+    if (!parsed) {
+      return null;
+    }
+
+    const { header, iv, salt, headerEnd } = parsed;
+    const metadataLength = header.metadataLength ?? 0;
+    if (data.length < headerEnd + metadataLength) {
+      throw new EncryptionError(
+        'Invalid encrypted data: truncated metadata',
+        'INVALID_ENCRYPTED_DATA'
+      );
+    }
+
+    return {
+      iv,
+      salt,
+      ciphertext: data.slice(headerEnd + metadataLength),
+      header,
+      encryptedMetadata:
+        metadataLength > 0 ? data.slice(headerEnd, headerEnd + metadataLength) : undefined,
+    };
+  }
+
+  /**
+   * Parse the container prefix and header
+   * Returns null when the header is malformed or not yet complete. Nothing is
+   * rejected until the header is well-formed JSON with every required field, so
+   * a legacy blob whose IV starts with the magic bytes is not mistaken for a
+   * container; a later format with a header that is not JSON would be.
+   */
+  private parseHeader(
+    data: Uint8Array
+  ): { header: EncryptionHeader; iv: Uint8Array; salt: Uint8Array; headerEnd: number } | null {
+    const version = data[4];
+    const headerLength = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint16(5);
+    const headerEnd = EncryptionService.PREFIX_LENGTH + headerLength;
+    if (version === 0 || data.length < headerEnd) {
+      return null;
+    }
+
+    let raw: {
+      cipher?: unknown;
+      kdf?: Record<string, unknown>;
+      chunkSize?: unknown;
+      metadataLength?: unknown;
+      wrappedKey?: unknown;
+      iv?: unknown;
+      salt?: unknown;
+    };
+    try {
+      raw = JSON.parse(
+        new TextDecoder('utf-8', { fatal: true }).decode(
+          data.subarray(EncryptionService.PREFIX_LENGTH, headerEnd)
+        )
+      );
+    } catch {
+      return null;
+    }
+
+    if (
+      typeof raw !== 'object' ||
+      raw === null ||
+      typeof raw.cipher !== 'string' ||
+      typeof raw.kdf !== 'object' ||
+      raw.kdf === null ||
+      typeof raw.kdf.algorithm !== 'string' ||
+      typeof raw.chunkSize !== 'number' ||
+      (raw.metadataLength !== undefined && typeof raw.metadataLength !== 'number') ||
+      (raw.wrappedKey !== undefined && typeof raw.wrappedKey !== 'string') ||
+      typeof raw.iv !== 'string' ||
+      typeof raw.salt !== 'string'
+    ) {
+      return null;
+    }
+
+    if (version > EncryptionService.FORMAT_VERSION) {
+      throw new EncryptionError(
+        `Unsupported container format version: ${version}`,
+        'UNSUPPORTED_FORMAT_VERSION'
+      );
+    }
+    if (raw.cipher !== 'AES-256-GCM') {
+      throw new EncryptionError(`Unsupported cipher: ${raw.cipher}`, 'UNSUPPORTED_CIPHER');
+    }
+    if (
+      !Number.isSafeInteger(raw.chunkSize) ||
+      raw.chunkSize < 0 ||
+      raw.chunkSize > EncryptionService.MAX_CHUNK_SIZE
+    ) {
+      throw new EncryptionError(
+        `Invalid encrypted data: chunk size ${raw.chunkSize} out of range`,
+        'INVALID_ENCRYPTED_DATA'
+      );
+    }
+    if (
+      raw.metadataLength !== undefined &&
+      (!Number.isSafeInteger(raw.metadataLength) || (raw.metadataLength as number) < 0)
+    ) {
+      throw new EncryptionError(
+        `Invalid encrypted data: metadata length ${raw.metadataLength} out of range`,
+        'INVALID_ENCRYPTED_DATA'
+      );
+    }
+
+    const header: EncryptionHeader = {
+      version,
+      cipher: raw.cipher,
+      kdf: EncryptionService.parseKdf(raw.kdf),
+      chunkSize: raw.chunkSize,
+    };
+
+    if (raw.metadataLength !== undefined) {
+      header.metadataLength = raw.metadataLength as number;
+    }
+    if (raw.wrappedKey !== undefined) {
+      header.wrappedKey = fromBase64(raw.wrappedKey as string);
+    }
+
+    return {
+      header,
+      iv: fromBase64(raw.iv),
+      salt: fromBase64(raw.salt),
+      headerEnd,
+    };
+  }
+
+  /**
+   * KDF parameters in their fixed header field order
+   */
+  private static encodeKdf(kdf: KdfParams): KdfParams {
+    switch (kdf.algorithm) {
+      case 'PBKDF2-SHA256':
+        return { algorithm: kdf.algorithm, iterations: kdf.iterations };
+      case 'scrypt':
+        return {
+          algorithm: kdf.algorithm,
+          cost: kdf.cost,
+          blockSize: kdf.blockSize,
+          parallelism: kdf.parallelism,
+        };
+      case 'Argon2id':
+        return {
+          algorithm: kdf.algorithm,
+          memory: kdf.memory,
+          iterations: kdf.iterations,
+          parallelism: kdf.parallelism,
+        };
+    }
+  }
+
+  /**
+   * Parse and bound a header's KDF parameters, so a file cannot demand
+   * unbounded work or memory from whoever opens it
+   */
+  private static parseKdf(raw: Record<string, unknown>): KdfParams {
+    let kdf: KdfParams;
+    switch (raw.algorithm) {
+      case 'PBKDF2-SHA256':
+        kdf = { algorithm: raw.algorithm, iterations: raw.iterations as number };
+        break;
+      case 'scrypt':
+        kdf = {
+          algorithm: raw.algorithm,
+          cost: raw.cost as number,
+          blockSize: raw.blockSize as number,
+          parallelism: raw.parallelism as number,
+        };
+        break;
+      case 'Argon2id':
+        kdf = {
+          algorithm: raw.algorithm,
+          memory: raw.memory as number,
+          iterations: raw.iterations as number,
+          parallelism: raw.parallelism as number,
+        };
+        break;
+      default:
+        throw new EncryptionError(
+          `Unsupported key derivation function: ${String(raw.algorithm)}`,
+          'UNSUPPORTED_KDF'
+        );
+    }
+
+    if (!EncryptionService.isValidKdf(kdf)) {
+      throw new EncryptionError('Invalid key derivation parameters', 'INVALID_KDF_PARAMS');
+    }
+    return kdf;
+  }
+
+  /**
+   * Whether KDF parameters are integers within the supported bounds
+   */
+  private static isValidKdf(kdf: KdfParams): boolean {
+    const inRange = (value: number, min: number, max: number) =>
+      Number.isInteger(value) && value >= min && value <= max;
+    const maxMemory = EncryptionService.MAX_KDF_MEMORY;
+
+    switch (kdf.algorithm) {
+      case 'PBKDF2-SHA256':
+        return inRange(kdf.iterations, 1, 10_000_000);
+      case 'scrypt':
+        return (
+          inRange(kdf.cost, 2, maxMemory / 128) &&
+          (kdf.cost & (kdf.cost - 1)) === 0 &&
+          inRange(kdf.blockSize, 1, 32) &&
+          inRange(kdf.parallelism, 1, 16) &&
+          128 * kdf.cost * kdf.blockSize <= maxMemory
+        );
+      case 'Argon2id':
+        return (
+          inRange(kdf.parallelism, 1, 16) &&
+          inRange(kdf.memory, 8 * kdf.parallelism, maxMemory / 1024) &&
+          inRange(kdf.iterations, 1, 100)
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Default KDF parameters, also used for legacy blobs
+   */
+  private static defaultKdf(): KdfParams {
+    return {
+      algorithm: 'PBKDF2-SHA256',
+      iterations: EncryptionService.PBKDF2_ITERATIONS,
+    };
+  }
+
   /**
    * Generate a random encryption key
    */
   async generateKey(): Promise<CryptoKey> {
-    return await crypto.subtle.generateKey(
+    const webCrypto = await getCrypto();
+    return await webCrypto.subtle.generateKey(
       {
         name: EncryptionService.ALGORITHM,
         length: EncryptionService.KEY_LENGTH,
@@ -201,7 +1397,8 @@ export class EncryptionService {
    * Export key to raw format
    */
   async exportKey(key: CryptoKey): Promise<Uint8Array> {
-    const exported = await crypto.subtle.exportKey('raw', key);
+    const webCrypto = await getCrypto();
+    const exported = await webCrypto.subtle.exportKey('raw', key);
     return new Uint8Array(exported);
   }
 
@@ -209,9 +1406,10 @@ export class EncryptionService {
    * Import key from raw format
    */
   async importKey(keyData: Uint8Array): Promise<CryptoKey> {
-    return await crypto.subtle.importKey(
+    const webCrypto = await getCrypto();
+    return await webCrypto.subtle.importKey(
       'raw',
-      keyData,
+      keyData as BufferSource,
       EncryptionService.ALGORITHM,
       true,
       ['encrypt', 'decrypt']
@@ -0,0 +1,133 @@
+import bs58 from 'bs58';
+import {
+  ConfirmedSignatureInfo,
+  Keypair,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import { SolanaService } from './solana';
+import {
+  createGrantAccessInstruction,
+  createRecordAccessInstruction,
+} from '../program/instructions';
+
+const programId = Keypair.generate().publicKey;
+const owner = Keypair.generate().publicKey;
+
+function transactionResponse(
+  instructions: TransactionInstruction[],
+  blockTime: number
+): VersionedTransactionResponse {
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions,
+  }).compileToV0Message();
+
+  return {
+    slot: 1,
+    blockTime,
+    transaction: new VersionedTransaction(message),
+    meta: { err: null },
+  } as unknown as VersionedTransactionResponse;
+}
+
+describe('SolanaService', () => {
+  describe('getAuditLog', () => {
+    const service = new SolanaService('http://127.0.0.1:8899', programId.toBase58());
+    const recipients = [0, 1, 2].map(() => Keypair.generate().publicKey);
+    const reader = Keypair.generate().publicKey;
+    let fileId: string;
+
+    beforeAll(async () => {
+      fileId = await service.deriveFileId(owner, 'bafkreitest');
+      const fileIdHash = bs58.decode(fileId.slice(4));
+
+      // Newest first: a transaction sharing with three recipients, then a download
+      const transactions: Record<string, VersionedTransactionResponse> = {
+        shares: transactionResponse(
+          recipients.map((recipient) =>
+            createGrantAccessInstruction({
+              programId,
+              owner,
+              fileIdHash,
+              recipient,
+              wrappedKey: new Uint8Array(80),
+            })
+          ),
+          1_700_000_100
+        ),
+        download: transactionResponse(
+          [createRecordAccessInstruction({ programId, reader, fileIdHash, cid: 'bafkreitest' })],
+          1_700_000_000
+        ),
+      };
+      const signatures: ConfirmedSignatureInfo[] = Object.entries(transactions).map(
+        ([signature, transaction]) => ({
+          signature,
+          slot: 1,
+          err: null,
+          memo: null,
+          blockTime: transaction.blockTime,
+        })
+      );
+
+      const connection = service.getConnection();
+      jest
+        .spyOn(connection, 'getSignaturesForAddress')
+        .mockImplementation(async (_, options) => {
+          const start = options?.before
+            ? signatures.findIndex((info) => info.signature === options.before) + 1
+            : 0;
+          return signatures.slice(start);
+        });
+      jest
+        .spyOn(connection, 'getTransactions')
+        .mockImplementation(async (requested) =>
+          (requested as string[]).map((signature) => transactions[signature])
+        );
+      jest
+        .spyOn(connection, 'getTransaction')
+        .mockImplementation(async (signature) => transactions[signature] as never);
+    });
+
+    it('returns every entry, newest transaction first', async () => {
+      const entries = await service.getAuditLog(fileId);
+      expect(
+        entries.map((entry) => [entry.signature, entry.action, entry.instructionIndex])
+      ).toEqual([
+        ['shares', 'share', 0],
+        ['shares', 'share', 1],
+        ['shares', 'share', 2],
+        ['download', 'download', 0],
+      ]);
+      expect(entries[3].actor.equals(reader)).toBe(true);
+    });
+
+    it('pages inside a transaction without skipping entries', async () => {
+      const first = await service.getAuditLog(fileId, { limit: 2 });
+      expect(first.map((entry) => entry.instructionIndex)).toEqual([0, 1]);
+
+      const second = await service.getAuditLog(fileId, { limit: 2, after: first[1] });
+      expect(second.map((entry) => [entry.signature, entry.instructionIndex])).toEqual([
+        ['shares', 2],
+        ['download', 0],
+      ]);
+      expect(second[0].metadata?.recipient).toEqual(recipients[2]);
+
+      expect(await service.getAuditLog(fileId, { limit: 2, after: second[1] })).toEqual([]);
+    });
+
+    it('starts at the next older transaction with before', async () => {
+      const entries = await service.getAuditLog(fileId, { before: 'shares' });
+      expect(entries.map((entry) => entry.signature)).toEqual(['download']);
+    });
+
+    it('filters actions', async () => {
+      const entries = await service.getAuditLog(fileId, { actions: ['download'], limit: 1 });
+      expect(entries.map((entry) => entry.action)).toEqual(['download']);
+    });
+  });
+});
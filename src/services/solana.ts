@@ -1,20 +1,106 @@
-import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
-import { SolanaError } from '../errors';
-import type { WalletAdapter } from '../types';
+import {
+  AddressLookupTableAccount,
+  BlockheightBasedTransactionConfirmationStrategy,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  DurableNonceTransactionConfirmationStrategy,
+  PublicKey,
+  RpcResponseAndContext,
+  SignatureResult,
+  SystemProgram,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionExpiredNonceInvalidError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { SolanaError, TransactionError } from '../errors';
+import {
+  ACCOUNT_DISCRIMINATORS,
+  decodeAccessGrant,
+  decodeEncryptionKey,
+  decodeFileAccount,
+  decodeFileRetention,
+  decodeFileVersion,
+  decodeOwnershipCommitment,
+  findAccessGrantAddress,
+  findEncryptionKeyAddress,
+  findFileAddress,
+  findOwnershipCommitmentAddress,
+  findRetentionAddress,
+  findVersionAddress,
+} from '../program/accounts';
+import {
+  createAddVersionInstruction,
+  createCloseAccessGrantInstruction,
+  createCloseVersionInstruction,
+  createDeleteFileInstruction,
+  createGrantAccessInstruction,
+  createInitializeFileInstruction,
+  createRecordAccessInstruction,
+  createRegisterEncryptionKeyInstruction,
+  createRevokeAccessInstruction,
+  createSetOwnershipCommitmentInstruction,
+  createSetRetentionInstruction,
+  createUpdateAccessKeyInstruction,
+  createUpdateFileInstruction,
+  decodeInstruction,
+} from '../program/instructions';
+import { getCrypto } from '../utils/crypto';
+import { concatBytes } from '../utils/encoding';
+import type {
+  AccessControl,
+  AuditLog,
+  AuditLogOptions,
+  BatchOptions,
+  BuildTransactionOptions,
+  FileRecord,
+  FileVersion,
+  SubmitOptions,
+  TransactionOptions,
+  UnsignedTransaction,
+  WalletAdapter,
+} from '../types';
+
+/** How long a sent transaction stays valid: its blockhash or its durable nonce */
+type TransactionLifetime =
+  | Omit<BlockheightBasedTransactionConfirmationStrategy, 'signature'>
+  | Omit<DurableNonceTransactionConfirmationStrategy, 'signature'>;
 
 /**
  * Solana Service
  * Handles Solana blockchain interactions for access control and audit trails
  */
 export class SolanaService {
+  private static readonly FILE_ID_PREFIX = 'zkf_';
+  /** Accounts fetched per getMultipleAccountsInfo call */
+  private static readonly ACCOUNT_BATCH_SIZE = 100;
+  /** Signatures fetched per audit log page */
+  private static readonly SIGNATURE_PAGE_SIZE = 100;
+  /** First wait before a transaction is rebroadcast, doubled after each one */
+  private static readonly REBROADCAST_INTERVAL = 2000;
+  /** Longest wait between rebroadcasts */
+  private static readonly MAX_REBROADCAST_INTERVAL = 16000;
+  /** System program instruction index of advance_nonce_account */
+  private static readonly ADVANCE_NONCE_INSTRUCTION = 4;
+  /** Blocks a batch's blockhash must have left before a transaction is sent with it */
+  private static readonly BLOCKHASH_MARGIN = 30;
+
   private connection: Connection;
   private programId?: PublicKey;
+  private transactionOptions: TransactionOptions;
 
-  constructor(rpcEndpoint: string, programId?: string) {
-    this.connection = new Connection(rpcEndpoint, 'confirmed');
+  constructor(rpcEndpoint: string, programId?: string, transactionOptions: TransactionOptions = {}) {
+    this.connection = new Connection(rpcEndpoint, transactionOptions.commitment ?? 'confirmed');
     if (programId) {
       this.programId = new PublicKey(programId);
     }
+    this.transactionOptions = transactionOptions;
   }
 
   /**
@@ -39,63 +125,364 @@ export class SolanaService {
   }
 
   /**
-   * Initialize file account on-chain
+   * Derive a file ID from its owner and full CID
+   * Format: "zkf_" + base58(sha256("zkfile:file:" || owner || cid))
+   */
+  async deriveFileId(owner: PublicKey, cid: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const webCrypto = await getCrypto();
+    const digest = await webCrypto.subtle.digest(
+      'SHA-256',
+      concatBytes(encoder.encode('zkfile:file:'), owner.toBytes(), encoder.encode(cid)) as BufferSource
+    );
+    return this.formatFileId(new Uint8Array(digest));
+  }
+
+  /**
+   * Get the file account address (PDA) for a file ID
+   */
+  getFileAddress(fileId: string): PublicKey {
+    const [address] = findFileAddress(this.requireProgramId(), this.parseFileId(fileId));
+    return address;
+  }
+
+  /**
+   * Get the access grant address (PDA) for a file ID and recipient
+   */
+  getAccessGrantAddress(fileId: string, recipient: PublicKey): PublicKey {
+    const [address] = findAccessGrantAddress(
+      this.requireProgramId(),
+      this.getFileAddress(fileId),
+      recipient
+    );
+    return address;
+  }
+
+  /**
+   * Resolve a file ID to its on-chain record (full CID, owner, storage provider)
+   */
+  async resolveFile(fileId: string): Promise<FileRecord> {
+    const address = this.getFileAddress(fileId);
+
+    const data = await this.getProgramAccountData(address, 'RESOLVE_FILE_FAILED');
+    if (!data) {
+      throw new SolanaError(`File not found: ${fileId}`, 'FILE_NOT_FOUND');
+    }
+
+    const { owner, cid, storageProvider, createdAt } = decodeFileAccount(data);
+    return { fileId, address, owner, cid, storageProvider, createdAt };
+  }
+
+  /**
+   * Read the access grant for a recipient from on-chain state
+   * Returns null when no grant has been issued
+   */
+  async getAccessGrant(fileId: string, recipient: PublicKey): Promise<AccessControl | null> {
+    const address = this.getAccessGrantAddress(fileId, recipient);
+
+    const data = await this.getProgramAccountData(address, 'GET_ACCESS_GRANT_FAILED');
+    if (!data) {
+      return null;
+    }
+
+    return this.toAccessControl(fileId, data);
+  }
+
+  /**
+   * List every access grant issued for a file, including revoked ones
+   */
+  async listAccessGrants(fileId: string): Promise<AccessControl[]> {
+    const programId = this.requireProgramId();
+    const file = this.getFileAddress(fileId);
+
+    try {
+      const accounts = await this.connection.getProgramAccounts(programId, {
+        filters: [
+          { memcmp: { offset: 0, bytes: bs58.encode(ACCOUNT_DISCRIMINATORS.AccessGrant) } },
+          { memcmp: { offset: 8, bytes: file.toBase58() } },
+        ],
+      });
+      return accounts.map(({ account }) => this.toAccessControl(fileId, account.data));
+    } catch (error) {
+      if (error instanceof SolanaError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to list access grants: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LIST_ACCESS_GRANTS_FAILED'
+      );
+    }
+  }
+
+  /**
+   * List every access grant issued to a recipient, across files, including
+   * revoked ones
+   */
+  async listGrantsForRecipient(recipient: PublicKey): Promise<AccessControl[]> {
+    const programId = this.requireProgramId();
+
+    try {
+      const accounts = await this.connection.getProgramAccounts(programId, {
+        filters: [
+          { memcmp: { offset: 0, bytes: bs58.encode(ACCOUNT_DISCRIMINATORS.AccessGrant) } },
+          { memcmp: { offset: 72, bytes: recipient.toBase58() } },
+        ],
+      });
+      const grants = accounts.map(({ account }) => decodeAccessGrant(account.data));
+      const fileIds = await this.resolveFileIds(grants.map(({ file }) => file));
+
+      return accounts.flatMap(({ account }, i) => {
+        const fileId = fileIds.get(grants[i].file.toBase58());
+        return fileId ? [this.toAccessControl(fileId, account.data)] : [];
+      });
+    } catch (error) {
+      if (error instanceof SolanaError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to list access grants: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LIST_ACCESS_GRANTS_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Read a wallet's registered X25519 encryption public key
+   * Returns null when the wallet has not registered one
+   */
+  async getEncryptionKey(owner: PublicKey): Promise<Uint8Array | null> {
+    const [address] = findEncryptionKeyAddress(this.requireProgramId(), owner);
+
+    const data = await this.getProgramAccountData(address, 'GET_ENCRYPTION_KEY_FAILED');
+    if (!data) {
+      return null;
+    }
+
+    return decodeEncryptionKey(data).publicKey;
+  }
+
+  /**
+   * Register (or replace) the wallet's X25519 encryption public key
+   */
+  async registerEncryptionKey(publicKey: Uint8Array, wallet: WalletAdapter): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
+
+    const instruction = createRegisterEncryptionKeyInstruction({
+      programId: this.requireProgramId(),
+      owner: wallet.publicKey,
+      publicKey,
+    });
+
+    try {
+      return await this.sendInstruction(instruction, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to register encryption key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'REGISTER_ENCRYPTION_KEY_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Initialize file account on-chain and record its first version, with a
+   * retention expiration when given
    */
   async initializeFile(
     fileId: string,
     cid: string,
-    wallet: WalletAdapter
+    storageProvider: string,
+    wallet: WalletAdapter,
+    expiresAt?: number
   ): Promise<string> {
     if (!wallet.publicKey) {
       throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
     }
 
-    if (!this.programId) {
-      throw new SolanaError('Program ID not set', 'PROGRAM_ID_NOT_SET');
+    const instructions = this.initializeFileInstructions(
+      fileId,
+      cid,
+      storageProvider,
+      wallet.publicKey,
+      expiresAt
+    );
+
+    try {
+      return await this.sendInstructions(instructions, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to initialize file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INITIALIZE_FILE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Point a file at new content (e.g. after key rotation); the file ID is unchanged
+   */
+  async updateFile(
+    fileId: string,
+    cid: string,
+    storageProvider: string,
+    wallet: WalletAdapter
+  ): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
     }
 
+    const instruction = createUpdateFileInstruction({
+      programId: this.requireProgramId(),
+      owner: wallet.publicKey,
+      fileIdHash: this.parseFileId(fileId),
+      cid,
+      storageProvider,
+    });
+
     try {
-      // Create instruction (placeholder - actual implementation would use program IDL)
-      const instruction = new TransactionInstruction({
-        keys: [
-          { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-        ],
-        programId: this.programId,
-        data: Buffer.from(JSON.stringify({ fileId, cid })),
-      });
+      return await this.sendInstruction(instruction, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to update file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UPDATE_FILE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Record a new version of a file's content and point the file at it; the
+   * file ID and its grants are unchanged
+   * Files uploaded before versions were recorded get their current content
+   * recorded as version 0 in the same transaction.
+   */
+  async addVersion(
+    fileId: string,
+    cid: string,
+    storageProvider: string,
+    wallet: WalletAdapter
+  ): Promise<{ version: number; signature: string }> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
 
-      // Create and send transaction
-      const transaction = new Transaction().add(instruction);
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = wallet.publicKey;
+    const { version, instructions } = await this.addVersionInstructions(
+      fileId,
+      cid,
+      storageProvider,
+      wallet.publicKey
+    );
 
-      // Sign and send
-      if (!wallet.signTransaction) {
-        throw new SolanaError('Wallet does not support signing', 'SIGNING_NOT_SUPPORTED');
+    try {
+      return { version, signature: await this.sendInstructions(instructions, wallet) };
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
       }
+      throw new SolanaError(
+        `Failed to add version: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'ADD_VERSION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Build the add_version instructions for a file's next version, with
+   * version 0 first for files uploaded before versions were recorded
+   */
+  async addVersionInstructions(
+    fileId: string,
+    cid: string,
+    storageProvider: string,
+    uploader: PublicKey
+  ): Promise<{ version: number; instructions: TransactionInstruction[] }> {
+    const programId = this.requireProgramId();
+    const fileIdHash = this.parseFileId(fileId);
+
+    const versions = await this.listVersions(fileId);
+    const instructions: TransactionInstruction[] = [];
+    if (versions.length === 0) {
+      const current = await this.resolveFile(fileId);
+      instructions.push(
+        createAddVersionInstruction({
+          programId,
+          uploader,
+          fileIdHash,
+          version: 0,
+          cid: current.cid,
+          storageProvider: current.storageProvider,
+        })
+      );
+    }
+    const version = versions.length === 0 ? 1 : versions[versions.length - 1].version + 1;
+    instructions.push(
+      createAddVersionInstruction({ programId, uploader, fileIdHash, version, cid, storageProvider })
+    );
+    return { version, instructions };
+  }
+
+  /**
+   * Read a recorded version of a file
+   * Returns null when the version does not exist
+   */
+  async getVersion(fileId: string, version: number): Promise<FileVersion | null> {
+    const [address] = findVersionAddress(
+      this.requireProgramId(),
+      this.getFileAddress(fileId),
+      version
+    );
 
-      const signed = await wallet.signTransaction(transaction);
-      const signature = await this.connection.sendRawTransaction(signed.serialize());
-      
-      // Confirm transaction
-      await this.connection.confirmTransaction(signature);
+    const data = await this.getProgramAccountData(address, 'GET_VERSION_FAILED');
+    if (!data) {
+      return null;
+    }
+
+    return this.toFileVersion(fileId, data);
+  }
+
+  /**
+   * List the recorded versions of a file, oldest first
+   */
+  async listVersions(fileId: string): Promise<FileVersion[]> {
+    const programId = this.requireProgramId();
+    const file = this.getFileAddress(fileId);
 
-      return signature;
+    try {
+      const accounts = await this.connection.getProgramAccounts(programId, {
+        filters: [
+          { memcmp: { offset: 0, bytes: bs58.encode(ACCOUNT_DISCRIMINATORS.FileVersion) } },
+          { memcmp: { offset: 8, bytes: file.toBase58() } },
+        ],
+      });
+      return accounts
+        .map(({ account }) => this.toFileVersion(fileId, account.data))
+        .sort((a, b) => a.version - b.version);
     } catch (error) {
+      if (error instanceof SolanaError) {
+        throw error;
+      }
       throw new SolanaError(
-        `Failed to initialize file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'INITIALIZE_FILE_FAILED'
+        `Failed to list versions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LIST_VERSIONS_FAILED'
       );
     }
   }
 
   /**
-   * Grant access to a file
+   * Grant access to a file, storing the data key wrapped for the recipient
    */
   async grantAccess(
     fileId: string,
     recipient: PublicKey,
+    wrappedKey: Uint8Array,
     expiresAt: number | undefined,
     wallet: WalletAdapter
   ): Promise<string> {
@@ -103,41 +490,106 @@ export class SolanaService {
       throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
     }
 
-    if (!this.programId) {
-      throw new SolanaError('Program ID not set', 'PROGRAM_ID_NOT_SET');
-    }
+    const instruction = this.grantAccessInstruction(
+      fileId,
+      recipient,
+      wrappedKey,
+      expiresAt,
+      wallet.publicKey
+    );
 
     try {
-      // Create instruction (placeholder)
-      const instruction = new TransactionInstruction({
-        keys: [
-          { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-          { pubkey: recipient, isSigner: false, isWritable: true },
-        ],
-        programId: this.programId,
-        data: Buffer.from(JSON.stringify({ fileId, recipient: recipient.toBase58(), expiresAt })),
-      });
+      return await this.sendInstruction(instruction, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to grant access: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'GRANT_ACCESS_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Replace the wrapped data key stored in an existing access grant
+   */
+  async updateAccessKey(
+    fileId: string,
+    recipient: PublicKey,
+    wrappedKey: Uint8Array,
+    wallet: WalletAdapter
+  ): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
 
-      // Create and send transaction
-      const transaction = new Transaction().add(instruction);
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = wallet.publicKey;
+    const instruction = this.updateAccessKeyInstruction(
+      fileId,
+      recipient,
+      wrappedKey,
+      wallet.publicKey
+    );
 
-      if (!wallet.signTransaction) {
-        throw new SolanaError('Wallet does not support signing', 'SIGNING_NOT_SUPPORTED');
+    try {
+      return await this.sendInstruction(instruction, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
       }
+      throw new SolanaError(
+        `Failed to update access key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UPDATE_ACCESS_KEY_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Read a file's ownership commitment
+   * Returns null when the owner has not committed one
+   */
+  async getOwnershipCommitment(fileId: string): Promise<Uint8Array | null> {
+    const [address] = findOwnershipCommitmentAddress(
+      this.requireProgramId(),
+      this.getFileAddress(fileId)
+    );
+
+    const data = await this.getProgramAccountData(address, 'GET_OWNERSHIP_COMMITMENT_FAILED');
+    if (!data) {
+      return null;
+    }
+
+    return decodeOwnershipCommitment(data).commitment;
+  }
+
+  /**
+   * Store (or replace) a file's ownership commitment
+   */
+  async setOwnershipCommitment(
+    fileId: string,
+    commitment: Uint8Array,
+    wallet: WalletAdapter
+  ): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
 
-      const signed = await wallet.signTransaction(transaction);
-      const signature = await this.connection.sendRawTransaction(signed.serialize());
-      
-      await this.connection.confirmTransaction(signature);
+    const instruction = createSetOwnershipCommitmentInstruction({
+      programId: this.requireProgramId(),
+      owner: wallet.publicKey,
+      fileIdHash: this.parseFileId(fileId),
+      commitment,
+    });
 
-      return signature;
+    try {
+      return await this.sendInstruction(instruction, wallet);
     } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
       throw new SolanaError(
-        `Failed to grant access: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'GRANT_ACCESS_FAILED'
+        `Failed to set ownership commitment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'SET_OWNERSHIP_COMMITMENT_FAILED'
       );
     }
   }
@@ -154,57 +606,1179 @@ export class SolanaService {
       throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
     }
 
-    if (!this.programId) {
-      throw new SolanaError('Program ID not set', 'PROGRAM_ID_NOT_SET');
-    }
+    const instruction = this.revokeAccessInstruction(fileId, recipient, wallet.publicKey);
 
     try {
-      // Create instruction (placeholder)
-      const instruction = new TransactionInstruction({
-        keys: [
-          { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
-          { pubkey: recipient, isSigner: false, isWritable: true },
-        ],
-        programId: this.programId,
-        data: Buffer.from(JSON.stringify({ fileId, recipient: recipient.toBase58() })),
-      });
+      return await this.sendInstruction(instruction, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to revoke access: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'REVOKE_ACCESS_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Read when a file may be deleted by a cleanup
+   * Returns null when the file has no retention set
+   */
+  async getRetention(fileId: string): Promise<number | null> {
+    const [address] = findRetentionAddress(this.requireProgramId(), this.getFileAddress(fileId));
 
-      // Create and send transaction
-      const transaction = new Transaction().add(instruction);
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = wallet.publicKey;
+    const data = await this.getProgramAccountData(address, 'GET_RETENTION_FAILED');
+    if (!data) {
+      return null;
+    }
 
-      if (!wallet.signTransaction) {
-        throw new SolanaError('Wallet does not support signing', 'SIGNING_NOT_SUPPORTED');
-      }
+    return decodeFileRetention(data).expiresAt;
+  }
+
+  /**
+   * Set (or, without an expiration, clear) a file's retention
+   */
+  async setRetention(
+    fileId: string,
+    expiresAt: number | undefined,
+    wallet: WalletAdapter
+  ): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
 
-      const signed = await wallet.signTransaction(transaction);
-      const signature = await this.connection.sendRawTransaction(signed.serialize());
-      
-      await this.connection.confirmTransaction(signature);
+    const instruction = createSetRetentionInstruction({
+      programId: this.requireProgramId(),
+      owner: wallet.publicKey,
+      fileIdHash: this.parseFileId(fileId),
+      expiresAt,
+    });
 
-      return signature;
+    try {
+      return await this.sendInstruction(instruction, wallet);
     } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
       throw new SolanaError(
-        `Failed to revoke access: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'REVOKE_ACCESS_FAILED'
+        `Failed to set retention: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'SET_RETENTION_FAILED'
       );
     }
   }
 
   /**
-   * Get account balance
+   * List the retention expirations of every file an owner has set one for
    */
-  async getBalance(publicKey: PublicKey): Promise<number> {
+  async listRetention(owner: PublicKey): Promise<{ fileId: string; expiresAt: number }[]> {
+    const programId = this.requireProgramId();
+
     try {
-      const balance = await this.connection.getBalance(publicKey);
-      return balance / 1e9; // Convert lamports to SOL
+      const accounts = await this.connection.getProgramAccounts(programId, {
+        filters: [
+          { memcmp: { offset: 0, bytes: bs58.encode(ACCOUNT_DISCRIMINATORS.FileRetention) } },
+          { memcmp: { offset: 40, bytes: owner.toBase58() } },
+        ],
+      });
+      const retention = accounts.map(({ account }) => decodeFileRetention(account.data));
+      const fileIds = await this.resolveFileIds(retention.map(({ file }) => file));
+
+      return retention.flatMap(({ file, expiresAt }) => {
+        const fileId = fileIds.get(file.toBase58());
+        return fileId ? [{ fileId, expiresAt }] : [];
+      });
     } catch (error) {
+      if (error instanceof SolanaError) {
+        throw error;
+      }
       throw new SolanaError(
-        `Failed to get balance: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'GET_BALANCE_FAILED'
+        `Failed to list retention: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LIST_RETENTION_FAILED'
       );
     }
   }
+
+  /**
+   * Delete a file on-chain: close its access grants and versions, then the file
+   * account with its ownership commitment and retention, returning the rent to
+   * the owner
+   * The closes are packed into as few transactions as fit and signed together;
+   * the returned signatures end with the deletion.
+   */
+  async deleteFile(
+    fileId: string,
+    recipients: PublicKey[],
+    versions: number[],
+    wallet: WalletAdapter
+  ): Promise<string[]> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
+
+    const programId = this.requireProgramId();
+    const owner = wallet.publicKey;
+    const fileIdHash = this.parseFileId(fileId);
+    const instructions = [
+      ...recipients.map((recipient) =>
+        createCloseAccessGrantInstruction({ programId, owner, fileIdHash, recipient })
+      ),
+      ...versions.map((version) =>
+        createCloseVersionInstruction({ programId, owner, fileIdHash, version })
+      ),
+      createDeleteFileInstruction({ programId, owner, fileIdHash }),
+    ];
+
+    try {
+      return [...new Set(await this.sendBatch(instructions, wallet))];
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to delete file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'DELETE_FILE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Record a signed receipt that the wallet accessed a file's content
+   */
+  async recordAccess(fileId: string, cid: string, wallet: WalletAdapter): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
+
+    const instruction = createRecordAccessInstruction({
+      programId: this.requireProgramId(),
+      reader: wallet.publicKey,
+      fileIdHash: this.parseFileId(fileId),
+      cid,
+    });
+
+    try {
+      return await this.sendInstruction(instruction, wallet);
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to record access: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'RECORD_ACCESS_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Build a file's audit log from the program transactions that touched it
+   * Entries are newest first; pass the last entry as `after` to read the next
+   * page. Failed transactions are skipped.
+   */
+  async getAuditLog(fileId: string, options: AuditLogOptions = {}): Promise<AuditLog[]> {
+    const programId = this.requireProgramId();
+    const file = this.getFileAddress(fileId);
+    const { since, until, actions, limit, after } = options;
+
+    const entries: AuditLog[] = [];
+    // Add a transaction's entries, up to the limit; true once the page is full
+    const add = (
+      signature: string,
+      transaction: VersionedTransactionResponse | null,
+      fromIndex = 0
+    ): boolean => {
+      if (transaction && !transaction.meta?.err) {
+        const matching = this.toAuditEntries(programId, fileId, file, signature, transaction)
+          .filter((entry) => entry.instructionIndex >= fromIndex)
+          .filter((entry) => !actions || actions.includes(entry.action));
+        entries.push(
+          ...matching.slice(0, limit === undefined ? undefined : limit - entries.length)
+        );
+      }
+      return limit !== undefined && entries.length >= limit;
+    };
+
+    let before = after?.signature ?? options.before;
+    try {
+      // Finish the transaction the previous page stopped in
+      if (after) {
+        const transaction = await this.connection.getTransaction(after.signature, {
+          maxSupportedTransactionVersion: 0,
+        });
+        if (
+          !this.outsideRange(transaction?.blockTime, since, until) &&
+          add(after.signature, transaction, after.instructionIndex + 1)
+        ) {
+          return entries;
+        }
+      }
+
+      for (;;) {
+        const page = await this.connection.getSignaturesForAddress(file, {
+          before,
+          limit: SolanaService.SIGNATURE_PAGE_SIZE,
+        });
+        if (page.length === 0) {
+          break;
+        }
+        before = page[page.length - 1].signature;
+
+        const signatures = page
+          .filter((info) => !info.err && !this.outsideRange(info.blockTime, since, until))
+          .map((info) => info.signature);
+        const transactions =
+          signatures.length > 0
+            ? await this.connection.getTransactions(signatures, {
+                maxSupportedTransactionVersion: 0,
+              })
+            : [];
+
+        for (const [i, transaction] of transactions.entries()) {
+          if (add(signatures[i], transaction)) {
+            return entries;
+          }
+        }
+
+        const oldest = page[page.length - 1].blockTime;
+        if (
+          page.length < SolanaService.SIGNATURE_PAGE_SIZE ||
+          (since !== undefined && oldest != null && oldest * 1000 < since)
+        ) {
+          break;
+        }
+      }
+    } catch (error) {
+      throw new SolanaError(
+        `Failed to get audit log: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'GET_AUDIT_LOG_FAILED'
+      );
+    }
+
+    return entries;
+  }
+
+  /**
+   * Build the instructions that initialize a file account and record its first
+   * version, with a retention expiration when given
+   */
+  initializeFileInstructions(
+    fileId: string,
+    cid: string,
+    storageProvider: string,
+    owner: PublicKey,
+    expiresAt?: number
+  ): TransactionInstruction[] {
+    const programId = this.requireProgramId();
+    const fileIdHash = this.parseFileId(fileId);
+    const instructions = [
+      createInitializeFileInstruction({ programId, owner, fileIdHash, cid, storageProvider }),
+      createAddVersionInstruction({
+        programId,
+        uploader: owner,
+        fileIdHash,
+        version: 0,
+        cid,
+        storageProvider,
+      }),
+    ];
+    if (expiresAt !== undefined) {
+      instructions.push(createSetRetentionInstruction({ programId, owner, fileIdHash, expiresAt }));
+    }
+    return instructions;
+  }
+
+  /**
+   * Build a grant_access instruction
+   */
+  grantAccessInstruction(
+    fileId: string,
+    recipient: PublicKey,
+    wrappedKey: Uint8Array,
+    expiresAt: number | undefined,
+    owner: PublicKey
+  ): TransactionInstruction {
+    return createGrantAccessInstruction({
+      programId: this.requireProgramId(),
+      owner,
+      fileIdHash: this.parseFileId(fileId),
+      recipient,
+      expiresAt,
+      wrappedKey,
+    });
+  }
+
+  /**
+   * Build an update_access_key instruction
+   */
+  updateAccessKeyInstruction(
+    fileId: string,
+    recipient: PublicKey,
+    wrappedKey: Uint8Array,
+    owner: PublicKey
+  ): TransactionInstruction {
+    return createUpdateAccessKeyInstruction({
+      programId: this.requireProgramId(),
+      owner,
+      fileIdHash: this.parseFileId(fileId),
+      recipient,
+      wrappedKey,
+    });
+  }
+
+  /**
+   * Build a revoke_access instruction
+   */
+  revokeAccessInstruction(
+    fileId: string,
+    recipient: PublicKey,
+    owner: PublicKey
+  ): TransactionInstruction {
+    return createRevokeAccessInstruction({
+      programId: this.requireProgramId(),
+      owner,
+      fileIdHash: this.parseFileId(fileId),
+      recipient,
+    });
+  }
+
+  /**
+   * Send instructions in as few transactions as they fit in, signed with a
+   * single signAllTransactions call
+   * Instructions keep their order and are never split across transactions;
+   * transactions are sent in order, each confirmed before the next. The rest
+   * are signed again with a new blockhash if it is about to expire. With
+   * lookup tables, v0 versioned transactions are built. Returns the signature
+   * of the transaction carrying each instruction; on failure, those already
+   * confirmed are in the TransactionError's confirmedSignatures.
+   */
+  async sendBatch(
+    instructions: TransactionInstruction[],
+    wallet: WalletAdapter,
+    options: BatchOptions = {}
+  ): Promise<string[]> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
+    if (instructions.length === 0) {
+      return [];
+    }
+
+    const payer = wallet.publicKey;
+    const lookupTables = options.lookupTables
+      ? await this.getLookupTables(options.lookupTables)
+      : undefined;
+    const budget = this.computeBudgetInstructions(options);
+    const { commitment } = this.transactionOptions;
+    let lifetime = await this.connection.getLatestBlockhash(commitment);
+    const { blockhash } = lifetime;
+
+    // Greedily pack instructions while the serialized transaction fits in a packet
+    const batches: TransactionInstruction[][] = [];
+    let current: TransactionInstruction[] = [];
+    const fits = (batch: TransactionInstruction[]) =>
+      this.fits([...budget, ...batch], payer, blockhash, lookupTables);
+    for (const instruction of instructions) {
+      if (current.length > 0 && !fits([...current, instruction])) {
+        batches.push(current);
+        current = [];
+      }
+      if (current.length === 0 && !fits([instruction])) {
+        throw new SolanaError('Instruction does not fit in a transaction', 'INSTRUCTION_TOO_LARGE');
+      }
+      current.push(instruction);
+    }
+    batches.push(current);
+
+    const sign = (pending: TransactionInstruction[][], recentBlockhash: string) =>
+      this.signTransactions(
+        pending.map((batch) =>
+          this.compileTransaction([...budget, ...batch], payer, recentBlockhash, lookupTables)
+        ),
+        wallet
+      );
+    let signed = await sign(batches, blockhash);
+
+    const signatures: string[] = [];
+    for (let i = 0; i < batches.length; i++) {
+      let signature: string;
+      try {
+        // Earlier confirmations can use up the blockhash; re-sign the rest with a fresh one
+        if (i > 0) {
+          const height = await this.connection.getBlockHeight(commitment);
+          if (height + SolanaService.BLOCKHASH_MARGIN > lifetime.lastValidBlockHeight) {
+            lifetime = await this.connection.getLatestBlockhash(commitment);
+            signed = [
+              ...signed.slice(0, i),
+              ...(await sign(batches.slice(i), lifetime.blockhash)),
+            ];
+          }
+        }
+        signature = await this.sendAndConfirm(signed[i], lifetime, options);
+      } catch (error) {
+        const failure =
+          error instanceof TransactionError
+            ? error
+            : new TransactionError(
+                `Failed to send transaction ${i + 1} of ${batches.length}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                'SEND_BATCH_FAILED'
+              );
+        failure.confirmedSignatures = signatures;
+        throw failure;
+      }
+      signatures.push(...batches[i].map(() => signature));
+    }
+    return signatures;
+  }
+
+  /**
+   * Build an unsigned transaction for external signing: custodians, multisigs
+   * or hardware wallets
+   * With a durable nonce the transaction starts with advance_nonce_account and
+   * stays valid until the nonce is used, so it can be signed offline and
+   * submitted later with submitSigned.
+   */
+  async buildTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    options: BuildTransactionOptions = {}
+  ): Promise<UnsignedTransaction> {
+    try {
+      const { nonce } = options;
+      const lookupTables = options.lookupTables
+        ? await this.getLookupTables(options.lookupTables)
+        : undefined;
+      const all = [...this.computeBudgetInstructions(options), ...instructions];
+
+      let blockhash: string;
+      let lastValidBlockHeight: number | undefined;
+      if (nonce) {
+        blockhash = nonce.nonce ?? (await this.getNonce(nonce.nonceAccount));
+        all.unshift(
+          SystemProgram.nonceAdvance({
+            noncePubkey: nonce.nonceAccount,
+            authorizedPubkey: nonce.authority,
+          })
+        );
+      } else {
+        ({ blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash(
+          this.transactionOptions.commitment
+        ));
+      }
+
+      const transaction = this.compileTransaction(all, feePayer, blockhash, lookupTables);
+      const serialized = new Uint8Array(
+        transaction instanceof Transaction
+          ? transaction.serialize({ requireAllSignatures: false, verifySignatures: false })
+          : transaction.serialize()
+      );
+      const { message } = VersionedTransaction.deserialize(serialized);
+      return {
+        transaction: serialized,
+        instructions: all,
+        signers: message.staticAccountKeys.slice(0, message.header.numRequiredSignatures),
+        blockhash,
+        lastValidBlockHeight,
+      };
+    } catch (error) {
+      if (error instanceof SolanaError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to build transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'BUILD_TRANSACTION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Build an unsigned transaction that initializes a file account, with the
+   * owner as fee payer
+   */
+  async buildInitializeFile(
+    fileId: string,
+    cid: string,
+    storageProvider: string,
+    owner: PublicKey,
+    expiresAt?: number,
+    options: BuildTransactionOptions = {}
+  ): Promise<UnsignedTransaction> {
+    return await this.buildTransaction(
+      this.initializeFileInstructions(fileId, cid, storageProvider, owner, expiresAt),
+      owner,
+      options
+    );
+  }
+
+  /**
+   * Build an unsigned transaction that grants access to a file, with the owner
+   * as fee payer
+   */
+  async buildGrantAccess(
+    fileId: string,
+    recipient: PublicKey,
+    wrappedKey: Uint8Array,
+    expiresAt: number | undefined,
+    owner: PublicKey,
+    options: BuildTransactionOptions = {}
+  ): Promise<UnsignedTransaction> {
+    return await this.buildTransaction(
+      [this.grantAccessInstruction(fileId, recipient, wrappedKey, expiresAt, owner)],
+      owner,
+      options
+    );
+  }
+
+  /**
+   * Build an unsigned transaction that revokes access to a file, with the owner
+   * as fee payer
+   */
+  async buildRevokeAccess(
+    fileId: string,
+    recipient: PublicKey,
+    owner: PublicKey,
+    options: BuildTransactionOptions = {}
+  ): Promise<UnsignedTransaction> {
+    return await this.buildTransaction(
+      [this.revokeAccessInstruction(fileId, recipient, owner)],
+      owner,
+      options
+    );
+  }
+
+  /**
+   * Simulate, send and confirm a transaction signed outside the SDK
+   * Durable-nonce transactions are confirmed until their nonce advances;
+   * others until their blockhash expires.
+   */
+  async submitSigned(
+    transaction: Uint8Array | Transaction | VersionedTransaction,
+    options: SubmitOptions = {}
+  ): Promise<string> {
+    try {
+      const signed = VersionedTransaction.deserialize(
+        transaction instanceof Uint8Array ? transaction : transaction.serialize()
+      );
+      if (signed.signatures.some((signature) => signature.every((byte) => byte === 0))) {
+        throw new SolanaError('Transaction is missing signatures', 'MISSING_SIGNATURE');
+      }
+
+      const lifetime = await this.getLifetime(signed.message, options);
+      return await this.sendAndConfirm(signed, lifetime, options);
+    } catch (error) {
+      if (error instanceof SolanaError) {
+        throw error;
+      }
+      throw new SolanaError(
+        `Failed to submit transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'SUBMIT_TRANSACTION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Get account balance
+   */
+  async getBalance(publicKey: PublicKey): Promise<number> {
+    try {
+      const balance = await this.connection.getBalance(publicKey);
+      return balance / 1e9; // Convert lamports to SOL
+    } catch (error) {
+      throw new SolanaError(
+        `Failed to get balance: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'GET_BALANCE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Sign, send and confirm a single instruction with the wallet as fee payer
+   */
+  private async sendInstruction(
+    instruction: TransactionInstruction,
+    wallet: WalletAdapter
+  ): Promise<string> {
+    return await this.sendInstructions([instruction], wallet);
+  }
+
+  /**
+   * Sign, send and confirm instructions in one transaction with the wallet as fee payer
+   */
+  private async sendInstructions(
+    instructions: TransactionInstruction[],
+    wallet: WalletAdapter
+  ): Promise<string> {
+    if (!wallet.publicKey) {
+      throw new SolanaError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+    }
+
+    const lifetime = await this.connection.getLatestBlockhash(this.transactionOptions.commitment);
+    const transaction = this.compileTransaction(
+      [...this.computeBudgetInstructions(), ...instructions],
+      wallet.publicKey,
+      lifetime.blockhash
+    );
+    const [signed] = await this.signTransactions([transaction], wallet);
+
+    return await this.sendAndConfirm(signed, lifetime);
+  }
+
+  /**
+   * Sign transactions with one signAllTransactions call, or one by one when the
+   * wallet only supports signTransaction
+   */
+  private async signTransactions<T extends Transaction | VersionedTransaction>(
+    transactions: T[],
+    wallet: WalletAdapter
+  ): Promise<T[]> {
+    const { signTransaction, signAllTransactions } = wallet;
+    if (!signTransaction && !signAllTransactions) {
+      throw new SolanaError('Wallet does not support signing', 'SIGNING_NOT_SUPPORTED');
+    }
+
+    try {
+      if (signAllTransactions && (transactions.length > 1 || !signTransaction)) {
+        return await signAllTransactions(transactions);
+      }
+      const signed: T[] = [];
+      for (const transaction of transactions) {
+        signed.push(await signTransaction!(transaction));
+      }
+      return signed;
+    } catch (error) {
+      if (this.isUserRejection(error)) {
+        throw new TransactionError('Transaction was rejected by the wallet', 'USER_REJECTED');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Simulate, send and confirm a signed transaction
+   * The transaction is rebroadcast with backoff until it is confirmed at the
+   * configured commitment or its blockhash expires (or its nonce advances).
+   */
+  private async sendAndConfirm(
+    transaction: Transaction | VersionedTransaction,
+    lifetime: TransactionLifetime,
+    options: TransactionOptions = {}
+  ): Promise<string> {
+    const { commitment, simulate } = { ...this.transactionOptions, ...options };
+    const raw = transaction.serialize();
+    const versioned = VersionedTransaction.deserialize(raw);
+    const signature = bs58.encode(versioned.signatures[0]);
+
+    // Surface program errors and logs before paying fees
+    if (simulate !== false) {
+      const { value } = await this.connection.simulateTransaction(versioned, {
+        sigVerify: false,
+        commitment,
+      });
+      if (value.err) {
+        throw this.toTransactionError(value.err, versioned.message, value.logs ?? undefined);
+      }
+    }
+
+    const send = () =>
+      this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+    await send();
+
+    const confirmation = this.connection.confirmTransaction({ ...lifetime, signature }, commitment);
+    let result: RpcResponseAndContext<SignatureResult> | undefined;
+    let interval = SolanaService.REBROADCAST_INTERVAL;
+    try {
+      while (!(result = await this.waitFor(confirmation, interval))) {
+        // RPC nodes drop transactions under load; resending is safe as the signature is fixed
+        await send().catch(() => undefined);
+        interval = Math.min(interval * 2, SolanaService.MAX_REBROADCAST_INTERVAL);
+      }
+    } catch (error) {
+      if (
+        error instanceof TransactionExpiredBlockheightExceededError ||
+        error instanceof TransactionExpiredNonceInvalidError
+      ) {
+        throw new TransactionError(
+          `Transaction expired before it was confirmed: ${signature}`,
+          'TRANSACTION_EXPIRED',
+          { signature }
+        );
+      }
+      throw error;
+    }
+
+    if (result.value.err) {
+      throw this.toTransactionError(
+        result.value.err,
+        versioned.message,
+        await this.getTransactionLogs(signature),
+        signature
+      );
+    }
+    return signature;
+  }
+
+  /**
+   * Lifetime of a signed transaction: its durable nonce when it starts with
+   * advance_nonce_account, otherwise its blockhash
+   */
+  private async getLifetime(
+    message: VersionedMessage,
+    options: SubmitOptions
+  ): Promise<TransactionLifetime> {
+    const commitment = options.commitment ?? this.transactionOptions.commitment;
+    const blockhash = message.recentBlockhash;
+
+    const [first] = message.compiledInstructions;
+    const isNonceAdvance =
+      first !== undefined &&
+      message.staticAccountKeys[first.programIdIndex]?.equals(SystemProgram.programId) &&
+      first.data.length >= 4 &&
+      new DataView(first.data.buffer, first.data.byteOffset, 4).getUint32(0, true) ===
+        SolanaService.ADVANCE_NONCE_INSTRUCTION;
+    const nonceAccount = isNonceAdvance
+      ? message.staticAccountKeys[first.accountKeyIndexes[0]]
+      : undefined;
+    if (nonceAccount) {
+      return {
+        nonceAccountPubkey: nonceAccount,
+        nonceValue: blockhash,
+        minContextSlot: await this.connection.getSlot(commitment),
+      };
+    }
+
+    if (options.lastValidBlockHeight !== undefined) {
+      return { blockhash, lastValidBlockHeight: options.lastValidBlockHeight };
+    }
+    // A newer blockhash expires no earlier than the transaction's, so it bounds the wait
+    const { lastValidBlockHeight } = await this.connection.getLatestBlockhash(commitment);
+    return { blockhash, lastValidBlockHeight };
+  }
+
+  /**
+   * Read the current value of a durable nonce account
+   */
+  private async getNonce(nonceAccount: PublicKey): Promise<string> {
+    const account = await this.connection.getNonce(
+      nonceAccount,
+      this.transactionOptions.commitment
+    );
+    if (!account) {
+      throw new SolanaError(
+        `Nonce account not found: ${nonceAccount.toBase58()}`,
+        'NONCE_NOT_FOUND'
+      );
+    }
+    return account.nonce;
+  }
+
+  /**
+   * Wait for a promise for up to `ms` milliseconds; undefined on timeout
+   */
+  private async waitFor<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+    let resolveTimeout: (value: undefined) => void = () => undefined;
+    const timeout = new Promise<undefined>((resolve) => (resolveTimeout = resolve));
+    const timer = setTimeout(() => resolveTimeout(undefined), ms);
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Program logs of a sent transaction, if the RPC node still has them
+   */
+  private async getTransactionLogs(signature: string): Promise<string[] | undefined> {
+    try {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      return transaction?.meta?.logMessages ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Map a transaction error from simulation or confirmation to a TransactionError
+   */
+  private toTransactionError(
+    error: unknown,
+    message: VersionedMessage,
+    logs?: string[],
+    signature?: string
+  ): TransactionError {
+    const details = { logs, signature };
+    if (error === 'BlockhashNotFound') {
+      return new TransactionError('Transaction blockhash expired', 'TRANSACTION_EXPIRED', details);
+    }
+    if (
+      error === 'InsufficientFundsForFee' ||
+      error === 'AccountNotFound' ||
+      (typeof error === 'object' && error !== null && 'InsufficientFundsForRent' in error)
+    ) {
+      return new TransactionError(
+        'Insufficient funds for fees or rent',
+        'INSUFFICIENT_FUNDS',
+        details
+      );
+    }
+
+    const instructionError = (error as { InstructionError?: [number, unknown] } | null)
+      ?.InstructionError;
+    if (instructionError) {
+      const [index, reason] = instructionError;
+      const instruction = message.compiledInstructions[index];
+      const programId = instruction && message.staticAccountKeys[instruction.programIdIndex];
+      const custom = (reason as { Custom?: number } | null)?.Custom;
+
+      // System program error 1 is ResultWithNegativeLamports
+      if (
+        (programId?.equals(SystemProgram.programId) && custom === 1) ||
+        logs?.some((line) => /insufficient lamports/i.test(line))
+      ) {
+        return new TransactionError(
+          `Insufficient funds in instruction ${index}`,
+          'INSUFFICIENT_FUNDS',
+          { ...details, instructionIndex: index }
+        );
+      }
+      return new TransactionError(
+        `Instruction ${index} failed${programId ? ` in program ${programId.toBase58()}` : ''}: ${custom !== undefined ? `custom program error ${custom}` : JSON.stringify(reason)}`,
+        'PROGRAM_ERROR',
+        { ...details, instructionIndex: index, programErrorCode: custom }
+      );
+    }
+
+    return new TransactionError(
+      `Transaction failed: ${JSON.stringify(error)}`,
+      'TRANSACTION_FAILED',
+      details
+    );
+  }
+
+  /**
+   * Whether a wallet error means the user declined to sign
+   */
+  private isUserRejection(error: unknown): boolean {
+    const { code, name, message } = (error ?? {}) as {
+      code?: unknown;
+      name?: unknown;
+      message?: unknown;
+    };
+    return (
+      code === 4001 ||
+      (typeof name === 'string' && /rejected/i.test(name)) ||
+      (typeof message === 'string' && /reject|denied|declined|cancel/i.test(message))
+    );
+  }
+
+  /**
+   * Build a legacy transaction, or a v0 versioned transaction when lookup
+   * tables are given
+   */
+  private compileTransaction(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    blockhash: string,
+    lookupTables?: AddressLookupTableAccount[]
+  ): Transaction | VersionedTransaction {
+    if (lookupTables) {
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: blockhash,
+        instructions,
+      }).compileToV0Message(lookupTables);
+      return new VersionedTransaction(message);
+    }
+
+    const transaction = new Transaction().add(...instructions);
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = payer;
+    return transaction;
+  }
+
+  /**
+   * Whether instructions fit in a single transaction packet once signed
+   */
+  private fits(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    blockhash: string,
+    lookupTables?: AddressLookupTableAccount[]
+  ): boolean {
+    try {
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: blockhash,
+        instructions,
+      });
+      const compiled = lookupTables
+        ? message.compileToV0Message(lookupTables)
+        : message.compileToLegacyMessage();
+      return new VersionedTransaction(compiled).serialize().length <= PACKET_DATA_SIZE;
+    } catch {
+      // Oversized messages fail to serialize
+      return false;
+    }
+  }
+
+  /**
+   * Compute budget instructions for the service's fee settings, overridden by `options`
+   */
+  private computeBudgetInstructions(options: TransactionOptions = {}): TransactionInstruction[] {
+    const { computeUnitPrice, computeUnitLimit } = { ...this.transactionOptions, ...options };
+    const instructions: TransactionInstruction[] = [];
+    if (computeUnitLimit !== undefined) {
+      instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+    }
+    if (computeUnitPrice !== undefined) {
+      instructions.push(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: computeUnitPrice })
+      );
+    }
+    return instructions;
+  }
+
+  /**
+   * Fetch address lookup tables
+   */
+  private async getLookupTables(addresses: PublicKey[]): Promise<AddressLookupTableAccount[]> {
+    const tables: AddressLookupTableAccount[] = [];
+    for (const address of addresses) {
+      const { value } = await this.connection.getAddressLookupTable(address);
+      if (!value) {
+        throw new SolanaError(
+          `Address lookup table not found: ${address.toBase58()}`,
+          'LOOKUP_TABLE_NOT_FOUND'
+        );
+      }
+      tables.push(value);
+    }
+    return tables;
+  }
+
+  /**
+   * Fetch account data, checking that the program owns the account
+   * Returns null when the account does not exist
+   */
+  private async getProgramAccountData(address: PublicKey, code: string): Promise<Uint8Array | null> {
+    const programId = this.requireProgramId();
+
+    let account;
+    try {
+      account = await this.connection.getAccountInfo(address);
+    } catch (error) {
+      throw new SolanaError(
+        `Failed to fetch account ${address.toBase58()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        code
+      );
+    }
+
+    if (!account) {
+      return null;
+    }
+    if (!account.owner.equals(programId)) {
+      throw new SolanaError(
+        `Account ${address.toBase58()} is not owned by the ZKFile program`,
+        'INVALID_ACCOUNT_OWNER'
+      );
+    }
+
+    return account.data;
+  }
+
+  /**
+   * Decode access grant account data into an access control entry
+   */
+  private toAccessControl(fileId: string, data: Uint8Array): AccessControl {
+    const grant = decodeAccessGrant(data);
+    return {
+      fileId,
+      owner: grant.owner,
+      recipient: grant.recipient,
+      grantedAt: grant.grantedAt,
+      expiresAt: grant.expiresAt,
+      revoked: grant.revoked,
+      wrappedKey: grant.wrappedKey,
+    };
+  }
+
+  /**
+   * Decode file version account data
+   */
+  private toFileVersion(fileId: string, data: Uint8Array): FileVersion {
+    const { version, cid, storageProvider, uploader, createdAt } = decodeFileVersion(data);
+    return { fileId, version, cid, storageProvider, uploader, createdAt };
+  }
+
+  /**
+   * Turn the program instructions of a transaction that act on a file into
+   * audit log entries
+   */
+  private toAuditEntries(
+    programId: PublicKey,
+    fileId: string,
+    file: PublicKey,
+    signature: string,
+    transaction: VersionedTransactionResponse
+  ): AuditLog[] {
+    const { message } = transaction.transaction;
+    const accountKeys = message.getAccountKeys({
+      accountKeysFromLookups: transaction.meta?.loadedAddresses,
+    });
+    const timestamp = (transaction.blockTime ?? 0) * 1000;
+
+    const entries: AuditLog[] = [];
+    for (const [instructionIndex, instruction] of message.compiledInstructions.entries()) {
+      if (!accountKeys.get(instruction.programIdIndex)?.equals(programId)) {
+        continue;
+      }
+      const accounts = instruction.accountKeyIndexes.map((index) => accountKeys.get(index));
+      if (!accounts[0]?.equals(file)) {
+        continue;
+      }
+
+      let decoded;
+      try {
+        decoded = decodeInstruction(instruction.data);
+      } catch {
+        continue;
+      }
+
+      let action: AuditLog['action'];
+      let actor: PublicKey | undefined;
+      let metadata: Record<string, unknown>;
+      switch (decoded?.name) {
+        case 'initializeFile':
+        case 'updateFile':
+          action = 'upload';
+          actor = accounts[1];
+          metadata = { cid: decoded.cid, storageProvider: decoded.storageProvider };
+          if (decoded.name === 'updateFile') {
+            metadata.update = true;
+          }
+          break;
+        case 'grantAccess':
+          action = 'share';
+          actor = accounts[3];
+          metadata = { recipient: accounts[2], expiresAt: decoded.expiresAt };
+          break;
+        case 'updateAccessKey':
+          action = 'share';
+          actor = accounts[3];
+          metadata = { recipient: accounts[2], rekeyed: true };
+          break;
+        case 'revokeAccess':
+          action = 'revoke';
+          actor = accounts[3];
+          metadata = { recipient: accounts[2] };
+          break;
+        case 'recordAccess':
+          action = 'download';
+          actor = accounts[2];
+          metadata = { cid: decoded.cid };
+          break;
+        case 'addVersion':
+          // Version 0 is the initial upload, already logged by initializeFile
+          if (decoded.version === 0) {
+            continue;
+          }
+          action = 'upload';
+          actor = accounts[2];
+          metadata = {
+            cid: decoded.cid,
+            storageProvider: decoded.storageProvider,
+            update: true,
+            version: decoded.version,
+          };
+          break;
+        case 'deleteFile':
+          action = 'delete';
+          actor = accounts[3];
+          metadata = {};
+          break;
+        default:
+          continue;
+      }
+
+      if (actor) {
+        entries.push({ fileId, action, actor, timestamp, signature, instructionIndex, metadata });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Whether a block time (seconds) falls outside a millisecond range
+   * Unknown block times are kept
+   */
+  private outsideRange(
+    blockTime: number | null | undefined,
+    since?: number,
+    until?: number
+  ): boolean {
+    if (blockTime == null) {
+      return false;
+    }
+    const timestamp = blockTime * 1000;
+    return (since !== undefined && timestamp < since) || (until !== undefined && timestamp > until);
+  }
+
+  /**
+   * Get the program ID or fail if it is not configured
+   */
+  private requireProgramId(): PublicKey {
+    if (!this.programId) {
+      throw new SolanaError('Program ID not set', 'PROGRAM_ID_NOT_SET');
+    }
+    return this.programId;
+  }
+
+  /**
+   * Map file account addresses to file IDs; the file account data carries the
+   * file ID hash. Missing accounts are left out.
+   */
+  private async resolveFileIds(files: PublicKey[]): Promise<Map<string, string>> {
+    const programId = this.requireProgramId();
+    const unique = [...new Map(files.map((file) => [file.toBase58(), file])).values()];
+
+    const fileIds = new Map<string, string>();
+    for (let i = 0; i < unique.length; i += SolanaService.ACCOUNT_BATCH_SIZE) {
+      const batch = unique.slice(i, i + SolanaService.ACCOUNT_BATCH_SIZE);
+      const infos = await this.connection.getMultipleAccountsInfo(batch);
+      infos.forEach((info, j) => {
+        if (info?.owner.equals(programId)) {
+          const { fileIdHash } = decodeFileAccount(info.data);
+          fileIds.set(batch[j].toBase58(), this.formatFileId(fileIdHash));
+        }
+      });
+    }
+    return fileIds;
+  }
+
+  /**
+   * Format the 32-byte hash of a file as its file ID
+   */
+  private formatFileId(hash: Uint8Array): string {
+    return `${SolanaService.FILE_ID_PREFIX}${bs58.encode(hash)}`;
+  }
+
+  /**
+   * Decode the 32-byte hash carried by a file ID
+   */
+  private parseFileId(fileId: string): Uint8Array {
+    if (fileId.startsWith(SolanaService.FILE_ID_PREFIX)) {
+      try {
+        const hash = bs58.decode(fileId.slice(SolanaService.FILE_ID_PREFIX.length));
+        if (hash.length === 32) {
+          return hash;
+        }
+      } catch {
+        // Fall through to the error below
+      }
+    }
+
+    throw new SolanaError(`Invalid file ID: ${fileId}`, 'INVALID_FILE_ID');
+  }
 }
@@ -0,0 +1,83 @@
+import * as http from '../storage/http';
+import { MemoryStorageProvider } from '../storage/memory';
+import { readInput } from '../utils/input';
+import { StorageService } from './storage';
+
+function streamOf(chunks: number, chunkSize: number): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent++ === chunks) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(new Uint8Array(chunkSize).fill(sent));
+    },
+  });
+}
+
+describe('StorageService', () => {
+  describe('buffered uploads', () => {
+    it('buffers streams for providers without uploadStream', async () => {
+      const storage = new StorageService([new MemoryStorageProvider()], 'memory', 4096);
+      const cid = await storage.uploadStream(streamOf(4, 1024));
+      expect(await storage.download(cid, undefined, 'memory')).toHaveLength(4096);
+    });
+
+    it('fails once a stream passes the limit, without reading the rest', async () => {
+      const storage = new StorageService([new MemoryStorageProvider()], 'memory', 4096);
+      let pulled = 0;
+      const source = streamOf(100, 1024).pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            pulled++;
+            controller.enqueue(chunk);
+          },
+        })
+      );
+
+      await expect(storage.uploadStream(source)).rejects.toMatchObject({
+        code: 'UPLOAD_TOO_LARGE',
+      });
+      expect(pulled).toBeLessThan(10);
+    });
+
+    it('buffers streams in runtimes that cannot send stream bodies', async () => {
+      const memory = new MemoryStorageProvider();
+      const uploadStream = jest.fn(async (stream: ReadableStream<Uint8Array>) =>
+        memory.upload(await readInput(stream))
+      );
+      const provider = Object.assign(memory, { uploadStream });
+      const storage = new StorageService([provider], 'memory', 4096);
+      const supported = jest.spyOn(http, 'supportsStreamingUploads').mockReturnValue(false);
+
+      try {
+        const cid = await storage.uploadStream(streamOf(4, 1024));
+        expect(uploadStream).not.toHaveBeenCalled();
+        expect(await storage.download(cid, undefined, 'memory')).toHaveLength(4096);
+
+        await expect(storage.uploadStream(streamOf(5, 1024))).rejects.toMatchObject({
+          code: 'UPLOAD_TOO_LARGE',
+        });
+        expect(() => storage.checkUploadSize(4097)).toThrow(
+          expect.objectContaining({ code: 'UPLOAD_TOO_LARGE' })
+        );
+
+        supported.mockReturnValue(true);
+        await storage.uploadStream(streamOf(5, 1024));
+        expect(uploadStream).toHaveBeenCalledTimes(1);
+        expect(() => storage.checkUploadSize(4097)).not.toThrow();
+      } finally {
+        supported.mockRestore();
+      }
+    });
+
+    it('rejects content of a known size over the limit up front', () => {
+      const storage = new StorageService([new MemoryStorageProvider()], 'memory', 4096);
+      expect(() => storage.checkUploadSize(4096)).not.toThrow();
+      expect(() => storage.checkUploadSize(4097)).toThrow(
+        expect.objectContaining({ code: 'UPLOAD_TOO_LARGE' })
+      );
+    });
+  });
+});
@@ -1,157 +1,495 @@
 import { StorageError } from '../errors';
+import { MAX_STORAGE_PROVIDER_LENGTH } from '../program/accounts';
+import { supportsStreamingUploads } from '../storage/http';
+import { concatBytes } from '../utils/encoding';
+import { forkStream, readInput, toReadableStream } from '../utils/input';
+import { ProgressTracker, sliceToStream } from '../utils/progress';
+import type {
+  ByteRange,
+  CompletedPart,
+  FileInput,
+  MultipartUpload,
+  ProgressCallback,
+  StorageObjectInfo,
+  StorageProvider,
+  StorageUploadOptions,
+  UploadPart,
+} from '../types';
+
+/** Provider with all multipart upload methods */
+type MultipartStorageProvider = Required<
+  Pick<
+    StorageProvider,
+    'createMultipartUpload' | 'uploadPart' | 'completeMultipartUpload' | 'abortMultipartUpload'
+  >
+>;
 
 /**
  * Storage Service
- * Handles file upload/download to decentralized storage (IPFS/Arweave)
+ * Routes uploads and downloads to registered storage providers by name
  */
 export class StorageService {
-  private ipfsGateway: string;
-  private arweaveGateway: string;
-  private provider: 'ipfs' | 'arweave';
+  /** Default limit on streams buffered for providers that cannot stream uploads */
+  static readonly MAX_BUFFERED_UPLOAD_SIZE = 512 * 1024 * 1024;
+  /** Error codes kept when provider errors are wrapped */
+  private static readonly PRESERVED_CODES = ['NOT_FOUND', 'CID_MISMATCH', 'UPLOAD_TOO_LARGE'];
+
+  private providers = new Map<string, StorageProvider>();
+  private provider: string;
 
   constructor(
-    provider: 'ipfs' | 'arweave' = 'ipfs',
-    ipfsGateway = 'https://ipfs.io/ipfs/',
-    arweaveGateway = 'https://arweave.net/'
+    providers: StorageProvider[],
+    defaultProvider = providers[0]?.name,
+    private maxBufferedUploadSize = StorageService.MAX_BUFFERED_UPLOAD_SIZE
   ) {
-    this.provider = provider;
-    this.ipfsGateway = ipfsGateway;
-    this.arweaveGateway = arweaveGateway;
+    for (const provider of providers) {
+      this.register(provider);
+    }
+    this.provider = defaultProvider;
+    this.getStorageProvider(defaultProvider);
+  }
+
+  /**
+   * Register a storage provider, replacing any provider with the same name
+   */
+  register(provider: StorageProvider): void {
+    if (!provider.name || new TextEncoder().encode(provider.name).length > MAX_STORAGE_PROVIDER_LENGTH) {
+      throw new StorageError(
+        `Storage provider name must be 1-${MAX_STORAGE_PROVIDER_LENGTH} bytes`,
+        'INVALID_PROVIDER'
+      );
+    }
+    this.providers.set(provider.name, provider);
   }
 
   /**
-   * Upload encrypted data to storage
+   * Upload encrypted data to the default provider
+   * Progress counts bytes as the provider sends them where the runtime can
+   * stream request bodies; otherwise start and completion are reported.
+   * Arweave uploads need a data item signer in options.
    */
   async upload(
-    data: Uint8Array,
-    onProgress?: (progress: number) => void
+    input: FileInput,
+    onProgress?: ProgressCallback,
+    options: StorageUploadOptions = {}
   ): Promise<string> {
+    const provider = this.getStorageProvider();
     try {
-      if (this.provider === 'ipfs') {
-        return await this.uploadToIPFS(data, onProgress);
+      const data = await readInput(input);
+      const progress = new ProgressTracker('upload', onProgress, data.length);
+      const expectedCid = options.expectedCid ?? (await provider.computeCid?.(data));
+
+      let cid: string;
+      if (onProgress && this.canStream(provider)) {
+        cid = await provider.uploadStream(
+          sliceToStream(data).pipeThrough(progress.transform()),
+          options
+        );
       } else {
-        return await this.uploadToArweave(data, onProgress);
+        progress.start();
+        cid = await provider.upload(data, options);
+        progress.complete(data.length);
       }
+      return this.checkCid(provider.name, cid, expectedCid);
     } catch (error) {
-      throw new StorageError(
-        `Failed to upload to ${this.provider}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'UPLOAD_FAILED'
-      );
+      throw this.toStorageError('upload to', provider.name, error, 'UPLOAD_FAILED');
     }
   }
 
   /**
-   * Download data from storage by CID
+   * Download data by CID
+   * Defaults to the configured provider; pass the provider recorded on-chain
+   * to read files stored elsewhere
    */
   async download(
     cid: string,
-    onProgress?: (progress: number) => void
+    onProgress?: ProgressCallback,
+    provider: string = this.provider
   ): Promise<Uint8Array> {
+    const storage = this.getStorageProvider(provider);
     try {
-      if (this.provider === 'ipfs') {
-        return await this.downloadFromIPFS(cid, onProgress);
-      } else {
-        return await this.downloadFromArweave(cid, onProgress);
+      if (!onProgress) {
+        return await storage.download(cid);
       }
+      return await readInput(await this.openDownloadStream(storage, cid, onProgress));
     } catch (error) {
-      throw new StorageError(
-        `Failed to download from ${this.provider}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'DOWNLOAD_FAILED'
-      );
+      throw this.toStorageError('download from', provider, error, 'DOWNLOAD_FAILED');
     }
   }
 
   /**
-   * Upload to IPFS
+   * Upload an encrypted stream to the default provider, counting bytes as they are sent
+   * Providers without stream support, and all providers in runtimes that
+   * cannot send stream bodies (browsers), receive the buffered data, up to
+   * maxBufferedUploadSize bytes; longer streams fail with UPLOAD_TOO_LARGE as
+   * soon as they pass it.
    */
-  private async uploadToIPFS(
-    data: Uint8Array,
-    onProgress?: (progress: number) => void
+  async uploadStream(
+    input: FileInput,
+    options: StorageUploadOptions = {},
+    onProgress?: ProgressCallback
   ): Promise<string> {
-    // Create FormData with the file
-    const formData = new FormData();
-    const blob = new Blob([data]);
-    formData.append('file', blob);
+    const provider = this.getStorageProvider();
+    try {
+      const stream = await toReadableStream(input);
+      const progress = new ProgressTracker('upload', onProgress);
+
+      if (this.canStream(provider)) {
+        let upload = onProgress ? stream.pipeThrough(progress.transform()) : stream;
+        let expectedCid: Promise<string | undefined> = Promise.resolve(options.expectedCid);
 
-    // Upload to IPFS gateway (using public gateway or custom endpoint)
-    const uploadEndpoint = process.env.NEXT_PUBLIC_STORAGE_API_URL || 'https://upload.sgp.runfc.space';
-    
-    const response = await fetch(`${uploadEndpoint}/upload/image`, {
-      method: 'POST',
-      body: formData,
-    });
+        // Hash a copy of the stream while it uploads
+        if (!options.expectedCid && provider.computeCid) {
+          const [main, copy] = forkStream(upload);
+          upload = main;
+          expectedCid = provider.computeCid(copy);
+        }
 
-    if (!response.ok) {
-      throw new Error(`IPFS upload failed: ${response.statusText}`);
+        const [cid, expected] = await Promise.all([
+          provider.uploadStream(upload, options),
+          expectedCid,
+        ]);
+        return this.checkCid(provider.name, cid, expected);
+      }
+
+      const data = await this.readBuffered(stream, provider.name);
+      const expectedCid = options.expectedCid ?? (await provider.computeCid?.(data));
+      progress.setTotal(data.length);
+      progress.start();
+      const cid = await provider.upload(data, options);
+      progress.complete(data.length);
+      return this.checkCid(provider.name, cid, expectedCid);
+    } catch (error) {
+      throw this.toStorageError('upload to', provider.name, error, 'UPLOAD_FAILED');
     }
+  }
 
-    const result = await response.json();
-    
-    // Return the CID or file URL
-    return result.id || result.cid || result.url;
+  /**
+   * Fail with UPLOAD_TOO_LARGE before reading content of a known size that
+   * uploadStream would have to buffer past maxBufferedUploadSize
+   */
+  checkUploadSize(size: number, provider: string = this.provider): void {
+    if (!this.canStream(this.getStorageProvider(provider)) && size > this.maxBufferedUploadSize) {
+      throw new StorageError(
+        `${provider} cannot stream uploads, and streams over ` +
+          `${this.maxBufferedUploadSize} bytes are not buffered`,
+        'UPLOAD_TOO_LARGE'
+      );
+    }
   }
 
   /**
-   * Download from IPFS
+   * Download data by CID as a stream, counting bytes as they are read
+   * Pass a range to read part of the content
    */
-  private async downloadFromIPFS(
+  async downloadStream(
     cid: string,
-    onProgress?: (progress: number) => void
-  ): Promise<Uint8Array> {
-    const url = `${this.ipfsGateway}${cid}`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`IPFS download failed: ${response.statusText}`);
+    provider: string = this.provider,
+    onProgress?: ProgressCallback,
+    range?: ByteRange
+  ): Promise<ReadableStream<Uint8Array>> {
+    const storage = this.getStorageProvider(provider);
+    try {
+      return await this.openDownloadStream(storage, cid, onProgress, range);
+    } catch (error) {
+      throw this.toStorageError('download from', provider, error, 'DOWNLOAD_FAILED');
+    }
+  }
+
+  /**
+   * Start a multipart upload on a provider (the default provider when not given)
+   */
+  async createMultipartUpload(
+    options: StorageUploadOptions = {},
+    provider: string = this.provider
+  ): Promise<MultipartUpload> {
+    const storage = this.getMultipartProvider(provider);
+    try {
+      return await storage.createMultipartUpload(options);
+    } catch (error) {
+      throw this.toStorageError('start upload to', provider, error, 'UPLOAD_FAILED');
     }
+  }
 
-    const arrayBuffer = await response.arrayBuffer();
-    return new Uint8Array(arrayBuffer);
+  /**
+   * Upload one part of a multipart upload, returning its ETag
+   */
+  async uploadPart(
+    upload: MultipartUpload,
+    part: UploadPart,
+    provider: string = this.provider
+  ): Promise<string> {
+    const storage = this.getMultipartProvider(provider);
+    try {
+      return await storage.uploadPart(upload, part);
+    } catch (error) {
+      throw this.toStorageError(
+        `upload part ${part.partNumber} to`,
+        provider,
+        error,
+        'UPLOAD_FAILED'
+      );
+    }
   }
 
   /**
-   * Upload to Arweave
+   * Complete a multipart upload, returning the content identifier
    */
-  private async uploadToArweave(
-    data: Uint8Array,
-    onProgress?: (progress: number) => void
+  async completeMultipartUpload(
+    upload: MultipartUpload,
+    parts: CompletedPart[],
+    provider: string = this.provider
   ): Promise<string> {
-    // Placeholder for Arweave upload implementation
-    // This would require Arweave wallet and transaction signing
-    throw new StorageError('Arweave upload not yet implemented', 'NOT_IMPLEMENTED');
+    const storage = this.getMultipartProvider(provider);
+    try {
+      return await storage.completeMultipartUpload(upload, parts);
+    } catch (error) {
+      throw this.toStorageError('complete upload to', provider, error, 'UPLOAD_FAILED');
+    }
   }
 
   /**
-   * Download from Arweave
+   * Abort a multipart upload, discarding its parts
    */
-  private async downloadFromArweave(
-    txId: string,
-    onProgress?: (progress: number) => void
-  ): Promise<Uint8Array> {
-    const url = `${this.arweaveGateway}${txId}`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Arweave download failed: ${response.statusText}`);
+  async abortMultipartUpload(
+    upload: MultipartUpload,
+    provider: string = this.provider
+  ): Promise<void> {
+    const storage = this.getMultipartProvider(provider);
+    try {
+      await storage.abortMultipartUpload(upload);
+    } catch (error) {
+      throw this.toStorageError('abort upload to', provider, error, 'UPLOAD_FAILED');
     }
+  }
+
+  /**
+   * Compute the content identifier a provider would assign to data, without
+   * uploading it
+   */
+  async computeCid(input: FileInput, provider: string = this.provider): Promise<string> {
+    const storage = this.getStorageProvider(provider);
+    if (!storage.computeCid) {
+      throw new StorageError(
+        `Storage provider ${provider} cannot compute content identifiers`,
+        'NOT_SUPPORTED'
+      );
+    }
+
+    try {
+      return await storage.computeCid(
+        input instanceof Uint8Array ? input : await toReadableStream(input)
+      );
+    } catch (error) {
+      throw this.toStorageError('compute CID for', provider, error, 'CID_FAILED');
+    }
+  }
 
-    const arrayBuffer = await response.arrayBuffer();
-    return new Uint8Array(arrayBuffer);
+  /**
+   * Check whether a provider can compute content identifiers locally
+   */
+  supportsComputeCid(provider: string = this.provider): boolean {
+    return !!this.getStorageProvider(provider).computeCid;
   }
 
   /**
-   * Get storage provider
+   * Check whether a provider supports multipart uploads
    */
-  getProvider(): 'ipfs' | 'arweave' {
+  supportsMultipartUpload(provider: string = this.provider): boolean {
+    const storage = this.getStorageProvider(provider);
+    return !!(
+      storage.createMultipartUpload &&
+      storage.uploadPart &&
+      storage.completeMultipartUpload &&
+      storage.abortMultipartUpload
+    );
+  }
+
+  /**
+   * Smallest multipart part size a provider accepts, except for the last part
+   */
+  getMinPartSize(provider: string = this.provider): number {
+    return this.getStorageProvider(provider).minPartSize ?? 0;
+  }
+
+  /**
+   * Check whether content is stored
+   */
+  async exists(cid: string, provider: string = this.provider): Promise<boolean> {
+    const storage = this.getStorageProvider(provider);
+    try {
+      return await storage.exists(cid);
+    } catch (error) {
+      throw this.toStorageError('check', provider, error, 'EXISTS_FAILED');
+    }
+  }
+
+  /**
+   * Delete or unpin content
+   */
+  async delete(cid: string, provider: string = this.provider): Promise<void> {
+    const storage = this.getStorageProvider(provider);
+    try {
+      await storage.delete(cid);
+    } catch (error) {
+      throw this.toStorageError('delete from', provider, error, 'DELETE_FAILED');
+    }
+  }
+
+  /**
+   * Describe stored content without reading it
+   */
+  async head(cid: string, provider: string = this.provider): Promise<StorageObjectInfo> {
+    const storage = this.getStorageProvider(provider);
+    try {
+      return await storage.head(cid);
+    } catch (error) {
+      throw this.toStorageError('inspect', provider, error, 'HEAD_FAILED');
+    }
+  }
+
+  /**
+   * Get a registered provider (the default provider when no name is given)
+   */
+  getStorageProvider(name: string = this.provider): StorageProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new StorageError(`Unknown storage provider: ${name}`, 'UNKNOWN_PROVIDER');
+    }
+    return provider;
+  }
+
+  /**
+   * Get the default storage provider name
+   */
+  getProvider(): string {
     return this.provider;
   }
 
   /**
-   * Set storage provider
+   * Set the default storage provider by name
    */
-  setProvider(provider: 'ipfs' | 'arweave'): void {
+  setProvider(provider: string): void {
+    this.getStorageProvider(provider);
     this.provider = provider;
   }
+
+  /**
+   * Get a provider that supports multipart uploads
+   */
+  private getMultipartProvider(name: string): MultipartStorageProvider {
+    if (!this.supportsMultipartUpload(name)) {
+      throw new StorageError(
+        `Storage provider ${name} does not support multipart uploads`,
+        'NOT_SUPPORTED'
+      );
+    }
+    return this.getStorageProvider(name) as MultipartStorageProvider;
+  }
+
+  /**
+   * Whether a provider can take a stream without buffering it here
+   * Runtimes that cannot send stream request bodies get buffered uploads.
+   */
+  private canStream(
+    provider: StorageProvider
+  ): provider is StorageProvider & Required<Pick<StorageProvider, 'uploadStream'>> {
+    return !!provider.uploadStream && supportsStreamingUploads();
+  }
+
+  /**
+   * Open a download stream, reporting progress against the size from head when available
+   */
+  private async openDownloadStream(
+    storage: StorageProvider,
+    cid: string,
+    onProgress?: ProgressCallback,
+    range?: ByteRange
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (!storage.downloadStream) {
+      let data = await storage.download(cid);
+      if (range) {
+        data = data.subarray(range.start, range.end);
+      }
+      return onProgress
+        ? sliceToStream(data).pipeThrough(
+            new ProgressTracker('download', onProgress, data.length).transform()
+          )
+        : await toReadableStream(data);
+    }
+
+    if (!onProgress) {
+      return await storage.downloadStream(cid, range);
+    }
+
+    const bytesTotal = await storage.head(cid).then(
+      (info) =>
+        info.size === undefined
+          ? undefined
+          : Math.min(range?.end ?? info.size, info.size) - (range?.start ?? 0),
+      () => undefined
+    );
+    const stream = await storage.downloadStream(cid, range);
+    return stream.pipeThrough(new ProgressTracker('download', onProgress, bytesTotal).transform());
+  }
+
+  /**
+   * Reject a content identifier that differs from the one computed locally
+   */
+  private checkCid(provider: string, cid: string, expectedCid?: string): string {
+    if (expectedCid !== undefined && cid !== expectedCid) {
+      throw new StorageError(
+        `${provider} returned CID ${cid}, but the content has CID ${expectedCid}`,
+        'CID_MISMATCH'
+      );
+    }
+    return cid;
+  }
+
+  /**
+   * Read a stream for a provider without stream support, failing once it
+   * passes maxBufferedUploadSize
+   */
+  private async readBuffered(
+    stream: ReadableStream<Uint8Array>,
+    provider: string
+  ): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return concatBytes(...chunks);
+      }
+      length += value.length;
+      if (length > this.maxBufferedUploadSize) {
+        await reader.cancel().catch(() => undefined);
+        throw new StorageError(
+          `${provider} cannot stream uploads, and streams over ` +
+            `${this.maxBufferedUploadSize} bytes are not buffered`,
+          'UPLOAD_TOO_LARGE'
+        );
+      }
+      chunks.push(value);
+    }
+  }
+
+  /**
+   * Wrap a provider failure, keeping NOT_FOUND, CID_MISMATCH and
+   * UPLOAD_TOO_LARGE distinguishable
+   */
+  private toStorageError(
+    action: string,
+    provider: string,
+    error: unknown,
+    code: string
+  ): StorageError {
+    return new StorageError(
+      `Failed to ${action} ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof StorageError && StorageService.PRESERVED_CODES.includes(error.code ?? '')
+        ? error.code!
+        : code
+    );
+  }
 }
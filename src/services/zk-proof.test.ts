@@ -0,0 +1,192 @@
+import { join } from 'path';
+import { poseidon3 } from 'poseidon-lite';
+import { EncryptionService } from './encryption';
+import { ZKProofService } from './zk-proof';
+import { packHead, splitDataKey } from '../utils/content-hash';
+import { bytesToField, proveGroth16 } from '../utils/groth16';
+import type { CircuitArtifacts, ContentSchema, ZKProof } from '../types';
+
+const ARTIFACTS = join(__dirname, '../../circuits/artifacts');
+
+function artifacts(circuit: string): CircuitArtifacts {
+  return {
+    wasm: join(ARTIFACTS, `${circuit}.wasm`),
+    zkey: join(ARTIFACTS, `${circuit}.zkey`),
+    verificationKey: join(ARTIFACTS, `${circuit}_vkey.json`),
+  };
+}
+
+describe('ZKProofService', () => {
+  const zk = new ZKProofService({
+    ownership: artifacts('ownership'),
+    content: artifacts('content'),
+  });
+
+  describe('ownership proofs', () => {
+    const fileId = 'file-id';
+    let secret: string;
+    let commitment: Uint8Array;
+    let proof: ZKProof;
+
+    beforeAll(async () => {
+      secret = await zk.generateSecret();
+      commitment = await zk.computeOwnershipCommitment(fileId, secret);
+      proof = await zk.proveOwnership(fileId, secret, 'nonce');
+    }, 30_000);
+
+    it('proves knowledge of the committed secret without revealing it', async () => {
+      expect(proof.proof).toHaveLength(256);
+      expect(proof.publicInputs.subarray(0, 32)).toEqual(commitment);
+      expect(JSON.parse(new TextDecoder().decode(proof.verificationKey))).toMatchObject({
+        protocol: 'groth16',
+        curve: 'bn128',
+      });
+
+      expect(await zk.verifyOwnership(proof, fileId, { commitment, challenge: 'nonce' })).toBe(
+        true
+      );
+    });
+
+    it('rejects another challenge, file or commitment', async () => {
+      const otherCommitment = await zk.computeOwnershipCommitment(fileId, 'other secret');
+
+      expect(await zk.verifyOwnership(proof, fileId, { challenge: 'other' })).toBe(false);
+      expect(await zk.verifyOwnership(proof, 'other-file', { challenge: 'nonce' })).toBe(false);
+      expect(
+        await zk.verifyOwnership(proof, fileId, { commitment: otherCommitment, challenge: 'nonce' })
+      ).toBe(false);
+    });
+
+    it('rejects a proof altered after it was made', async () => {
+      const altered = { ...proof, proof: proof.proof.slice() };
+      altered.proof[255] ^= 1;
+
+      expect(await zk.verifyOwnership(altered, fileId, { challenge: 'nonce' })).toBe(false);
+    });
+
+    it('verifies with only the verification key', async () => {
+      const verifier = new ZKProofService({
+        ownership: { verificationKey: artifacts('ownership').verificationKey },
+      });
+
+      expect(await verifier.verifyOwnership(proof, fileId, { challenge: 'nonce' })).toBe(true);
+      await expect(verifier.proveOwnership(fileId, secret)).rejects.toMatchObject({
+        code: 'CIRCUIT_NOT_CONFIGURED',
+      });
+    });
+  });
+
+  describe('content proofs', () => {
+    const encryption = new EncryptionService();
+    const data = new Uint8Array(200).map((_, i) => (i * 7) % 256);
+    data.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const schema: ContentSchema = { minSize: 100, maxSize: 1000, mimeType: 'image/png' };
+    let ciphertext: Uint8Array;
+    let dataKey: Uint8Array;
+    let contentHash: Uint8Array;
+    let proof: ZKProof;
+
+    beforeAll(async () => {
+      const key = await encryption.generateKey();
+      ciphertext = encryption.combineEncryptedParts(
+        await encryption.encryptFile(data, 'correct horse battery staple', {}, key)
+      );
+      dataKey = await encryption.exportKey(key);
+      contentHash = await zk.computeContentHash(data);
+      proof = await zk.generateProof(data, schema, { dataKey, ciphertext });
+    }, 60_000);
+
+    it('verifies against the stored container, content hash and key commitment', async () => {
+      expect(
+        await zk.verifyProof(proof, {
+          ciphertext,
+          contentHash,
+          keyCommitment: zk.computeKeyCommitment(dataKey),
+          schema,
+        })
+      ).toBe(true);
+    });
+
+    it('rejects another container', async () => {
+      const tampered = ciphertext.slice();
+      tampered[tampered.length - 1] ^= 1;
+
+      expect(await zk.verifyProof(proof, { ciphertext: tampered, contentHash, schema })).toBe(
+        false
+      );
+    });
+
+    it('rejects another content hash, key commitment or schema', async () => {
+      const otherHash = await zk.computeContentHash(data.subarray(1));
+      const otherKey = zk.computeKeyCommitment(new Uint8Array(32));
+
+      expect(
+        await zk.verifyProof(proof, { ciphertext, contentHash: otherHash, schema })
+      ).toBe(false);
+      expect(
+        await zk.verifyProof(proof, { ciphertext, contentHash, keyCommitment: otherKey, schema })
+      ).toBe(false);
+      expect(
+        await zk.verifyProof(proof, {
+          ciphertext,
+          contentHash,
+          schema: { ...schema, mimeType: 'image/gif' },
+        })
+      ).toBe(false);
+    });
+
+    it('proves files that fit in the head', async () => {
+      const small = Uint8Array.of(0x1f, 0x8b, 8);
+      const smallSchema = { maxSize: 3, mimeType: 'application/gzip' };
+
+      const smallProof = await zk.generateProof(small, smallSchema, { dataKey, ciphertext });
+      expect(
+        await zk.verifyProof(smallProof, {
+          ciphertext,
+          contentHash: await zk.computeContentHash(small),
+          schema: smallSchema,
+        })
+      ).toBe(true);
+    }, 30_000);
+
+    it('refuses to prove a schema the content does not satisfy', async () => {
+      await expect(
+        zk.generateProof(data, { maxSize: 100 }, { dataKey, ciphertext })
+      ).rejects.toMatchObject({ code: 'SCHEMA_MISMATCH' });
+      await expect(
+        zk.generateProof(data, { mimeType: 'application/pdf' }, { dataKey, ciphertext })
+      ).rejects.toMatchObject({ code: 'SCHEMA_MISMATCH' });
+    });
+
+    it('has no witness for bytes past the end of the file', async () => {
+      const { wasm, zkey } = artifacts('content');
+      const witness = (head: Uint8Array) =>
+        proveGroth16(
+          {
+            keyCommitment: bytesToField(zk.computeKeyCommitment(dataKey)).toString(),
+            ciphertextHash: '0',
+            contentHash: poseidon3([packHead(head), 3n, 0n]).toString(),
+            minSize: '0',
+            maxSize: '3',
+            prefixLength: '0',
+            prefix: new Array(16).fill('0'),
+            key: splitDataKey(dataKey).map(String),
+            size: '3',
+            head: packHead(head).toString(),
+            tailHash: '0',
+          },
+          wasm!,
+          zkey!
+        );
+
+      await expect(witness(Uint8Array.of(1, 2, 3))).resolves.toBeDefined();
+      // The witness calculator logs the failed constraint
+      const log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      try {
+        await expect(witness(Uint8Array.of(1, 2, 3, 4))).rejects.toThrow();
+      } finally {
+        log.mockRestore();
+      }
+    }, 30_000);
+  });
+});
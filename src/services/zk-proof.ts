@@ -1,53 +1,425 @@
-import type { ZKProof } from '../types';
+import { poseidon2 } from 'poseidon-lite';
+import { ZKProofError } from '../errors';
+import { getCrypto } from '../utils/crypto';
+import { bytesEqual, toHex } from '../utils/encoding';
+import {
+  computeCiphertextHash,
+  computeContentHash,
+  computeKeyCommitment,
+  computeTailHash,
+  CONTENT_MAX_SIZE,
+  CONTENT_PREFIX_LENGTH,
+  packHead,
+  splitDataKey,
+} from '../utils/content-hash';
+import {
+  bytesToField,
+  decodeGroth16Proof,
+  decodePublicSignals,
+  encodeGroth16Proof,
+  encodePublicSignals,
+  fieldToBytes,
+  hashToField,
+  loadVerificationKey,
+  proveGroth16,
+  verifyGroth16,
+} from '../utils/groth16';
+import type {
+  CircuitArtifacts,
+  ContentClaim,
+  ContentProofInput,
+  ContentSchema,
+  ZKCircuits,
+  ZKProof,
+} from '../types';
+
+/** File signatures (magic bytes) by MIME type */
+const MIME_SIGNATURES: Record<string, number[]> = {
+  'application/gzip': [0x1f, 0x8b],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46, 0x2d],
+  'application/wasm': [0x00, 0x61, 0x73, 0x6d],
+  'application/zip': [0x50, 0x4b, 0x03, 0x04],
+  'image/gif': [0x47, 0x49, 0x46, 0x38],
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+};
 
 /**
  * ZK-Proof Service
  * Handles zero-knowledge proof generation and verification
- * Placeholder for future ZK-SNARK/ZK-STARK implementation
+ * Proofs are Groth16 proofs for the circuits in circuits/ (ownership of a
+ * Poseidon commitment, content of a stored file), using artifacts built from
+ * them with a trusted setup. Content proofs cover files as uploaded: the
+ * AES-GCM container at a CID and the data key it was encrypted with.
  */
 export class ZKProofService {
+  /** Ownership circuit public signals: commitment, file hash, challenge */
+  private static readonly OWNERSHIP_SIGNALS = 3;
   /**
-   * Generate a zero-knowledge proof
-   * @param data - Data to prove
-   * @param schema - Schema to validate against
+   * Content circuit public signals: key commitment, ciphertext hash, content
+   * hash, minimum and maximum size, prefix length and prefix bytes
    */
-  async generateProof(data: Uint8Array, schema?: unknown): Promise<ZKProof> {
-    // Placeholder implementation
-    // In production, this would use a ZK library like snarkjs or circom
-    return {
-      proof: new Uint8Array([0, 1, 2, 3]), // Placeholder proof
-      publicInputs: new Uint8Array([4, 5, 6, 7]), // Placeholder inputs
-    };
+  private static readonly CONTENT_SIGNALS = 6 + CONTENT_PREFIX_LENGTH;
+
+  private circuits: ZKCircuits;
+  private verificationKeys = new Map<keyof ZKCircuits, Promise<Record<string, unknown>>>();
+
+  constructor(circuits: ZKCircuits = {}) {
+    this.circuits = circuits;
+  }
+
+  /**
+   * Compute the content hash a content proof refers to:
+   * Poseidon(first 31 bytes, size, SHA-256 of the remaining bytes)
+   */
+  async computeContentHash(data: Uint8Array): Promise<Uint8Array> {
+    return await computeContentHash(data);
   }
 
   /**
-   * Verify a zero-knowledge proof
+   * Compute the commitment to a raw data key: Poseidon of its 128-bit halves
+   */
+  computeKeyCommitment(dataKey: Uint8Array): Uint8Array {
+    try {
+      return computeKeyCommitment(dataKey);
+    } catch (error) {
+      throw new ZKProofError(
+        error instanceof Error ? error.message : 'Invalid data key',
+        'INVALID_KEY'
+      );
+    }
+  }
+
+  /**
+   * Generate a zero-knowledge proof of the content of a stored file
+   * Proves knowledge of the data key behind the public key commitment and that
+   * the plaintext, with the public content hash, satisfies the schema, bound
+   * to the hash of the ciphertext as stored; neither the key nor the plaintext
+   * is revealed. AES-GCM is not evaluated in the circuit, so the caller must
+   * pass the ciphertext that `data` was decrypted from under `dataKey`.
+   * @param data - Plaintext
+   * @param schema - Plaintext properties to prove
+   * @param input - Data key and stored ciphertext
+   */
+  async generateProof(
+    data: Uint8Array,
+    schema: ContentSchema,
+    input: ContentProofInput
+  ): Promise<ZKProof> {
+    const { wasm, zkey } = this.requireProvingArtifacts('content');
+    const statement = this.resolveSchema(schema);
+    if (
+      data.length < statement.minSize ||
+      data.length > statement.maxSize ||
+      !bytesEqual(data.subarray(0, statement.prefix.length), statement.prefix)
+    ) {
+      throw new ZKProofError('Content does not match the schema', 'SCHEMA_MISMATCH');
+    }
+
+    const keyCommitment = this.computeKeyCommitment(input.dataKey);
+    const verificationKey = await this.encodeVerificationKey('content');
+
+    try {
+      const { proof, publicSignals } = await proveGroth16(
+        {
+          keyCommitment: bytesToField(keyCommitment).toString(),
+          ciphertextHash: bytesToField(await computeCiphertextHash(input.ciphertext)).toString(),
+          contentHash: bytesToField(await computeContentHash(data)).toString(),
+          ...this.schemaSignals(statement),
+          key: splitDataKey(input.dataKey).map(String),
+          size: data.length.toString(),
+          head: packHead(data).toString(),
+          tailHash: (await computeTailHash(data)).toString(),
+        },
+        wasm,
+        zkey
+      );
+
+      return {
+        proof: encodeGroth16Proof(proof),
+        publicInputs: encodePublicSignals(publicSignals),
+        verificationKey,
+      };
+    } catch (error) {
+      throw new ZKProofError(
+        `Failed to generate content proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'PROOF_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Verify a zero-knowledge proof of the content of a stored file
+   * Checks the proof against the configured verification key, the hash of the
+   * ciphertext as stored, the advertised content hash, the schema and, when
+   * given, the key commitment. Runs offline. Whoever later receives the data
+   * key confirms that the ciphertext decrypts to that content by comparing
+   * computeContentHash of the decrypted file with the proven hash.
    * @param proof - Proof to verify
+   * @param claim - Statement the proof must establish
+   */
+  async verifyProof(proof: ZKProof, claim: ContentClaim): Promise<boolean> {
+    const verificationKey = await this.getVerificationKey('content');
+    const statement = this.resolveSchema(claim.schema ?? {});
+
+    let signals: string[];
+    try {
+      signals = decodePublicSignals(proof.publicInputs);
+    } catch {
+      return false;
+    }
+
+    const [keyCommitment, ciphertextHash, contentHash, ...schemaSignals] = signals;
+    const expectedSchema = this.schemaSignals(statement);
+    if (
+      signals.length !== ZKProofService.CONTENT_SIGNALS ||
+      BigInt(ciphertextHash) !== bytesToField(await computeCiphertextHash(claim.ciphertext)) ||
+      BigInt(contentHash) !== bytesToField(claim.contentHash) ||
+      (claim.keyCommitment && BigInt(keyCommitment) !== bytesToField(claim.keyCommitment)) ||
+      schemaSignals.join() !==
+        [
+          expectedSchema.minSize,
+          expectedSchema.maxSize,
+          expectedSchema.prefixLength,
+          ...expectedSchema.prefix,
+        ].join()
+    ) {
+      return false;
+    }
+
+    return await this.verifyGroth16Proof('content', verificationKey, signals, proof.proof);
+  }
+
+  /**
+   * Generate a random ownership secret
    */
-  async verifyProof(proof: ZKProof): Promise<boolean> {
-    // Placeholder implementation
-    // In production, this would verify the proof cryptographically
-    return proof.proof.length > 0 && proof.publicInputs.length > 0;
+  async generateSecret(): Promise<string> {
+    const webCrypto = await getCrypto();
+    return toHex(webCrypto.getRandomValues(new Uint8Array(32)));
+  }
+
+  /**
+   * Compute the commitment to an ownership secret for a file: Poseidon(secret, fileHash)
+   * Strings are mapped to field elements by hashing; the result is 32 big-endian bytes.
+   */
+  async computeOwnershipCommitment(fileHash: string, secret: string): Promise<Uint8Array> {
+    return fieldToBytes(poseidon2([await hashToField(secret), await hashToField(fileHash)]));
   }
 
   /**
    * Generate proof of file ownership without revealing content
+   * Proves knowledge of the secret behind the file's ownership commitment
+   * without revealing the secret. A verifier-chosen challenge prevents replay.
+   */
+  async proveOwnership(fileHash: string, secret: string, challenge?: string): Promise<ZKProof> {
+    const { wasm, zkey } = this.requireProvingArtifacts('ownership');
+    const verificationKey = await this.encodeVerificationKey('ownership');
+
+    try {
+      const { proof, publicSignals } = await proveGroth16(
+        {
+          secret: (await hashToField(secret)).toString(),
+          fileHash: (await hashToField(fileHash)).toString(),
+          challenge: (await this.challengeToField(challenge)).toString(),
+        },
+        wasm,
+        zkey
+      );
+
+      return {
+        proof: encodeGroth16Proof(proof),
+        publicInputs: encodePublicSignals(publicSignals),
+        verificationKey,
+      };
+    } catch (error) {
+      throw new ZKProofError(
+        `Failed to generate ownership proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'PROOF_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Verify ownership proof
+   * Checks the proof against the configured verification key (never the one
+   * carried in the proof), the file hash, the challenge and, when given, the
+   * expected commitment. Runs offline.
+   */
+  async verifyOwnership(
+    proof: ZKProof,
+    fileHash: string,
+    options: { commitment?: Uint8Array; challenge?: string } = {}
+  ): Promise<boolean> {
+    const verificationKey = await this.getVerificationKey('ownership');
+
+    let signals: string[];
+    try {
+      signals = decodePublicSignals(proof.publicInputs);
+    } catch {
+      return false;
+    }
+    if (signals.length !== ZKProofService.OWNERSHIP_SIGNALS) {
+      return false;
+    }
+
+    const [commitment, proofFileHash, proofChallenge] = signals.map(BigInt);
+    if (
+      proofFileHash !== (await hashToField(fileHash)) ||
+      proofChallenge !== (await this.challengeToField(options.challenge)) ||
+      (options.commitment && !bytesEqual(fieldToBytes(commitment), options.commitment))
+    ) {
+      return false;
+    }
+
+    return await this.verifyGroth16Proof('ownership', verificationKey, signals, proof.proof);
+  }
+
+  /**
+   * Get the wasm and zkey a circuit's proofs are generated with
+   */
+  private requireProvingArtifacts(circuit: keyof ZKCircuits): {
+    wasm: string | Uint8Array;
+    zkey: string | Uint8Array;
+  } {
+    const { wasm, zkey } = this.circuits[circuit] ?? {};
+    if (!wasm || !zkey) {
+      throw new ZKProofError(
+        `${circuit} circuit wasm and zkey artifacts not configured`,
+        'CIRCUIT_NOT_CONFIGURED'
+      );
+    }
+    return { wasm, zkey };
+  }
+
+  /**
+   * Verify a proof's Groth16 part; a malformed proof is invalid
    */
-  async proveOwnership(fileHash: string, secret: string): Promise<ZKProof> {
-    // Placeholder - would use actual ZK circuit
-    const combined = new TextEncoder().encode(fileHash + secret);
+  private async verifyGroth16Proof(
+    circuit: keyof ZKCircuits,
+    verificationKey: Record<string, unknown>,
+    signals: string[],
+    proof: Uint8Array
+  ): Promise<boolean> {
+    let groth16Proof;
+    try {
+      groth16Proof = decodeGroth16Proof(proof);
+    } catch {
+      return false;
+    }
+
+    try {
+      return await verifyGroth16(verificationKey, signals, groth16Proof);
+    } catch (error) {
+      throw new ZKProofError(
+        `Failed to verify ${circuit} proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VERIFY_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Verification key to attach to a proof, when one is configured
+   */
+  private async encodeVerificationKey(circuit: keyof ZKCircuits): Promise<Uint8Array | undefined> {
+    if (!this.circuits[circuit]?.verificationKey) {
+      return undefined;
+    }
+    return new TextEncoder().encode(JSON.stringify(await this.getVerificationKey(circuit)));
+  }
+
+  /**
+   * Resolve a schema into the size bounds and prefix a content proof fixes
+   */
+  private resolveSchema(schema: ContentSchema): {
+    minSize: number;
+    maxSize: number;
+    prefix: Uint8Array;
+  } {
+    const minSize = schema.minSize ?? 0;
+    const maxSize = schema.maxSize ?? CONTENT_MAX_SIZE;
+    if (
+      !Number.isInteger(minSize) ||
+      !Number.isInteger(maxSize) ||
+      minSize < 0 ||
+      maxSize < minSize ||
+      maxSize > CONTENT_MAX_SIZE
+    ) {
+      throw new ZKProofError('Invalid schema size bounds', 'INVALID_SCHEMA');
+    }
+    if (schema.prefix && schema.mimeType) {
+      throw new ZKProofError('Schema takes a prefix or a MIME type, not both', 'INVALID_SCHEMA');
+    }
+
+    let prefix = schema.prefix ?? new Uint8Array(0);
+    if (schema.mimeType) {
+      const signature = MIME_SIGNATURES[schema.mimeType.toLowerCase()];
+      if (!signature) {
+        throw new ZKProofError(
+          `No file signature known for ${schema.mimeType}`,
+          'UNSUPPORTED_MIME_TYPE'
+        );
+      }
+      prefix = new Uint8Array(signature);
+    }
+    if (prefix.length > CONTENT_PREFIX_LENGTH) {
+      throw new ZKProofError(
+        `Schema prefix exceeds ${CONTENT_PREFIX_LENGTH} bytes`,
+        'INVALID_SCHEMA'
+      );
+    }
+
+    return { minSize, maxSize, prefix };
+  }
+
+  /**
+   * Content circuit signals for a resolved schema
+   */
+  private schemaSignals(statement: { minSize: number; maxSize: number; prefix: Uint8Array }): {
+    minSize: string;
+    maxSize: string;
+    prefixLength: string;
+    prefix: string[];
+  } {
+    const prefix = new Uint8Array(CONTENT_PREFIX_LENGTH);
+    prefix.set(statement.prefix);
     return {
-      proof: combined,
-      publicInputs: new TextEncoder().encode(fileHash),
+      minSize: statement.minSize.toString(),
+      maxSize: statement.maxSize.toString(),
+      prefixLength: statement.prefix.length.toString(),
+      prefix: Array.from(prefix, String),
     };
   }
 
   /**
-   * Verify ownership proof
+   * Load (once) the verification key of a circuit
+   */
+  private async getVerificationKey(circuit: keyof ZKCircuits): Promise<Record<string, unknown>> {
+    const artifacts: CircuitArtifacts | undefined = this.circuits[circuit];
+    if (!artifacts?.verificationKey) {
+      throw new ZKProofError(
+        `${circuit} circuit verification key not configured`,
+        'CIRCUIT_NOT_CONFIGURED'
+      );
+    }
+
+    let verificationKey = this.verificationKeys.get(circuit);
+    if (!verificationKey) {
+      verificationKey = loadVerificationKey(artifacts.verificationKey).catch((error) => {
+        this.verificationKeys.delete(circuit);
+        throw new ZKProofError(
+          `Failed to load ${circuit} verification key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'CIRCUIT_NOT_CONFIGURED'
+        );
+      });
+      this.verificationKeys.set(circuit, verificationKey);
+    }
+    return await verificationKey;
+  }
+
+  /**
+   * Map a challenge to a field element; no challenge is zero
    */
-  async verifyOwnership(proof: ZKProof, fileHash: string): Promise<boolean> {
-    // Placeholder verification
-    const publicInputsStr = new TextDecoder().decode(proof.publicInputs);
-    return publicInputsStr === fileHash;
+  private async challengeToField(challenge?: string): Promise<bigint> {
+    return challenge === undefined ? 0n : await hashToField(challenge);
   }
 }
@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { ArweaveProvider } from './arweave';
+import { deepHash, SIGNATURE_TYPES, walletDataItemSigner } from '../utils/data-item';
+import { toBase64Url, toHex } from '../utils/encoding';
+import type { DataItemSigner, DataItemTag, WalletAdapter } from '../types';
+
+interface ParsedDataItem {
+  signatureType: number;
+  signature: Uint8Array;
+  owner: Uint8Array;
+  target: Uint8Array;
+  anchor: Uint8Array;
+  tagBytes: Uint8Array;
+  tags: DataItemTag[];
+  data: Uint8Array;
+}
+
+/** Parse a serialized ANS-104 data item with ed25519-sized signature and owner */
+function parseDataItem(raw: Buffer): ParsedDataItem {
+  let offset = 0;
+  const take = (length: number) => new Uint8Array(raw.subarray(offset, (offset += length)));
+  const optional = () => (take(1)[0] === 1 ? take(32) : new Uint8Array(0));
+
+  const signatureType = raw.readUInt16LE(0);
+  offset = 2;
+  const signature = take(64);
+  const owner = take(32);
+  const target = optional();
+  const anchor = optional();
+  const tagCount = Number(raw.readBigUInt64LE(offset));
+  const tagLength = Number(raw.readBigUInt64LE(offset + 8));
+  offset += 16;
+  const tagBytes = take(tagLength);
+  const data = new Uint8Array(raw.subarray(offset));
+
+  // Avro array of { name: bytes, value: bytes }, lengths as zigzag varints
+  let tagOffset = 0;
+  const varint = () => {
+    let value = 0;
+    let shift = 1;
+    for (;;) {
+      const byte = tagBytes[tagOffset++];
+      value += (byte & 0x7f) * shift;
+      if (byte < 0x80) return value / 2;
+      shift *= 128;
+    }
+  };
+  const text = () => {
+    const length = varint();
+    return Buffer.from(tagBytes.subarray(tagOffset, (tagOffset += length))).toString();
+  };
+  const tags: DataItemTag[] = [];
+  if (tagCount > 0) {
+    const blockCount = varint();
+    for (let i = 0; i < blockCount; i++) {
+      tags.push({ name: text(), value: text() });
+    }
+    varint();
+  }
+
+  return { signatureType, signature, owner, target, anchor, tagBytes, tags, data };
+}
+
+/** Check a data item's signature as a bundler would */
+async function verifyDataItem(item: ParsedDataItem): Promise<boolean> {
+  const message = await deepHash([
+    new TextEncoder().encode('dataitem'),
+    new TextEncoder().encode('1'),
+    new TextEncoder().encode(item.signatureType.toString()),
+    item.owner,
+    item.target,
+    item.anchor,
+    item.tagBytes,
+    item.data,
+  ]);
+  const signed =
+    item.signatureType === SIGNATURE_TYPES.solana
+      ? new TextEncoder().encode(toHex(message))
+      : message;
+  return nacl.sign.detached.verify(signed, item.signature, item.owner);
+}
+
+/** Bundler accepting data items that verify, and a gateway serving them by ID */
+function createBundlerStub() {
+  const items = new Map<string, ParsedDataItem>();
+  const requests: string[] = [];
+  // Answer with an ID that is not the data item's
+  const stub = { forgeId: false };
+
+  const readBody = async (request: IncomingMessage) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  const server = createServer(async (request, response) => {
+    requests.push(`${request.method} ${request.url}`);
+    const body = await readBody(request);
+
+    if (request.method === 'POST' && request.url === '/tx/solana') {
+      const item = parseDataItem(body);
+      if (!(await verifyDataItem(item))) {
+        response.writeHead(400);
+        return response.end('Invalid signature');
+      }
+      const id = stub.forgeId
+        ? toBase64Url(new Uint8Array(32))
+        : toBase64Url(createHash('sha256').update(item.signature).digest());
+      items.set(id, item);
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      return response.end(JSON.stringify({ id }));
+    }
+
+    const item = items.get(request.url!.slice(1));
+    if (!item) {
+      response.writeHead(404);
+      return response.end();
+    }
+    response.writeHead(200, { 'Content-Length': item.data.length });
+    response.end(request.method === 'HEAD' ? undefined : Buffer.from(item.data));
+  });
+
+  return Object.assign(stub, { server, items, requests });
+}
+
+function keypairSigner(keypair: nacl.SignKeyPair): DataItemSigner {
+  return {
+    signatureType: SIGNATURE_TYPES.ed25519,
+    publicKey: keypair.publicKey,
+    sign: async (message) => nacl.sign.detached(message, keypair.secretKey),
+  };
+}
+
+describe('ArweaveProvider', () => {
+  const data = new TextEncoder().encode('encrypted bytes');
+  let stub: ReturnType<typeof createBundlerStub>;
+  let provider: ArweaveProvider;
+
+  beforeAll(async () => {
+    stub = createBundlerStub();
+    await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+    const { port } = stub.server.address() as AddressInfo;
+    provider = new ArweaveProvider({
+      bundlerUrl: `http://127.0.0.1:${port}`,
+      gatewayUrl: `http://127.0.0.1:${port}/`,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => (stub.server as Server).close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.items.clear();
+    stub.requests.length = 0;
+  });
+
+  it('posts a signed ed25519 data item with the ZKFile tags', async () => {
+    const keypair = nacl.sign.keyPair();
+    const id = await provider.upload(data, {
+      signer: keypairSigner(keypair),
+      tags: [{ name: 'File-Version', value: '2' }],
+    });
+
+    expect(stub.requests).toEqual(['POST /tx/solana']);
+    const item = stub.items.get(id)!;
+    expect(item.signatureType).toBe(SIGNATURE_TYPES.ed25519);
+    expect(Buffer.from(item.owner).equals(keypair.publicKey)).toBe(true);
+    expect(item.tags).toEqual([
+      { name: 'Content-Type', value: 'application/octet-stream' },
+      { name: 'App-Name', value: 'ZKFile' },
+      { name: 'File-Version', value: '2' },
+    ]);
+    expect(item.data).toEqual(data);
+    expect(await provider.download(id)).toEqual(data);
+    expect(await provider.exists(id)).toBe(true);
+  });
+
+  it('signs with a Solana wallet through signMessage', async () => {
+    const keypair = Keypair.generate();
+    const wallet: WalletAdapter = {
+      publicKey: keypair.publicKey,
+      signMessage: async (message) => nacl.sign.detached(message, keypair.secretKey),
+    };
+
+    const id = await provider.upload(data, { signer: walletDataItemSigner(wallet) });
+
+    const item = stub.items.get(id)!;
+    expect(item.signatureType).toBe(SIGNATURE_TYPES.solana);
+    expect(Buffer.from(item.owner).equals(keypair.publicKey.toBuffer())).toBe(true);
+  });
+
+  it('fails when the bundler rejects the signature', async () => {
+    const keypair = nacl.sign.keyPair();
+    const signer: DataItemSigner = {
+      ...keypairSigner(keypair),
+      publicKey: nacl.sign.keyPair().publicKey,
+    };
+
+    await expect(provider.upload(data, { signer })).rejects.toMatchObject({
+      code: 'REQUEST_FAILED',
+    });
+    expect(stub.items.size).toBe(0);
+  });
+
+  it('rejects a bundler reporting another data item ID', async () => {
+    stub.forgeId = true;
+    try {
+      await expect(
+        provider.upload(data, { signer: keypairSigner(nacl.sign.keyPair()) })
+      ).rejects.toMatchObject({ code: 'CID_MISMATCH' });
+    } finally {
+      stub.forgeId = false;
+    }
+  });
+
+  it('requires a signer', async () => {
+    await expect(provider.upload(data)).rejects.toMatchObject({ code: 'MISSING_SIGNER' });
+    expect(stub.requests).toEqual([]);
+  });
+
+  it('does not delete permanent data', async () => {
+    await expect(provider.delete()).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
+});
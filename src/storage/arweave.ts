@@ -0,0 +1,114 @@
+import { StorageError } from '../errors';
+import { createDataItem } from '../utils/data-item';
+import type {
+  ByteRange,
+  DataItemTag,
+  StorageObjectInfo,
+  StorageProvider,
+  StorageUploadOptions,
+} from '../types';
+import {
+  headInfo,
+  joinUrl,
+  rangeHeaders,
+  rangedResponseStream,
+  request,
+  responseBytes,
+  urlExists,
+} from './http';
+
+/**
+ * Arweave provider options
+ */
+export interface ArweaveProviderOptions {
+  /** Provider name (default 'arweave') */
+  name?: string;
+  /** Gateway URL used for reads (default https://arweave.net/) */
+  gatewayUrl?: string;
+  /** ANS-104 bundler URL (default https://uploader.irys.xyz) */
+  bundlerUrl?: string;
+}
+
+/**
+ * Arweave storage via signed ANS-104 data items posted to a bundler
+ * Uploads need a data item signer in the upload options. Arweave data is
+ * permanent, so delete is not supported.
+ */
+export class ArweaveProvider implements StorageProvider {
+  /** Tags added to every data item */
+  private static readonly TAGS: DataItemTag[] = [
+    { name: 'Content-Type', value: 'application/octet-stream' },
+    { name: 'App-Name', value: 'ZKFile' },
+  ];
+
+  readonly name: string;
+
+  private gatewayUrl: string;
+  private bundlerUrl: string;
+
+  constructor(options: ArweaveProviderOptions = {}) {
+    this.name = options.name ?? 'arweave';
+    this.gatewayUrl = options.gatewayUrl ?? 'https://arweave.net/';
+    this.bundlerUrl = options.bundlerUrl ?? 'https://uploader.irys.xyz';
+  }
+
+  async upload(data: Uint8Array, options: StorageUploadOptions = {}): Promise<string> {
+    if (!options.signer) {
+      throw new StorageError('Arweave uploads require a data item signer', 'MISSING_SIGNER');
+    }
+
+    const dataItem = await createDataItem(data, options.signer, {
+      tags: [...ArweaveProvider.TAGS, ...(options.tags ?? [])],
+    });
+
+    const response = await request(
+      joinUrl(this.bundlerUrl, 'tx/solana'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: dataItem.raw as BlobPart,
+      },
+      'Bundler upload'
+    );
+
+    // The ID is the hash of our signature, so any other ID names other content
+    const result = (await response.json()) as { id?: string };
+    if (result.id !== undefined && result.id !== dataItem.id) {
+      throw new StorageError(
+        `Bundler returned data item ID ${result.id}, but the signed item has ID ${dataItem.id}`,
+        'CID_MISMATCH'
+      );
+    }
+    return dataItem.id;
+  }
+
+  async download(txId: string): Promise<Uint8Array> {
+    return await responseBytes(
+      await request(joinUrl(this.gatewayUrl, txId), {}, 'Arweave download')
+    );
+  }
+
+  async downloadStream(txId: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const response = await request(
+      joinUrl(this.gatewayUrl, txId),
+      { headers: rangeHeaders(range) },
+      'Arweave download'
+    );
+    return rangedResponseStream(response, range);
+  }
+
+  async exists(txId: string): Promise<boolean> {
+    return await urlExists(joinUrl(this.gatewayUrl, txId));
+  }
+
+  async delete(): Promise<void> {
+    throw new StorageError('Arweave data is permanent and cannot be deleted', 'NOT_SUPPORTED');
+  }
+
+  async head(txId: string): Promise<StorageObjectInfo> {
+    return headInfo(
+      txId,
+      await request(joinUrl(this.gatewayUrl, txId), { method: 'HEAD' }, 'Arweave head')
+    );
+  }
+}
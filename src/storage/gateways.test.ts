@@ -0,0 +1,131 @@
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { IpfsGatewayClient } from './gateways';
+import { CODECS, createCid, encodeCidBytes, encodeVarint, formatCid } from '../utils/cid';
+import { concatBytes } from '../utils/encoding';
+
+const CAR_TYPE = 'application/vnd.ipld.car; version=1';
+
+/** CARv1 holding a single block; the reader skips the header, so any bytes do */
+function carOf(cidBytes: Uint8Array, block: Uint8Array): Buffer {
+  const header = new TextEncoder().encode('header');
+  const frame = concatBytes(cidBytes, block);
+  return Buffer.from(
+    concatBytes(encodeVarint(header.length), header, encodeVarint(frame.length), frame)
+  );
+}
+
+/**
+ * Gateways on one server, routed by the first path segment:
+ * good serves the block, broken answers 502, tampered serves altered bytes,
+ * missing answers 404 and slow never answers
+ */
+function createGatewayStub(cid: string, car: Buffer, tamperedCar: Buffer) {
+  const requests: string[] = [];
+
+  const server = createServer((request, response) => {
+    const [, gateway, path] = /^\/([^/]+)\/([^?]*)/.exec(request.url!)!;
+    requests.push(gateway);
+
+    if (gateway === 'slow') {
+      return;
+    }
+    if (gateway === 'broken') {
+      response.writeHead(502);
+      return response.end('Bad Gateway');
+    }
+    if (gateway === 'missing' || path !== cid) {
+      response.writeHead(404);
+      return response.end();
+    }
+    response.writeHead(200, { 'Content-Type': CAR_TYPE });
+    response.end(gateway === 'tampered' ? tamperedCar : car);
+  });
+
+  return { server, requests };
+}
+
+describe('IpfsGatewayClient', () => {
+  const data = new TextEncoder().encode('content addressed bytes');
+  let cid: string;
+  let stub: ReturnType<typeof createGatewayStub>;
+  let url: (gateway: string) => string;
+
+  beforeAll(async () => {
+    const parsed = await createCid(CODECS.raw, data);
+    cid = formatCid(parsed);
+    const cidBytes = encodeCidBytes(parsed);
+    stub = createGatewayStub(
+      cid,
+      carOf(cidBytes, data),
+      carOf(cidBytes, new TextEncoder().encode('content addressed bytez'))
+    );
+    await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+    const { port } = stub.server.address() as AddressInfo;
+    url = (gateway) => `http://127.0.0.1:${port}/${gateway}/`;
+  });
+
+  afterAll(async () => {
+    stub.server.closeAllConnections();
+    await new Promise((resolve) => (stub.server as Server).close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  it('fails over from a broken gateway and ranks it last', async () => {
+    const client = new IpfsGatewayClient([url('broken'), url('good')], { retries: 0 });
+
+    expect(await client.readBytes(cid)).toEqual(data);
+    expect(stub.requests).toEqual(['broken', 'good']);
+
+    const health = client.getHealth();
+    expect(health.map((gateway) => gateway.url)).toEqual([url('good'), url('broken')]);
+    expect(health[1]).toMatchObject({ failures: 1, successes: 0 });
+
+    stub.requests.length = 0;
+    expect(await client.readBytes(cid)).toEqual(data);
+    expect(stub.requests).toEqual(['good']);
+  });
+
+  it('fails over from a gateway serving content that does not match the CID', async () => {
+    const client = new IpfsGatewayClient([url('tampered'), url('good')], { retries: 0 });
+
+    expect(await client.readBytes(cid)).toEqual(data);
+    expect(stub.requests).toEqual(['tampered', 'good']);
+    expect(client.getHealth()[1]).toMatchObject({ url: url('tampered'), failures: 1 });
+  });
+
+  it('fails over from a gateway that times out', async () => {
+    const client = new IpfsGatewayClient([url('slow'), url('good')], {
+      retries: 0,
+      timeout: 100,
+    });
+
+    const stream = await client.read(cid);
+    expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(data);
+    expect(stub.requests).toEqual(['slow', 'good']);
+  });
+
+  it('retries with backoff before giving up', async () => {
+    const client = new IpfsGatewayClient([url('broken'), url('tampered')], {
+      retries: 1,
+      retryDelay: 10,
+    });
+
+    await expect(client.readBytes(cid)).rejects.toMatchObject({
+      code: 'INTEGRITY_CHECK_FAILED',
+    });
+    expect(stub.requests).toHaveLength(4);
+  });
+
+  it('reports content missing from every gateway as not found', async () => {
+    const client = new IpfsGatewayClient([url('missing'), url('good')], { retries: 0 });
+    const absent = formatCid(await createCid(CODECS.raw, new Uint8Array(1)));
+
+    await expect(client.readBytes(absent)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(await client.exists(absent)).toBe(false);
+    expect(client.getHealth().every((gateway) => gateway.failures === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,480 @@
+import { StorageError } from '../errors';
+import { CarBlockReader } from '../utils/car';
+import { CODECS, MULTIHASH_CODES, multihashKey, parseCid, verifyMultihash } from '../utils/cid';
+import type { Cid } from '../utils/cid';
+import { decodeDagPbNode, decodeUnixFsData, UNIXFS_TYPES } from '../utils/unixfs';
+import type { ByteRange, GatewayHealth, GatewayOptions, StorageObjectInfo } from '../types';
+import { readInput } from '../utils/input';
+import {
+  headInfo,
+  joinUrl,
+  rangeHeaders,
+  rangedResponseStream,
+  request,
+  responseStream,
+} from './http';
+
+/**
+ * HTTP gateway pool with health scoring, failover or racing, timeouts and
+ * exponential backoff, plus verified reads of IPFS content
+ */
+
+/**
+ * Pool of interchangeable HTTP gateways
+ * Gateways are tried in order of health: a success moves a gateway's score
+ * towards 1 and a failure towards 0, and ties go to the lower latency.
+ * A 404 says nothing about a gateway's health and is not scored.
+ */
+export class GatewayPool {
+  private static readonly DEFAULT_TIMEOUT = 30_000;
+  private static readonly DEFAULT_RETRIES = 2;
+  private static readonly DEFAULT_RETRY_DELAY = 500;
+  private static readonly MAX_RETRY_DELAY = 8_000;
+  /** Gateways raced at once with the 'race' strategy */
+  private static readonly RACE_WIDTH = 3;
+  /** Weight of the latest outcome in a gateway's score */
+  private static readonly SCORE_WEIGHT = 0.3;
+
+  private gateways: GatewayHealth[];
+  private strategy: 'failover' | 'race';
+  private timeout: number;
+  private retries: number;
+  private retryDelay: number;
+
+  constructor(urls: string[], options: GatewayOptions = {}) {
+    if (urls.length === 0) {
+      throw new StorageError('At least one gateway URL is required', 'NOT_CONFIGURED');
+    }
+
+    this.gateways = urls.map((url) => ({ url, score: 1, successes: 0, failures: 0 }));
+    this.strategy = options.strategy ?? 'failover';
+    this.timeout = options.timeout ?? GatewayPool.DEFAULT_TIMEOUT;
+    this.retries = options.retries ?? GatewayPool.DEFAULT_RETRIES;
+    this.retryDelay = options.retryDelay ?? GatewayPool.DEFAULT_RETRY_DELAY;
+  }
+
+  /**
+   * Request a path from the healthiest gateways until one succeeds
+   * `use` runs inside the attempt, so a response it rejects (e.g. content that
+   * fails verification) counts against the gateway and the next one is tried.
+   * The timeout covers the wait for response headers.
+   */
+  async request<T>(
+    path: string,
+    init: RequestInit,
+    action: string,
+    use: (response: Response, gateway: string) => Promise<T>
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let round = 0; round <= this.retries; round++) {
+      if (round > 0) {
+        const delay = Math.min(this.retryDelay * 2 ** (round - 1), GatewayPool.MAX_RETRY_DELAY);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      const ordered = this.ranked();
+      const width = this.strategy === 'race' ? GatewayPool.RACE_WIDTH : 1;
+      let notFound = 0;
+
+      for (let i = 0; i < ordered.length; i += width) {
+        const errors: unknown[] = [];
+        const group = ordered.slice(i, i + width);
+        const result = await this.race(group, path, init, action, use, errors);
+        if (result) {
+          return result.value;
+        }
+        notFound += errors.filter(isNotFound).length;
+        lastError = errors[errors.length - 1];
+      }
+
+      // Every gateway answered 404: the content is missing, not the gateways
+      if (notFound === ordered.length) {
+        throw new StorageError(`${action} failed: content not found on any gateway`, 'NOT_FOUND');
+      }
+    }
+
+    throw new StorageError(
+      `${action} failed on all gateways: ${
+        lastError instanceof Error ? lastError.message : 'Unknown error'
+      }`,
+      lastError instanceof StorageError ? lastError.code : 'REQUEST_FAILED'
+    );
+  }
+
+  /**
+   * Record a failure noticed after a request succeeded, e.g. while streaming
+   */
+  recordFailure(url: string): void {
+    const gateway = this.gateways.find((candidate) => candidate.url === url);
+    if (gateway) {
+      gateway.failures++;
+      gateway.score *= 1 - GatewayPool.SCORE_WEIGHT;
+    }
+  }
+
+  /**
+   * Current gateway health, healthiest first
+   */
+  getHealth(): GatewayHealth[] {
+    return this.ranked().map((gateway) => ({ ...gateway }));
+  }
+
+  /**
+   * Start the request on every gateway in the group; the first success wins
+   * and the others are aborted. Resolves to null, with the failures collected
+   * in `errors`, when none succeeds.
+   */
+  private race<T>(
+    group: GatewayHealth[],
+    path: string,
+    init: RequestInit,
+    action: string,
+    use: (response: Response, gateway: string) => Promise<T>,
+    errors: unknown[]
+  ): Promise<{ value: T } | null> {
+    const controllers = group.map(() => new AbortController());
+    let winner: number | undefined;
+
+    return new Promise((resolve) => {
+      group.forEach(async (gateway, i) => {
+        const controller = controllers[i];
+        const timer = setTimeout(() => controller.abort(), this.timeout);
+        const started = Date.now();
+
+        try {
+          const response = await request(
+            joinUrl(gateway.url, path),
+            { ...init, signal: controller.signal },
+            action
+          );
+          clearTimeout(timer);
+          const value = await use(response, gateway.url);
+
+          if (winner === undefined) {
+            winner = i;
+            this.recordSuccess(gateway, Date.now() - started);
+            controllers.forEach((other, j) => j !== i && other.abort());
+            resolve({ value });
+          }
+        } catch (error) {
+          clearTimeout(timer);
+          if (winner !== undefined) {
+            return;
+          }
+          if (!isNotFound(error)) {
+            this.recordFailure(gateway.url);
+          }
+          errors.push(
+            controller.signal.aborted
+              ? new StorageError(`${action} timed out after ${this.timeout}ms`, 'TIMEOUT')
+              : error
+          );
+          if (errors.length === group.length) {
+            resolve(null);
+          }
+        }
+      });
+    });
+  }
+
+  private recordSuccess(gateway: GatewayHealth, latency: number): void {
+    gateway.successes++;
+    gateway.score = gateway.score * (1 - GatewayPool.SCORE_WEIGHT) + GatewayPool.SCORE_WEIGHT;
+    gateway.latency =
+      gateway.latency === undefined
+        ? latency
+        : Math.round(
+            gateway.latency * (1 - GatewayPool.SCORE_WEIGHT) + latency * GatewayPool.SCORE_WEIGHT
+          );
+  }
+
+  private ranked(): GatewayHealth[] {
+    return [...this.gateways].sort(
+      (a, b) => b.score - a.score || (a.latency ?? Infinity) - (b.latency ?? Infinity)
+    );
+  }
+}
+
+/**
+ * Reads IPFS content through a gateway pool
+ * With verification on (the default), content is fetched as a CAR and every
+ * block is checked against its CID, so a gateway cannot serve altered bytes.
+ */
+export class IpfsGatewayClient {
+  private pool: GatewayPool;
+  private verify: boolean;
+
+  constructor(urls: string[], options: GatewayOptions = {}) {
+    this.pool = new GatewayPool(urls, options);
+    this.verify = options.verify ?? true;
+  }
+
+  /**
+   * Stream content, or a byte range of it
+   * A stream that fails part way counts against its gateway, so a retry of
+   * the remaining range goes to the next-best one.
+   */
+  async read(cid: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    if (!this.verify) {
+      return await this.pool.request(
+        cid,
+        { headers: rangeHeaders(range) },
+        'IPFS download',
+        async (response, gateway) =>
+          this.trackFailures(rangedResponseStream(response, range), gateway)
+      );
+    }
+
+    const root = parseVerifiableCid(cid);
+    const { path, init } = carRequest(cid, range);
+    return await this.pool.request(path, init, 'IPFS download', async (response, gateway) => {
+      assertCarResponse(response);
+      return this.trackFailures(verifiedCarStream(root, responseStream(response), range), gateway);
+    });
+  }
+
+  /**
+   * Read content into memory
+   * The whole body is read, and verified, before a gateway counts as successful.
+   */
+  async readBytes(cid: string): Promise<Uint8Array> {
+    const root = this.verify ? parseVerifiableCid(cid) : undefined;
+    const { path, init } = root ? carRequest(cid) : { path: cid, init: {} };
+
+    return await this.pool.request(path, init, 'IPFS download', async (response) => {
+      if (!root) {
+        return new Uint8Array(await response.arrayBuffer());
+      }
+      assertCarResponse(response);
+      return await readInput(verifiedCarStream(root, responseStream(response)));
+    });
+  }
+
+  async head(cid: string): Promise<StorageObjectInfo> {
+    return await this.pool.request(cid, { method: 'HEAD' }, 'IPFS head', async (response) =>
+      headInfo(cid, response)
+    );
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    try {
+      return await this.pool.request(cid, { method: 'HEAD' }, 'IPFS head', async () => true);
+    } catch (error) {
+      if (error instanceof StorageError && error.code === 'NOT_FOUND') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  getHealth(): GatewayHealth[] {
+    return this.pool.getHealth();
+  }
+
+  /**
+   * Pass a stream through, recording a failure against the gateway if it errors
+   */
+  private trackFailures(
+    stream: ReadableStream<Uint8Array>,
+    gateway: string
+  ): ReadableStream<Uint8Array> {
+    const reader = stream.getReader();
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          this.pool.recordFailure(gateway);
+          throw error;
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+  }
+}
+
+/**
+ * Request options for a verifiable (trustless) gateway read of a CID
+ * The gateway returns a CAR with the blocks of the file, or of the requested
+ * byte range, in depth-first order.
+ */
+function carRequest(cid: string, range?: ByteRange): { path: string; init: RequestInit } {
+  const params = new URLSearchParams({ format: 'car', 'dag-scope': 'entity' });
+  if (range) {
+    params.set(
+      'entity-bytes',
+      `${range.start}:${range.end === undefined ? '*' : Math.max(range.end - 1, range.start)}`
+    );
+  }
+
+  return {
+    path: `${cid}?${params}`,
+    init: { headers: { Accept: 'application/vnd.ipld.car; version=1; order=dfs' } },
+  };
+}
+
+/**
+ * Verify a CAR response against a CID and stream the file bytes it holds
+ * Every block is hashed and checked against the CID that links to it, so the
+ * output is exactly the content the CID names.
+ */
+function verifiedCarStream(
+  root: Cid,
+  car: ReadableStream<Uint8Array>,
+  range?: ByteRange
+): ReadableStream<Uint8Array> {
+  const start = range?.start ?? 0;
+  const end = range?.end ?? Infinity;
+  const reader = new CarBlockReader(car);
+  const blocks = new Map<string, Uint8Array>();
+  // Blocks still to visit, with the file offset each one starts at
+  const pending: Array<{ cid: Cid; offset: number }> = [{ cid: root, offset: 0 }];
+
+  const load = async (target: Cid): Promise<Uint8Array> => {
+    if (target.multihash.code === MULTIHASH_CODES.identity) {
+      return target.multihash.digest;
+    }
+
+    const key = multihashKey(target.multihash);
+    for (;;) {
+      const bytes = blocks.get(key);
+      if (bytes) {
+        blocks.delete(key);
+        return bytes;
+      }
+
+      const block = await reader.next();
+      if (!block) {
+        throw new StorageError('Gateway response is missing blocks', 'INTEGRITY_CHECK_FAILED');
+      }
+      if (!(await verifyMultihash(block.cid.multihash, block.bytes))) {
+        throw new StorageError(
+          'Gateway returned a block that does not match its CID',
+          'INTEGRITY_CHECK_FAILED'
+        );
+      }
+      blocks.set(multihashKey(block.cid.multihash), block.bytes);
+    }
+  };
+
+  // Clip data at a file offset to the requested range
+  const clip = (data: Uint8Array, offset: number): Uint8Array =>
+    data.subarray(Math.max(start - offset, 0), Math.max(Math.min(end - offset, data.length), 0));
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        for (;;) {
+          const next = pending.pop();
+          if (!next) {
+            await reader.cancel();
+            controller.close();
+            return;
+          }
+
+          const bytes = await load(next.cid);
+          if (next.cid.codec === CODECS.raw) {
+            const data = clip(bytes, next.offset);
+            if (data.length > 0) {
+              controller.enqueue(data);
+              return;
+            }
+            continue;
+          }
+          if (next.cid.codec !== CODECS.dagPb) {
+            throw new StorageError(
+              `Unsupported IPLD codec: 0x${next.cid.codec.toString(16)}`,
+              'INTEGRITY_CHECK_FAILED'
+            );
+          }
+
+          const node = decodeDagPbNode(bytes);
+          const unixfs = decodeUnixFsData(node.data ?? new Uint8Array(0));
+          if (unixfs.type !== UNIXFS_TYPES.file && unixfs.type !== UNIXFS_TYPES.raw) {
+            throw new StorageError('Content is not a UnixFS file', 'INTEGRITY_CHECK_FAILED');
+          }
+
+          // Queue children in reverse so they are visited in file order, skipping
+          // subtrees outside the range
+          let childOffset = next.offset + (unixfs.data?.length ?? 0);
+          const children: Array<{ cid: Cid; offset: number }> = [];
+          node.links.forEach((link, i) => {
+            const size = unixfs.blockSizes[i] ?? Infinity;
+            if (childOffset < end && childOffset + size > start) {
+              children.push({ cid: link.cid, offset: childOffset });
+            }
+            childOffset += size;
+          });
+          pending.push(...children.reverse());
+
+          const data = unixfs.data ? clip(unixfs.data, next.offset) : new Uint8Array(0);
+          if (data.length > 0) {
+            controller.enqueue(data);
+            return;
+          }
+        }
+      } catch (error) {
+        await reader.cancel();
+        if (error instanceof StorageError) {
+          throw error;
+        }
+        throw new StorageError(
+          `Invalid gateway response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'INTEGRITY_CHECK_FAILED'
+        );
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
+
+/**
+ * Parse a CID for verification; raw and dag-pb (UnixFS) content addressed with
+ * sha2-256 or identity multihashes can be verified
+ */
+function parseVerifiableCid(cid: string): Cid {
+  let root: Cid;
+  try {
+    root = parseCid(cid);
+  } catch (error) {
+    throw new StorageError(
+      `Invalid CID ${cid}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'INVALID_CID'
+    );
+  }
+
+  if (
+    !Object.values(CODECS).includes(root.codec) ||
+    !Object.values(MULTIHASH_CODES).includes(root.multihash.code)
+  ) {
+    throw new StorageError(
+      `Cannot verify ${cid}: unsupported codec or hash function`,
+      'UNVERIFIABLE_CID'
+    );
+  }
+  return root;
+}
+
+/**
+ * Reject gateways that answer a CAR request with something else
+ */
+function assertCarResponse(response: Response): void {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.startsWith('application/vnd.ipld.car')) {
+    throw new StorageError(
+      `Gateway does not support verifiable CAR responses (got ${contentType || 'no content type'})`,
+      'UNSUPPORTED_RESPONSE'
+    );
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof StorageError && error.code === 'NOT_FOUND';
+}
@@ -0,0 +1,210 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { StorageError } from '../errors';
+import { getCrypto } from '../utils/crypto';
+import { toHex } from '../utils/encoding';
+import type { ByteRange } from '../types';
+
+/**
+ * HTTP and hashing helpers shared by the built-in storage providers
+ */
+
+/**
+ * Fetch a URL, failing on non-2xx responses
+ * Stream bodies are sent in half-duplex mode, as Node's fetch requires
+ */
+export async function request(url: string, init: RequestInit, action: string): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    ...(init.body instanceof ReadableStream ? { duplex: 'half' } : {}),
+  } as RequestInit);
+
+  if (!response.ok) {
+    throw new StorageError(
+      `${action} failed: ${response.status} ${response.statusText}`,
+      response.status === 404 ? 'NOT_FOUND' : 'REQUEST_FAILED'
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Get a response body as a stream
+ */
+export function responseStream(response: Response): ReadableStream<Uint8Array> {
+  if (!response.body) {
+    throw new StorageError('Response has no body', 'REQUEST_FAILED');
+  }
+  return response.body;
+}
+
+/**
+ * Range request header for a byte range, if any
+ */
+export function rangeHeaders(range?: ByteRange): Record<string, string> {
+  if (!range) {
+    return {};
+  }
+  return { Range: `bytes=${range.start}-${range.end === undefined ? '' : range.end - 1}` };
+}
+
+/**
+ * Get a ranged response body as a stream
+ * Servers that ignore Range reply 200 with the whole content, which is trimmed here
+ */
+export function rangedResponseStream(
+  response: Response,
+  range?: ByteRange
+): ReadableStream<Uint8Array> {
+  const stream = responseStream(response);
+  if (!range || response.status === 206) {
+    return stream;
+  }
+  return stream.pipeThrough(sliceTransform(range));
+}
+
+/**
+ * TransformStream that passes through only the bytes of a range
+ */
+export function sliceTransform(range: ByteRange): TransformStream<Uint8Array, Uint8Array> {
+  const end = range.end ?? Infinity;
+  let offset = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const from = Math.max(range.start - offset, 0);
+      const to = Math.min(end - offset, chunk.length);
+      offset += chunk.length;
+      if (to > from) {
+        controller.enqueue(chunk.subarray(from, to));
+      }
+    },
+  });
+}
+
+/**
+ * Read a response body into memory
+ */
+export async function responseBytes(response: Response): Promise<Uint8Array> {
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Describe content from HEAD response headers
+ */
+export function headInfo(cid: string, response: Response): { cid: string; size?: number; contentType?: string } {
+  const length = response.headers.get('content-length');
+  return {
+    cid,
+    size: length === null ? undefined : Number(length),
+    contentType: response.headers.get('content-type') ?? undefined,
+  };
+}
+
+/**
+ * Check whether a URL resolves, treating 404 as absent
+ */
+export async function urlExists(url: string, init: RequestInit = {}): Promise<boolean> {
+  const response = await fetch(url, { ...init, method: 'HEAD' });
+  if (response.status === 404) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new StorageError(
+      `Existence check failed: ${response.status} ${response.statusText}`,
+      'REQUEST_FAILED'
+    );
+  }
+  return true;
+}
+
+/**
+ * Build a single-part multipart/form-data body; streams are wrapped without buffering
+ */
+export async function createMultipartBody(
+  data: Uint8Array | ReadableStream<Uint8Array>
+): Promise<{ body: BodyInit; contentType?: string }> {
+  if (!(data instanceof ReadableStream)) {
+    const formData = new FormData();
+    formData.append('file', new Blob([data as BlobPart]));
+    return { body: formData };
+  }
+
+  const webCrypto = await getCrypto();
+  const boundary = `----zkfile${toHex(webCrypto.getRandomValues(new Uint8Array(12)))}`;
+  const encoder = new TextEncoder();
+  const reader = data.getReader();
+  let started = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      if (!started) {
+        started = true;
+        controller.enqueue(
+          encoder.encode(
+            `--${boundary}\r\n` +
+              'Content-Disposition: form-data; name="file"; filename="blob"\r\n' +
+              'Content-Type: application/octet-stream\r\n\r\n'
+          )
+        );
+        return;
+      }
+
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.enqueue(encoder.encode(`\r\n--${boundary}--\r\n`));
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/**
+ * Content identifier for non-IPFS backends: hex SHA-256 of the data
+ * Streams are hashed incrementally rather than buffered.
+ */
+export async function sha256Hex(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+  if (data instanceof Uint8Array) {
+    const webCrypto = await getCrypto();
+    return toHex(new Uint8Array(await webCrypto.subtle.digest('SHA-256', data as BufferSource)));
+  }
+
+  const hash = sha256.create();
+  const reader = data.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return toHex(hash.digest());
+    }
+    hash.update(value);
+  }
+}
+
+/**
+ * Check that a content identifier is a plain token safe to use as a key or file name
+ */
+export function assertSafeCid(cid: string): void {
+  if (!/^[A-Za-z0-9_-]+$/.test(cid)) {
+    throw new StorageError(`Invalid content identifier: ${cid}`, 'INVALID_CID');
+  }
+}
+
+/**
+ * Join a base URL and a path with exactly one slash
+ */
+export function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Whether fetch can send a stream body in this runtime
+ * Node.js can; browsers only do so over HTTP/2, so they are treated as unable.
+ */
+export function supportsStreamingUploads(): boolean {
+  return typeof process !== 'undefined' && !!process.versions?.node;
+}
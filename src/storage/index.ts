@@ -0,0 +1,16 @@
+/**
+ * Built-in storage providers
+ */
+
+export { IpfsProvider } from './ipfs';
+export type { IpfsProviderOptions } from './ipfs';
+export { PinningServiceProvider } from './pinning';
+export type { PinningServiceProviderOptions } from './pinning';
+export { S3Provider } from './s3';
+export type { S3ProviderOptions } from './s3';
+export { LocalFileSystemProvider } from './local';
+export type { LocalFileSystemProviderOptions } from './local';
+export { MemoryStorageProvider } from './memory';
+export { ArweaveProvider } from './arweave';
+export type { ArweaveProviderOptions } from './arweave';
+export { GatewayPool, IpfsGatewayClient } from './gateways';
@@ -0,0 +1,274 @@
+import { StorageError } from '../errors';
+import { getCrypto } from '../utils/crypto';
+import { toHex } from '../utils/encoding';
+import { computeCid, UNIXFS_CHUNK_SIZE } from '../utils/unixfs-importer';
+import type {
+  ByteRange,
+  CidOptions,
+  CompletedPart,
+  GatewayHealth,
+  GatewayOptions,
+  MultipartUpload,
+  StorageObjectInfo,
+  StorageProvider,
+  UploadPart,
+} from '../types';
+import { IpfsGatewayClient } from './gateways';
+import {
+  createMultipartBody,
+  joinUrl,
+  request,
+  responseBytes,
+  responseStream,
+  sha256Hex,
+} from './http';
+
+/**
+ * IPFS provider options
+ */
+export interface IpfsProviderOptions {
+  /** Provider name (default 'ipfs') */
+  name?: string;
+  /** IPFS HTTP API (Kubo RPC) URL, e.g. http://127.0.0.1:5001; required for writes */
+  apiUrl?: string;
+  /** Gateway URL used for reads instead of the API, e.g. https://ipfs.io/ipfs/ */
+  gatewayUrl?: string;
+  /** Gateway URLs used for reads instead of the API, tried by health */
+  gatewayUrls?: string[];
+  /** How the gateways are tried and whether their content is verified */
+  gatewayOptions?: GatewayOptions;
+  /** Extra headers for API requests, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** UnixFS layout of added content; set maxLinks to match a node's Import.UnixFSFileMaxLinks */
+  cidOptions?: CidOptions;
+}
+
+/**
+ * IPFS provider backed by the IPFS HTTP API (Kubo RPC) and/or gateways
+ * Uploads are added as CIDv1 and pinned, and computeCid predicts their CID
+ * locally so the node's answer can be checked; delete unpins. Multipart uploads
+ * write parts at their offsets into an MFS file, which is pinned on completion.
+ * Gateway reads are verified against the CID unless verification is turned off.
+ */
+export class IpfsProvider implements StorageProvider {
+  private static readonly UPLOAD_DIRECTORY = '/zkfile-uploads';
+
+  readonly name: string;
+
+  private apiUrl?: string;
+  private gateways?: IpfsGatewayClient;
+  private headers: Record<string, string>;
+  private cidOptions: CidOptions;
+
+  constructor(options: IpfsProviderOptions = {}) {
+    this.name = options.name ?? 'ipfs';
+    this.apiUrl = options.apiUrl;
+    const gatewayUrls = options.gatewayUrls ?? (options.gatewayUrl ? [options.gatewayUrl] : []);
+    if (gatewayUrls.length > 0) {
+      this.gateways = new IpfsGatewayClient(gatewayUrls, options.gatewayOptions);
+    }
+    this.headers = options.headers ?? {};
+    this.cidOptions = options.cidOptions ?? {};
+  }
+
+  async upload(data: Uint8Array): Promise<string> {
+    return await this.add(data);
+  }
+
+  async uploadStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+    return await this.add(stream);
+  }
+
+  async computeCid(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+    return await computeCid(data, this.cidOptions);
+  }
+
+  async download(cid: string): Promise<Uint8Array> {
+    if (this.gateways) {
+      return await this.gateways.readBytes(cid);
+    }
+    return await responseBytes(await this.cat(cid));
+  }
+
+  async downloadStream(cid: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    if (this.gateways) {
+      return await this.gateways.read(cid, range);
+    }
+    return responseStream(await this.cat(cid, range));
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    if (!this.apiUrl) {
+      return await this.requireGateways().exists(cid);
+    }
+
+    const response = await fetch(this.rpcUrl('pin/ls', { arg: cid, type: 'recursive' }), {
+      method: 'POST',
+      headers: this.headers,
+    });
+    if (response.ok) {
+      return true;
+    }
+
+    const message = await response.text();
+    if (message.includes('not pinned')) {
+      return false;
+    }
+    throw new StorageError(`IPFS pin lookup failed: ${message}`, 'REQUEST_FAILED');
+  }
+
+  async delete(cid: string): Promise<void> {
+    await this.rpc('pin/rm', { arg: cid }, 'IPFS unpin');
+  }
+
+  async head(cid: string): Promise<StorageObjectInfo> {
+    if (this.gateways || !this.apiUrl) {
+      return await this.requireGateways().head(cid);
+    }
+
+    const response = await this.rpc('files/stat', { arg: `/ipfs/${cid}` }, 'IPFS stat');
+    const stat = (await response.json()) as { Size?: number; CumulativeSize?: number };
+    return { cid, size: stat.Size || stat.CumulativeSize };
+  }
+
+  /**
+   * Recent health of the read gateways, healthiest first
+   */
+  getGatewayHealth(): GatewayHealth[] {
+    return this.gateways?.getHealth() ?? [];
+  }
+
+  async createMultipartUpload(): Promise<MultipartUpload> {
+    const webCrypto = await getCrypto();
+    return { uploadId: toHex(webCrypto.getRandomValues(new Uint8Array(16))) };
+  }
+
+  async uploadPart(upload: MultipartUpload, part: UploadPart): Promise<string> {
+    const { body, contentType } = await createMultipartBody(part.data);
+    await this.rpc(
+      'files/write',
+      {
+        arg: this.uploadPath(upload),
+        offset: String(part.offset),
+        create: 'true',
+        parents: 'true',
+        'cid-version': '1',
+        'raw-leaves': 'true',
+      },
+      'IPFS part upload',
+      { body, headers: contentType ? { 'Content-Type': contentType } : {} }
+    );
+    return await sha256Hex(part.data);
+  }
+
+  /**
+   * Pin the assembled MFS file, returning the CID the node reports for it
+   * The CID cannot be checked against a local one: MFS appends build a trickle
+   * DAG whose leaves follow the write offsets, unlike the balanced layout of
+   * `ipfs add`, and predicting it would need the node's DAG modifier. Swapped,
+   * dropped or altered parts still fail to decrypt, since every chunk of the
+   * container is authenticated with its index and whether it is the last.
+   */
+  async completeMultipartUpload(upload: MultipartUpload, parts: CompletedPart[]): Promise<string> {
+    if (parts.length === 0) {
+      throw new StorageError('Multipart upload has no parts', 'UPLOAD_FAILED');
+    }
+
+    const path = this.uploadPath(upload);
+    const response = await this.rpc('files/stat', { arg: path }, 'IPFS stat');
+    const stat = (await response.json()) as { Hash?: string };
+    if (!stat.Hash) {
+      throw new StorageError('IPFS stat returned no CID', 'UPLOAD_FAILED');
+    }
+
+    await this.rpc('pin/add', { arg: stat.Hash }, 'IPFS pin');
+    await this.rpc('files/rm', { arg: path }, 'IPFS upload cleanup');
+    return stat.Hash;
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    await this.rpc(
+      'files/rm',
+      { arg: this.uploadPath(upload), force: 'true' },
+      'IPFS upload cleanup'
+    );
+  }
+
+  /**
+   * Add and pin content through the API
+   */
+  private async add(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+    const { body, contentType } = await createMultipartBody(data);
+    const response = await this.rpc(
+      'add',
+      {
+        'cid-version': '1',
+        'raw-leaves': 'true',
+        chunker: `size-${this.cidOptions.chunkSize ?? UNIXFS_CHUNK_SIZE}`,
+        pin: 'true',
+      },
+      'IPFS upload',
+      { body, headers: contentType ? { 'Content-Type': contentType } : {} }
+    );
+
+    const result = (await response.json()) as { Hash?: string };
+    if (!result.Hash) {
+      throw new StorageError('IPFS upload returned no CID', 'UPLOAD_FAILED');
+    }
+    return result.Hash;
+  }
+
+  /**
+   * Read content through the API
+   */
+  private async cat(cid: string, range?: ByteRange): Promise<Response> {
+    const args: Record<string, string> = { arg: cid };
+    if (range) {
+      args.offset = String(range.start);
+      if (range.end !== undefined) {
+        args.length = String(range.end - range.start);
+      }
+    }
+    return await this.rpc('cat', args, 'IPFS download');
+  }
+
+  /**
+   * MFS path of a multipart upload, confined to the upload directory
+   */
+  private uploadPath(upload: MultipartUpload): string {
+    if (!/^[0-9a-f]+$/.test(upload.uploadId)) {
+      throw new StorageError(`Invalid upload ID: ${upload.uploadId}`, 'INVALID_UPLOAD');
+    }
+    return `${IpfsProvider.UPLOAD_DIRECTORY}/${upload.uploadId}`;
+  }
+
+  /**
+   * Call a Kubo RPC command (always POST)
+   */
+  private async rpc(
+    command: string,
+    args: Record<string, string>,
+    action: string,
+    init: { body?: BodyInit; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    return await request(
+      this.rpcUrl(command, args),
+      { method: 'POST', body: init.body, headers: { ...this.headers, ...init.headers } },
+      action
+    );
+  }
+
+  private rpcUrl(command: string, args: Record<string, string>): string {
+    if (!this.apiUrl) {
+      throw new StorageError('IPFS API URL not configured', 'NOT_CONFIGURED');
+    }
+    return `${joinUrl(this.apiUrl, `api/v0/${command}`)}?${new URLSearchParams(args)}`;
+  }
+
+  private requireGateways(): IpfsGatewayClient {
+    if (!this.gateways) {
+      throw new StorageError('IPFS gateway URL not configured', 'NOT_CONFIGURED');
+    }
+    return this.gateways;
+  }
+}
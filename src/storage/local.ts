@@ -0,0 +1,230 @@
+import { StorageError } from '../errors';
+import { loadFs, toReadableStream } from '../utils/input';
+import type {
+  ByteRange,
+  MultipartUpload,
+  StorageObjectInfo,
+  StorageProvider,
+  UploadPart,
+} from '../types';
+import { assertSafeCid, sha256Hex } from './http';
+
+/**
+ * Local file system provider options
+ */
+export interface LocalFileSystemProviderOptions {
+  /** Provider name (default 'local') */
+  name?: string;
+  /** Directory holding stored objects; created on first upload */
+  directory: string;
+}
+
+/**
+ * Local file system storage (Node.js only), for development and self-hosting
+ * Objects are content-addressed by the hex SHA-256 of their data. Multipart
+ * uploads write parts at their offsets into a temporary file.
+ */
+export class LocalFileSystemProvider implements StorageProvider {
+  readonly name: string;
+
+  private directory: string;
+
+  constructor(options: LocalFileSystemProviderOptions) {
+    this.name = options.name ?? 'local';
+    this.directory = options.directory;
+  }
+
+  async upload(data: Uint8Array): Promise<string> {
+    const fs = await loadFs();
+    const cid = await sha256Hex(data);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(await this.path(cid), data);
+    return cid;
+  }
+
+  async uploadStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+    const fs = await loadFs();
+    const { createHash, randomUUID } = await import('crypto');
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const temporary = await this.path(`upload-${randomUUID()}`);
+    const hash = createHash('sha256');
+    const handle = await fs.promises.open(temporary, 'w');
+
+    try {
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        hash.update(value);
+        await handle.write(value);
+      }
+    } catch (error) {
+      await handle.close();
+      await fs.promises.rm(temporary, { force: true });
+      throw error;
+    }
+    await handle.close();
+
+    const cid = hash.digest('hex');
+    await fs.promises.rename(temporary, await this.path(cid));
+    return cid;
+  }
+
+  async computeCid(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+    if (data instanceof Uint8Array) {
+      return await sha256Hex(data);
+    }
+
+    const { createHash } = await import('crypto');
+    const hash = createHash('sha256');
+    const reader = data.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return hash.digest('hex');
+      }
+      hash.update(value);
+    }
+  }
+
+  async createMultipartUpload(): Promise<MultipartUpload> {
+    const fs = await loadFs();
+    const { randomUUID } = await import('crypto');
+    const uploadId = `upload-${randomUUID()}`;
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(await this.path(uploadId), new Uint8Array(0));
+    return { uploadId };
+  }
+
+  async uploadPart(upload: MultipartUpload, part: UploadPart): Promise<string> {
+    const fs = await loadFs();
+    let handle;
+    try {
+      handle = await fs.promises.open(await this.uploadPath(upload), 'r+');
+    } catch (error) {
+      throw this.toStorageError(upload.uploadId, error);
+    }
+
+    try {
+      await handle.write(part.data, 0, part.data.length, part.offset);
+    } finally {
+      await handle.close();
+    }
+    return await sha256Hex(part.data);
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload): Promise<string> {
+    const fs = await loadFs();
+    const { createHash } = await import('crypto');
+    const temporary = await this.uploadPath(upload);
+    const hash = createHash('sha256');
+
+    try {
+      for await (const chunk of fs.createReadStream(temporary)) {
+        hash.update(chunk as Uint8Array);
+      }
+    } catch (error) {
+      throw this.toStorageError(upload.uploadId, error);
+    }
+
+    const cid = hash.digest('hex');
+    await fs.promises.rename(temporary, await this.path(cid));
+    return cid;
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    const fs = await loadFs();
+    await fs.promises.rm(await this.uploadPath(upload), { force: true });
+  }
+
+  async download(cid: string): Promise<Uint8Array> {
+    const fs = await loadFs();
+    try {
+      return new Uint8Array(await fs.promises.readFile(await this.path(cid)));
+    } catch (error) {
+      throw this.toStorageError(cid, error);
+    }
+  }
+
+  async downloadStream(cid: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    // Fail fast on missing objects rather than on the first read
+    await this.head(cid);
+    if (!range) {
+      return await toReadableStream(await this.path(cid));
+    }
+
+    const fs = await loadFs();
+    if (range.end !== undefined && range.end <= range.start) {
+      return await toReadableStream(new Uint8Array(0));
+    }
+    return await toReadableStream(
+      fs.createReadStream(await this.path(cid), {
+        start: range.start,
+        end: range.end === undefined ? undefined : range.end - 1,
+      })
+    );
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    const fs = await loadFs();
+    try {
+      await fs.promises.access(await this.path(cid));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(cid: string): Promise<void> {
+    const fs = await loadFs();
+    try {
+      await fs.promises.unlink(await this.path(cid));
+    } catch (error) {
+      throw this.toStorageError(cid, error);
+    }
+  }
+
+  async head(cid: string): Promise<StorageObjectInfo> {
+    const fs = await loadFs();
+    try {
+      const stat = await fs.promises.stat(await this.path(cid));
+      return { cid, size: stat.size };
+    } catch (error) {
+      throw this.toStorageError(cid, error);
+    }
+  }
+
+  private async path(cid: string): Promise<string> {
+    assertSafeCid(cid);
+    const { join } = await import('path');
+    return join(this.directory, cid);
+  }
+
+  /**
+   * Temporary file of a multipart upload
+   */
+  private async uploadPath(upload: MultipartUpload): Promise<string> {
+    if (!upload.uploadId.startsWith('upload-')) {
+      throw new StorageError(`Invalid upload ID: ${upload.uploadId}`, 'INVALID_UPLOAD');
+    }
+    return await this.path(upload.uploadId);
+  }
+
+  private toStorageError(cid: string, error: unknown): StorageError {
+    if (error instanceof StorageError) {
+      return error;
+    }
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return new StorageError(`Content not found: ${cid}`, 'NOT_FOUND');
+    }
+    return new StorageError(
+      `Local storage failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'REQUEST_FAILED'
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { StorageError } from '../errors';
+import { getCrypto } from '../utils/crypto';
+import { concatBytes, toHex } from '../utils/encoding';
+import type {
+  CompletedPart,
+  MultipartUpload,
+  StorageObjectInfo,
+  StorageProvider,
+  UploadPart,
+} from '../types';
+import { sha256Hex } from './http';
+
+/**
+ * In-memory storage for tests and ephemeral use
+ * Objects are content-addressed by the hex SHA-256 of their data.
+ */
+export class MemoryStorageProvider implements StorageProvider {
+  readonly name: string;
+
+  private objects = new Map<string, Uint8Array>();
+  private uploads = new Map<string, Map<number, Uint8Array>>();
+
+  constructor(options: { name?: string } = {}) {
+    this.name = options.name ?? 'memory';
+  }
+
+  async upload(data: Uint8Array): Promise<string> {
+    const cid = await sha256Hex(data);
+    this.objects.set(cid, data.slice());
+    return cid;
+  }
+
+  async computeCid(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+    return await sha256Hex(data);
+  }
+
+  async download(cid: string): Promise<Uint8Array> {
+    return this.get(cid).slice();
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    return this.objects.has(cid);
+  }
+
+  async delete(cid: string): Promise<void> {
+    this.get(cid);
+    this.objects.delete(cid);
+  }
+
+  async head(cid: string): Promise<StorageObjectInfo> {
+    return { cid, size: this.get(cid).length };
+  }
+
+  async createMultipartUpload(): Promise<MultipartUpload> {
+    const webCrypto = await getCrypto();
+    const uploadId = toHex(webCrypto.getRandomValues(new Uint8Array(16)));
+    this.uploads.set(uploadId, new Map());
+    return { uploadId };
+  }
+
+  async uploadPart(upload: MultipartUpload, part: UploadPart): Promise<string> {
+    this.getUpload(upload).set(part.partNumber, part.data.slice());
+    return await sha256Hex(part.data);
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts: CompletedPart[]): Promise<string> {
+    const stored = this.getUpload(upload);
+    const data = concatBytes(
+      ...[...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map((part) => {
+          const partData = stored.get(part.partNumber);
+          if (!partData) {
+            throw new StorageError(`Part ${part.partNumber} was not uploaded`, 'UPLOAD_FAILED');
+          }
+          return partData;
+        })
+    );
+
+    this.uploads.delete(upload.uploadId);
+    return await this.upload(data);
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    this.uploads.delete(upload.uploadId);
+  }
+
+  private getUpload(upload: MultipartUpload): Map<number, Uint8Array> {
+    const parts = this.uploads.get(upload.uploadId);
+    if (!parts) {
+      throw new StorageError(`Unknown upload: ${upload.uploadId}`, 'NOT_FOUND');
+    }
+    return parts;
+  }
+
+  private get(cid: string): Uint8Array {
+    const data = this.objects.get(cid);
+    if (!data) {
+      throw new StorageError(`Content not found: ${cid}`, 'NOT_FOUND');
+    }
+    return data;
+  }
+}
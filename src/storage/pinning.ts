@@ -0,0 +1,153 @@
+import { readInput } from '../utils/input';
+import { computeCid } from '../utils/unixfs-importer';
+import type {
+  ByteRange,
+  GatewayHealth,
+  GatewayOptions,
+  StorageObjectInfo,
+  StorageProvider,
+  StorageUploadOptions,
+} from '../types';
+import { IpfsGatewayClient } from './gateways';
+import { joinUrl, request } from './http';
+
+/**
+ * Pinning service provider options
+ */
+export interface PinningServiceProviderOptions {
+  /** Provider name (default 'ipfs-pinning') */
+  name?: string;
+  /** IPFS Pinning Service API endpoint, e.g. https://api.pinata.cloud/psa */
+  endpoint: string;
+  /** Bearer access token */
+  accessToken: string;
+  /** Provider that adds content to IPFS before it is pinned, e.g. an IpfsProvider */
+  uploader: StorageProvider;
+  /** Gateway URL used for reads (default https://ipfs.io/ipfs/) */
+  gatewayUrl?: string;
+  /** Gateway URLs used for reads, tried by health; replaces gatewayUrl */
+  gatewayUrls?: string[];
+  /** How the gateways are tried and whether their content is verified */
+  gatewayOptions?: GatewayOptions;
+  /** Multiaddrs of nodes holding the content, passed to the service as origins */
+  origins?: string[];
+}
+
+/**
+ * Remote pinning via the vendor-neutral IPFS Pinning Service API
+ * Content is added through the uploader, then pinned; delete removes the pins.
+ */
+export class PinningServiceProvider implements StorageProvider {
+  readonly name: string;
+
+  private endpoint: string;
+  private accessToken: string;
+  private uploader: StorageProvider;
+  private gateways: IpfsGatewayClient;
+  private origins?: string[];
+
+  constructor(options: PinningServiceProviderOptions) {
+    this.name = options.name ?? 'ipfs-pinning';
+    this.endpoint = options.endpoint;
+    this.accessToken = options.accessToken;
+    this.uploader = options.uploader;
+    this.gateways = new IpfsGatewayClient(
+      options.gatewayUrls ?? [options.gatewayUrl ?? 'https://ipfs.io/ipfs/'],
+      options.gatewayOptions
+    );
+    this.origins = options.origins;
+  }
+
+  async upload(data: Uint8Array, options?: StorageUploadOptions): Promise<string> {
+    const cid = await this.uploader.upload(data, options);
+    await this.pin(cid);
+    return cid;
+  }
+
+  async uploadStream(
+    stream: ReadableStream<Uint8Array>,
+    options?: StorageUploadOptions
+  ): Promise<string> {
+    const cid = this.uploader.uploadStream
+      ? await this.uploader.uploadStream(stream, options)
+      : await this.uploader.upload(await readInput(stream), options);
+    await this.pin(cid);
+    return cid;
+  }
+
+  /**
+   * The uploader's CID for the data, or the default IPFS CIDv1 when it cannot compute one
+   */
+  async computeCid(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+    if (this.uploader.computeCid) {
+      return await this.uploader.computeCid(data);
+    }
+    return await computeCid(data);
+  }
+
+  async download(cid: string): Promise<Uint8Array> {
+    return await this.gateways.readBytes(cid);
+  }
+
+  async downloadStream(cid: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    return await this.gateways.read(cid, range);
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    return (await this.listPins(cid)).length > 0;
+  }
+
+  async delete(cid: string): Promise<void> {
+    for (const requestId of await this.listPins(cid)) {
+      await request(
+        joinUrl(this.endpoint, `pins/${encodeURIComponent(requestId)}`),
+        { method: 'DELETE', headers: this.authHeaders() },
+        'Unpin'
+      );
+    }
+  }
+
+  async head(cid: string): Promise<StorageObjectInfo> {
+    return await this.gateways.head(cid);
+  }
+
+  /**
+   * Recent health of the read gateways, healthiest first
+   */
+  getGatewayHealth(): GatewayHealth[] {
+    return this.gateways.getHealth();
+  }
+
+  /**
+   * Request a pin for a CID
+   */
+  private async pin(cid: string): Promise<void> {
+    await request(
+      joinUrl(this.endpoint, 'pins'),
+      {
+        method: 'POST',
+        headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cid, origins: this.origins }),
+      },
+      'Pin'
+    );
+  }
+
+  /**
+   * Get the request IDs of active pins for a CID
+   */
+  private async listPins(cid: string): Promise<string[]> {
+    const query = new URLSearchParams({ cid, status: 'queued,pinning,pinned' });
+    const response = await request(
+      `${joinUrl(this.endpoint, 'pins')}?${query}`,
+      { headers: this.authHeaders() },
+      'Pin lookup'
+    );
+    const result = (await response.json()) as { results?: { requestid: string }[] };
+    return (result.results ?? []).map((pin) => pin.requestid);
+  }
+
+  private authHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.accessToken}` };
+  }
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { S3Provider } from './s3';
+
+/** Minimal S3 endpoint keeping objects and multipart uploads in memory */
+function createS3Stub() {
+  const objects = new Map<string, Buffer>();
+  const uploads = new Map<string, Map<number, Buffer>>();
+  const requests: string[] = [];
+
+  const readBody = async (request: IncomingMessage) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url!, 'http://localhost');
+    const key = decodeURIComponent(url.pathname);
+    const uploadId = url.searchParams.get('uploadId');
+    const body = await readBody(request);
+    const copySource = request.headers['x-amz-copy-source'] as string | undefined;
+    const send = (status: number, text: string | Buffer = '', headers = {}) => {
+      response.writeHead(status, headers);
+      response.end(text);
+    };
+
+    if (request.method === 'POST' && url.searchParams.has('uploads')) {
+      requests.push('create');
+      const id = `upload${uploads.size + 1}`;
+      uploads.set(id, new Map());
+      return send(
+        200,
+        `<InitiateMultipartUploadResult><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`
+      );
+    }
+    if (request.method === 'PUT' && uploadId) {
+      requests.push('part');
+      const partNumber = Number(url.searchParams.get('partNumber'));
+      uploads.get(uploadId)!.set(partNumber, body);
+      return send(200, '', { ETag: `"${partNumber}"` });
+    }
+    if (request.method === 'POST' && uploadId) {
+      requests.push('complete');
+      const parts = uploads.get(uploadId)!;
+      objects.set(
+        key,
+        Buffer.concat([...parts.keys()].sort((a, b) => a - b).map((n) => parts.get(n)!))
+      );
+      uploads.delete(uploadId);
+      return send(200, '<CompleteMultipartUploadResult></CompleteMultipartUploadResult>');
+    }
+    if (request.method === 'PUT' && copySource) {
+      requests.push('copy');
+      objects.set(key, objects.get(decodeURIComponent(copySource))!);
+      return send(200, '<CopyObjectResult><ETag>&quot;copy&quot;</ETag></CopyObjectResult>');
+    }
+    if (request.method === 'PUT') {
+      requests.push('put');
+      objects.set(key, body);
+      return send(200);
+    }
+    if (request.method === 'DELETE') {
+      requests.push('delete');
+      objects.delete(key);
+      return send(204);
+    }
+    const object = objects.get(key);
+    return object ? send(200, object) : send(404, 'NoSuchKey');
+  });
+
+  return { server, objects, uploads, requests };
+}
+
+function streamOf(data: Uint8Array, chunkSize = 1024 * 1024): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.subarray(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+describe('S3Provider', () => {
+  let stub: ReturnType<typeof createS3Stub>;
+  let provider: S3Provider;
+
+  beforeAll(async () => {
+    stub = createS3Stub();
+    await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+    const { port } = stub.server.address() as AddressInfo;
+    provider = new S3Provider({
+      endpoint: `http://127.0.0.1:${port}`,
+      bucket: 'zkfile',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'secret',
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => (stub.server as Server).close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.objects.clear();
+    stub.requests.length = 0;
+  });
+
+  it('uploads a short stream with a single PUT', async () => {
+    const data = new Uint8Array(1000).fill(7);
+    const cid = await provider.uploadStream(streamOf(data));
+
+    expect(cid).toBe(createHash('sha256').update(data).digest('hex'));
+    expect(stub.requests).toEqual(['put']);
+    expect(stub.objects.get(`/zkfile/${cid}`)!.equals(data)).toBe(true);
+  });
+
+  it('streams long content as a multipart upload copied to its hash', async () => {
+    const data = new Uint8Array(9 * 1024 * 1024 + 5).map((_, i) => i % 251);
+    const cid = await provider.uploadStream(streamOf(data));
+
+    expect(cid).toBe(createHash('sha256').update(data).digest('hex'));
+    expect(stub.requests).toEqual(['create', 'part', 'part', 'complete', 'copy', 'delete']);
+    expect([...stub.objects.keys()]).toEqual([`/zkfile/${cid}`]);
+    expect(stub.objects.get(`/zkfile/${cid}`)!.equals(data)).toBe(true);
+    expect(stub.uploads.size).toBe(0);
+  });
+
+  it('hashes a stream without uploading it', async () => {
+    const data = new Uint8Array(3 * 1024 * 1024 + 1).fill(1);
+    expect(await provider.computeCid(streamOf(data))).toBe(
+      createHash('sha256').update(data).digest('hex')
+    );
+    expect(stub.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,458 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { StorageError } from '../errors';
+import { getCrypto } from '../utils/crypto';
+import { concatBytes, toHex } from '../utils/encoding';
+import type {
+  ByteRange,
+  CompletedPart,
+  MultipartUpload,
+  StorageObjectInfo,
+  StorageProvider,
+  UploadPart,
+} from '../types';
+import {
+  assertSafeCid,
+  headInfo,
+  joinUrl,
+  rangeHeaders,
+  rangedResponseStream,
+  request,
+  responseBytes,
+  sha256Hex,
+} from './http';
+
+/**
+ * Signed S3 request options
+ */
+interface S3RequestOptions {
+  body?: Uint8Array;
+  /** Hex SHA-256 of the body (defaults to that of an empty body) */
+  payloadHash?: string;
+  /** Query parameters, included in the signature */
+  query?: Record<string, string>;
+  /** Unsigned headers such as Range */
+  headers?: Record<string, string>;
+  /** Headers included in the signature, such as x-amz-copy-source */
+  signedHeaders?: Record<string, string>;
+}
+
+/**
+ * S3-compatible provider options
+ */
+export interface S3ProviderOptions {
+  /** Provider name (default 's3') */
+  name?: string;
+  /** Service endpoint, e.g. https://s3.us-east-1.amazonaws.com or a MinIO/R2 URL */
+  endpoint: string;
+  /** Bucket name */
+  bucket: string;
+  /** Signing region (default 'us-east-1'; 'auto' for R2) */
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /** Key prefix for stored objects */
+  prefix?: string;
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2, ...) with path-style
+ * addressing and Signature Version 4 request signing
+ * Objects are content-addressed by the hex SHA-256 of their data, except
+ * multipart uploads, which are stored under a random key chosen up front.
+ * Streams are sent as multipart uploads and copied to the key of their hash.
+ */
+export class S3Provider implements StorageProvider {
+  private static readonly EMPTY_SHA256 =
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+  /** S3 rejects parts under 5 MiB when completing, except the last */
+  static readonly MIN_PART_SIZE = 5 * 1024 * 1024;
+  /** Part size of streamed uploads, the most a stream upload buffers */
+  private static readonly STREAM_PART_SIZE = 8 * 1024 * 1024;
+  /** Largest object a single CopyObject request copies */
+  private static readonly MAX_COPY_SIZE = 5 * 1024 * 1024 * 1024;
+
+  readonly name: string;
+  readonly minPartSize = S3Provider.MIN_PART_SIZE;
+
+  private endpoint: string;
+  private bucket: string;
+  private region: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private sessionToken?: string;
+  private prefix: string;
+
+  constructor(options: S3ProviderOptions) {
+    this.name = options.name ?? 's3';
+    this.endpoint = options.endpoint;
+    this.bucket = options.bucket;
+    this.region = options.region ?? 'us-east-1';
+    this.accessKeyId = options.accessKeyId;
+    this.secretAccessKey = options.secretAccessKey;
+    this.sessionToken = options.sessionToken;
+    this.prefix = options.prefix ?? '';
+  }
+
+  async upload(data: Uint8Array): Promise<string> {
+    const cid = await sha256Hex(data);
+    await this.send('PUT', cid, 'S3 upload', { body: data, payloadHash: cid });
+    return cid;
+  }
+
+  /**
+   * Upload a stream, buffering at most one part
+   * Content shorter than a part is sent with a single PUT. Longer content is
+   * hashed while it is sent as a multipart upload under a random key, then
+   * copied server-side to the key of its hash.
+   */
+  async uploadStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+    const hash = sha256.create();
+    const reader = stream.getReader();
+    const parts: CompletedPart[] = [];
+    let pending: Uint8Array[] = [];
+    let pendingLength = 0;
+    let size = 0;
+    let upload: MultipartUpload | undefined;
+    let temporary: string | undefined;
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (value) {
+          hash.update(value);
+          pending.push(value);
+          pendingLength += value.length;
+          size += value.length;
+        }
+        if (done && !upload) {
+          return await this.upload(concatBytes(...pending));
+        }
+        if (pendingLength >= S3Provider.STREAM_PART_SIZE || (done && pendingLength > 0)) {
+          upload ??= await this.createMultipartUpload();
+          const partNumber = parts.length + 1;
+          const data = concatBytes(...pending);
+          pending = [];
+          pendingLength = 0;
+          parts.push({
+            partNumber,
+            etag: await this.uploadPart(upload, { partNumber, offset: size - data.length, data }),
+          });
+        }
+        if (done) {
+          break;
+        }
+      }
+
+      temporary = await this.completeMultipartUpload(upload!, parts);
+      const cid = toHex(hash.digest());
+      await this.copy(temporary, cid, size);
+      await this.send('DELETE', temporary, 'S3 delete');
+      return cid;
+    } catch (error) {
+      await reader.cancel(error).catch(() => undefined);
+      if (temporary) {
+        await this.send('DELETE', temporary, 'S3 delete').catch(() => undefined);
+      } else if (upload) {
+        await this.abortMultipartUpload(upload).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  async computeCid(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string> {
+    return await sha256Hex(data);
+  }
+
+  async download(cid: string): Promise<Uint8Array> {
+    return await responseBytes(await this.send('GET', cid, 'S3 download'));
+  }
+
+  async downloadStream(cid: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.send('GET', cid, 'S3 download', { headers: rangeHeaders(range) });
+    return rangedResponseStream(response, range);
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    try {
+      await this.send('HEAD', cid, 'S3 head');
+      return true;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NOT_FOUND') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(cid: string): Promise<void> {
+    await this.send('DELETE', cid, 'S3 delete');
+  }
+
+  async head(cid: string): Promise<StorageObjectInfo> {
+    return headInfo(cid, await this.send('HEAD', cid, 'S3 head'));
+  }
+
+  async createMultipartUpload(): Promise<MultipartUpload> {
+    const webCrypto = await getCrypto();
+    return await this.startMultipartUpload(toHex(webCrypto.getRandomValues(new Uint8Array(32))));
+  }
+
+  async uploadPart(upload: MultipartUpload, part: UploadPart): Promise<string> {
+    const response = await this.send('PUT', this.uploadKey(upload), 'S3 part upload', {
+      body: part.data,
+      payloadHash: await sha256Hex(part.data),
+      query: { partNumber: String(part.partNumber), uploadId: upload.uploadId },
+    });
+
+    const etag = response.headers.get('etag');
+    if (!etag) {
+      throw new StorageError('S3 returned no ETag for the part', 'UPLOAD_FAILED');
+    }
+    return etag;
+  }
+
+  async completeMultipartUpload(upload: MultipartUpload, parts: CompletedPart[]): Promise<string> {
+    const key = this.uploadKey(upload);
+    const body = new TextEncoder().encode(
+      '<CompleteMultipartUpload>' +
+        [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(
+            (part) =>
+              `<Part><PartNumber>${part.partNumber}</PartNumber>` +
+              `<ETag>${escapeXml(part.etag)}</ETag></Part>`
+          )
+          .join('') +
+        '</CompleteMultipartUpload>'
+    );
+
+    const response = await this.send('POST', key, 'S3 multipart completion', {
+      body,
+      payloadHash: await sha256Hex(body),
+      query: { uploadId: upload.uploadId },
+    });
+
+    assertNoError(await response.text(), 'S3 multipart completion');
+    return key;
+  }
+
+  async abortMultipartUpload(upload: MultipartUpload): Promise<void> {
+    await this.send('DELETE', this.uploadKey(upload), 'S3 multipart abort', {
+      query: { uploadId: upload.uploadId },
+    });
+  }
+
+  /**
+   * Start a multipart upload to a key
+   */
+  private async startMultipartUpload(key: string): Promise<MultipartUpload> {
+    const response = await this.send('POST', key, 'S3 multipart upload', {
+      query: { uploads: '' },
+    });
+
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec(await response.text())?.[1];
+    if (!uploadId) {
+      throw new StorageError('S3 returned no upload ID', 'UPLOAD_FAILED');
+    }
+    return { uploadId, key };
+  }
+
+  /**
+   * Copy an object server-side, in parts when it is too large for CopyObject
+   */
+  private async copy(source: string, target: string, size: number): Promise<void> {
+    const copySource = `/${encodeURIComponent(this.bucket)}/${this.encodeKey(source)}`;
+    if (size <= S3Provider.MAX_COPY_SIZE) {
+      const response = await this.send('PUT', target, 'S3 copy', {
+        signedHeaders: { 'x-amz-copy-source': copySource },
+      });
+      assertNoError(await response.text(), 'S3 copy');
+      return;
+    }
+
+    const upload = await this.startMultipartUpload(target);
+    try {
+      const parts: CompletedPart[] = [];
+      for (let start = 0; start < size; start += S3Provider.MAX_COPY_SIZE) {
+        const end = Math.min(start + S3Provider.MAX_COPY_SIZE, size) - 1;
+        const partNumber = parts.length + 1;
+        const response = await this.send('PUT', target, 'S3 part copy', {
+          query: { partNumber: String(partNumber), uploadId: upload.uploadId },
+          signedHeaders: {
+            'x-amz-copy-source': copySource,
+            'x-amz-copy-source-range': `bytes=${start}-${end}`,
+          },
+        });
+
+        const etag = /<ETag>([^<]+)<\/ETag>/.exec(await response.text())?.[1];
+        if (!etag) {
+          throw new StorageError('S3 returned no ETag for the copied part', 'UPLOAD_FAILED');
+        }
+        parts.push({ partNumber, etag: unescapeXml(etag) });
+      }
+      await this.completeMultipartUpload(upload, parts);
+    } catch (error) {
+      await this.abortMultipartUpload(upload).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a signed request for an object
+   */
+  private async send(
+    method: string,
+    cid: string,
+    action: string,
+    options: S3RequestOptions = {}
+  ): Promise<Response> {
+    assertSafeCid(cid);
+    const url = new URL(
+      joinUrl(this.endpoint, `${encodeURIComponent(this.bucket)}/${this.encodeKey(cid)}`)
+    );
+    url.search = canonicalQuery(options.query ?? {});
+    const headers = await this.sign(
+      method,
+      url,
+      options.payloadHash ?? S3Provider.EMPTY_SHA256,
+      options.signedHeaders
+    );
+
+    return await request(
+      url.toString(),
+      {
+        method,
+        headers: { ...options.headers, ...headers },
+        body: options.body as BodyInit | undefined,
+      },
+      action
+    );
+  }
+
+  /**
+   * Object key of a multipart upload
+   */
+  private uploadKey(upload: MultipartUpload): string {
+    if (!upload.key) {
+      throw new StorageError('S3 multipart upload has no key', 'INVALID_UPLOAD');
+    }
+    return upload.key;
+  }
+
+  /**
+   * Build SigV4 headers for a request whose query string is already canonical
+   */
+  private async sign(
+    method: string,
+    url: URL,
+    payloadHash: string,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Record<string, string>> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (this.sessionToken) {
+      headers['x-amz-security-token'] = this.sessionToken;
+    }
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.slice(1),
+      names.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      await sha256Hex(new TextEncoder().encode(canonicalRequest)),
+    ].join('\n');
+
+    let key: Uint8Array = new TextEncoder().encode(`AWS4${this.secretAccessKey}`);
+    for (const part of [date, this.region, 's3', 'aws4_request']) {
+      key = await hmac(key, part);
+    }
+    const signature = toHex(await hmac(key, stringToSign));
+
+    // fetch sets Host itself
+    delete headers.host;
+    headers.Authorization =
+      `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return headers;
+  }
+
+  private encodeKey(cid: string): string {
+    return `${this.prefix}${cid}`.split('/').map(encodeURIComponent).join('/');
+  }
+}
+
+/**
+ * SigV4 canonical query string: RFC 3986-encoded and sorted by name
+ */
+function canonicalQuery(query: Record<string, string>): string {
+  const encode = (value: string) =>
+    encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+  return Object.keys(query)
+    .sort()
+    .map((name) => `${encode(name)}=${encode(query[name])}`)
+    .join('&');
+}
+
+/**
+ * Fail on an error S3 reports in a 200 response body, as CompleteMultipartUpload
+ * and CopyObject may
+ */
+function assertNoError(result: string, action: string): void {
+  if (result.includes('<Error>')) {
+    const message = /<Message>([^<]*)<\/Message>/.exec(result)?.[1] ?? 'Unknown error';
+    throw new StorageError(`${action} failed: ${message}`, 'UPLOAD_FAILED');
+  }
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+async function hmac(key: Uint8Array, message: string): Promise<Uint8Array> {
+  const webCrypto = await getCrypto();
+  const cryptoKey = await webCrypto.subtle.importKey(
+    'raw',
+    key as BufferSource,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(
+    await webCrypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message))
+  );
+}
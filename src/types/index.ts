@@ -1,4 +1,10 @@
-import { PublicKey, Transaction } from '@solana/web3.js';
+import {
+  Commitment,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
 
 /**
  * ZKFile Client Configuration
@@ -8,12 +14,56 @@ export interface ZKFileConfig {
   rpcEndpoint: string;
   /** ZKFile program ID on Solana */
   programId?: string;
-  /** Storage provider (ipfs, arweave) */
-  storageProvider?: 'ipfs' | 'arweave';
+  /** Name of the storage provider used for uploads (default 'ipfs') */
+  storageProvider?: string;
+  /** Additional storage providers; a provider replaces a built-in of the same name */
+  storageProviders?: StorageProvider[];
+  /** IPFS HTTP API (Kubo RPC) URL used by the built-in 'ipfs' provider for writes */
+  ipfsApiUrl?: string;
   /** IPFS gateway URL */
   ipfsGateway?: string;
+  /** IPFS gateway URLs for reads, used instead of ipfsGateway */
+  ipfsGateways?: string[];
+  /** How the IPFS gateways are tried and whether their content is verified */
+  gatewayOptions?: GatewayOptions;
   /** Arweave gateway URL */
   arweaveGateway?: string;
+  /** ANS-104 bundler URL for Arweave uploads */
+  arweaveBundler?: string;
+  /**
+   * Largest stream, in bytes, buffered in memory for providers without
+   * uploadStream such as Arweave and in-memory, and for every provider in
+   * browsers (default 512 MiB)
+   */
+  maxBufferedUploadSize?: number;
+  /** Zero-knowledge circuit artifacts, built with `npm run build:circuits` */
+  circuits?: ZKCircuits;
+  /** Compute budget, commitment and simulation applied to every transaction */
+  transactionOptions?: TransactionOptions;
+  /** Key derivation for the passwords of new files (default: PBKDF2-SHA256, 100,000 iterations) */
+  kdf?: KdfParams;
+  /** Strength requirements for new passwords */
+  passwordPolicy?: PasswordPolicy;
+}
+
+/**
+ * Password strength estimate
+ */
+export interface PasswordStrength {
+  /** Score from 0 (very weak) to 4 (very strong) */
+  score: number;
+  /** Suggestions for a stronger password */
+  feedback: string[];
+}
+
+/**
+ * Strength requirements for the passwords of uploads and key rotations
+ */
+export interface PasswordPolicy {
+  /** Lowest accepted score, from 0 to 4 (default: 2) */
+  minScore?: number;
+  /** Strength estimator, e.g. a zxcvbn wrapper (default: estimatePasswordStrength) */
+  estimate?: (password: string) => PasswordStrength | Promise<PasswordStrength>;
 }
 
 /**
@@ -21,8 +71,77 @@ export interface ZKFileConfig {
  */
 export interface WalletAdapter {
   publicKey: PublicKey | null;
-  signTransaction?: <T extends Transaction>(transaction: T) => Promise<T>;
-  signAllTransactions?: <T extends Transaction>(transactions: T[]) => Promise<T[]>;
+  signTransaction?: <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
+  signAllTransactions?: <T extends Transaction | VersionedTransaction>(
+    transactions: T[]
+  ) => Promise<T[]>;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+/**
+ * Compute budget and confirmation options for transactions
+ */
+export interface TransactionOptions {
+  /** Priority fee in micro-lamports per compute unit */
+  computeUnitPrice?: number;
+  /** Compute unit limit per transaction */
+  computeUnitLimit?: number;
+  /** Commitment level to confirm transactions at (default: 'confirmed') */
+  commitment?: Commitment;
+  /** Simulate transactions before sending them (default: true) */
+  simulate?: boolean;
+}
+
+/**
+ * Batched transaction options
+ */
+export interface BatchOptions extends TransactionOptions {
+  /** Address lookup tables; v0 versioned transactions are built when given */
+  lookupTables?: PublicKey[];
+}
+
+/**
+ * Durable nonce for transactions signed offline and sent later
+ */
+export interface DurableNonce {
+  /** Nonce account address */
+  nonceAccount: PublicKey;
+  /** Nonce authority, which must also sign the transaction */
+  authority: PublicKey;
+  /** Current nonce value; read from the nonce account when omitted */
+  nonce?: string;
+}
+
+/**
+ * Options for building unsigned transactions
+ */
+export interface BuildTransactionOptions extends BatchOptions {
+  /** Durable nonce to use instead of a recent blockhash */
+  nonce?: DurableNonce;
+}
+
+/**
+ * Unsigned transaction for external signing
+ */
+export interface UnsignedTransaction {
+  /** Serialized transaction with empty signatures (legacy, or v0 with lookup tables) */
+  transaction: Uint8Array;
+  /** Instructions carried, including compute budget and nonce instructions */
+  instructions: TransactionInstruction[];
+  /** Accounts that must sign, fee payer first */
+  signers: PublicKey[];
+  /** Recent blockhash, or the nonce value for durable-nonce transactions */
+  blockhash: string;
+  /** Last block height the blockhash is valid for; absent with a durable nonce */
+  lastValidBlockHeight?: number;
+}
+
+/**
+ * Options for submitting an externally signed transaction
+ */
+export interface SubmitOptions extends Pick<TransactionOptions, 'commitment' | 'simulate'> {
+  /** Last valid block height from buildTransaction; bounds how long to wait */
+  lastValidBlockHeight?: number;
 }
 
 /**
@@ -43,12 +162,26 @@ export interface FileMetadata {
   createdAt?: number;
 }
 
+/**
+ * File input accepted by upload, encryption and storage APIs
+ * Node.js Buffers are Uint8Arrays and Node.js Readables are async iterables;
+ * strings are treated as file system paths (Node.js only)
+ */
+export type FileInput =
+  | File
+  | Blob
+  | Uint8Array
+  | ArrayBuffer
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | string;
+
 /**
  * Upload options
  */
 export interface UploadOptions {
-  /** File to upload */
-  file: File | Blob;
+  /** File to upload (streams are encrypted and uploaded in chunks) */
+  file: FileInput;
   /** Encryption password */
   password: string;
   /** Wallet adapter */
@@ -56,7 +189,21 @@ export interface UploadOptions {
   /** Optional metadata */
   metadata?: Partial<FileMetadata>;
   /** Optional callback for progress */
-  onProgress?: (progress: number) => void;
+  onProgress?: ProgressCallback;
+  /** Retention expiration timestamp; cleanupExpired deletes the file after it */
+  expiresAt?: number;
+}
+
+/**
+ * Resumable upload options
+ */
+export interface ResumableUploadOptions extends UploadOptions {
+  /** Session token from onSession to resume an interrupted upload */
+  session?: string;
+  /** Called with an updated session token after the upload starts and after each part */
+  onSession?: (session: string) => void;
+  /** Target part size in bytes (default 8 MiB; S3 requires at least 5 MiB) */
+  partSize?: number;
 }
 
 /**
@@ -75,18 +222,188 @@ export interface UploadResult {
   uploadedAt: number;
 }
 
+/**
+ * File in a directory upload
+ */
+export interface DirectoryEntry {
+  /** Path inside the archive, with / or \ separators */
+  path: string;
+  /** File contents; needs a known size (File, Blob, byte array or path) */
+  file: FileInput;
+}
+
+/**
+ * Directory to upload: a file system path (Node.js only), or files with their
+ * paths (browser Files use webkitRelativePath, falling back to the name)
+ */
+export type DirectoryInput = string | ArrayLike<DirectoryEntry | File>;
+
+/**
+ * Directory upload options
+ */
+export interface UploadDirectoryOptions extends Omit<UploadOptions, 'file'> {
+  /** Files to archive */
+  files: DirectoryInput;
+}
+
+/**
+ * Directory upload result
+ */
+export interface UploadDirectoryResult extends UploadResult {
+  /** Archived files */
+  entries: ArchiveEntry[];
+}
+
+/**
+ * File inside a directory archive
+ */
+export interface ArchiveEntry {
+  /** Path inside the archive, with / separators */
+  path: string;
+  /** Size in bytes */
+  size: number;
+  /** MIME type */
+  type: string;
+  /** Offset of the file's bytes in the archive's entry data */
+  offset: number;
+}
+
+/**
+ * File update options
+ */
+export interface UpdateFileOptions {
+  /** Owner's file password; the new version is encrypted under the file's data key */
+  password: string;
+  /** Wallet adapter (file owner) */
+  wallet: WalletAdapter;
+  /** Optional metadata */
+  metadata?: Partial<FileMetadata>;
+  /** Optional callback for progress */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * File update result
+ */
+export interface UpdateFileResult extends UploadResult {
+  /** Number of the new version */
+  version: number;
+}
+
+/**
+ * Recorded version of a file's content
+ */
+export interface FileVersion {
+  /** File ID */
+  fileId: string;
+  /** Version number, counting from 0 for the first upload */
+  version: number;
+  /** Content identifier (CID) */
+  cid: string;
+  /** Name of the storage provider holding the content */
+  storageProvider: string;
+  /** Wallet that uploaded the version */
+  uploader: PublicKey;
+  /** Upload timestamp */
+  createdAt: number;
+}
+
+/**
+ * Pipeline phase reported in progress updates
+ */
+export type ProgressPhase = 'encrypt' | 'upload' | 'confirm' | 'download' | 'decrypt';
+
+/**
+ * Structured progress update
+ */
+export interface ProgressUpdate {
+  /** Current phase */
+  phase: ProgressPhase;
+  /** Bytes processed so far in this phase */
+  bytesDone: number;
+  /** Total bytes for this phase, when known */
+  bytesTotal?: number;
+  /** Phase completion from 0 to 100, when the total is known */
+  percent?: number;
+}
+
+/**
+ * Progress callback
+ */
+export type ProgressCallback = (progress: ProgressUpdate) => void;
+
 /**
  * Download options
  */
 export interface DownloadOptions {
   /** File ID to download */
   fileId: string;
-  /** Decryption password */
-  password: string;
+  /** Decryption password (owner); omit to use the wallet's access grant */
+  password?: string;
+  /** X25519 secret key for access grants (defaults to one derived via wallet.signMessage) */
+  decryptionKey?: Uint8Array;
   /** Wallet adapter */
   wallet: WalletAdapter;
   /** Optional callback for progress */
-  onProgress?: (progress: number) => void;
+  onProgress?: ProgressCallback;
+  /** Record a signed access receipt on-chain, logged as a 'download' */
+  recordAccess?: boolean;
+  /** Version to download (defaults to the latest) */
+  version?: number;
+}
+
+/**
+ * Download-to-file options
+ */
+export interface DownloadToFileOptions extends DownloadOptions {
+  /** Continue a partial file left by an interrupted download */
+  resume?: boolean;
+}
+
+/**
+ * Delete options
+ */
+export interface DeleteOptions {
+  /** File ID */
+  fileId: string;
+  /** Wallet adapter (file owner) */
+  wallet: WalletAdapter;
+  /** Remove the content from the storage provider where possible (default true) */
+  unpin?: boolean;
+}
+
+/**
+ * Delete result
+ */
+export interface DeleteResult {
+  /** File ID */
+  fileId: string;
+  /** Transaction signatures, ending with the file deletion */
+  signatures: string[];
+  /** Whether the content of every version was removed from storage */
+  unpinned: boolean;
+}
+
+/**
+ * Retention options
+ */
+export interface RetentionOptions {
+  /** File ID */
+  fileId: string;
+  /** Expiration timestamp; omit to clear the retention */
+  expiresAt?: number;
+  /** Wallet adapter (file owner) */
+  wallet: WalletAdapter;
+}
+
+/**
+ * Cleanup result
+ */
+export interface CleanupResult {
+  /** Expired files that were deleted */
+  deleted: DeleteResult[];
+  /** Expired files that could not be deleted */
+  failed: { fileId: string; error: Error }[];
 }
 
 /**
@@ -97,10 +414,37 @@ export interface ShareOptions {
   fileId: string;
   /** Recipient public key */
   recipient: PublicKey;
+  /** Owner's file password, used to unwrap the data key for the recipient */
+  password: string;
   /** Optional expiration timestamp */
   expiresAt?: number;
   /** Wallet adapter */
   wallet: WalletAdapter;
+  /**
+   * Wrap for the recipient's wallet key converted to X25519 when they have not
+   * registered an encryption key; they must then download with decryptionKey
+   */
+  allowWalletKey?: boolean;
+}
+
+/**
+ * Options for sharing with several recipients
+ */
+export interface ShareManyOptions {
+  /** File ID to share */
+  fileId: string;
+  /** Recipient public keys */
+  recipients: PublicKey[];
+  /** Owner's file password, used to unwrap the data key for the recipients */
+  password: string;
+  /** Optional expiration timestamp for every grant */
+  expiresAt?: number;
+  /** Wallet adapter */
+  wallet: WalletAdapter;
+  /** Compute budget and lookup tables for the batched transactions */
+  transactionOptions?: BatchOptions;
+  /** Wrap for converted wallet keys of recipients without a registered encryption key */
+  allowWalletKey?: boolean;
 }
 
 /**
@@ -127,6 +471,223 @@ export interface RevokeOptions {
   recipient: PublicKey;
   /** Wallet adapter */
   wallet: WalletAdapter;
+  /** Re-encrypt the file under a fresh data key after revoking (see rotateKey) */
+  rekey?: boolean;
+  /** Owner's file password, required with rekey */
+  password?: string;
+  /** With rekey, delete the content of earlier versions once the key is rotated */
+  unpinPrevious?: boolean;
+}
+
+/**
+ * Key rotation options
+ */
+export interface RotateKeyOptions {
+  /** File ID */
+  fileId: string;
+  /** Owner's current file password */
+  password: string;
+  /** Password for the rotated file (defaults to the current one) */
+  newPassword?: string;
+  /** Wallet adapter */
+  wallet: WalletAdapter;
+  /**
+   * Delete (unpin) the content of the current and earlier versions once the new
+   * version is recorded, so the previous keys decrypt nothing still stored
+   */
+  unpinPrevious?: boolean;
+}
+
+/**
+ * Key rotation result
+ */
+export interface RotateKeyResult {
+  /** File ID (unchanged) */
+  fileId: string;
+  /** CID of the re-encrypted content */
+  cid: string;
+  /** Version holding the re-encrypted content */
+  version: number;
+  /** Transaction signature recording the re-encrypted version */
+  signature: string;
+  /** Grantees whose wrapped keys were re-issued */
+  reissued: PublicKey[];
+  /**
+   * Grantees whose wrapped keys could not be re-issued because a later
+   * transaction of the batch failed; they cannot decrypt the new version
+   */
+  pending: PublicKey[];
+  /** CIDs of the content under the previous keys */
+  superseded: string[];
+  /** Superseded CIDs deleted with unpinPrevious; the rest are still stored */
+  unpinned: string[];
+}
+
+/**
+ * Storage backend
+ * Register custom implementations through ZKFileConfig.storageProviders
+ */
+export interface StorageProvider {
+  /** Unique provider name, recorded on-chain with each file */
+  readonly name: string;
+  /** Store data, returning its content identifier */
+  upload(data: Uint8Array, options?: StorageUploadOptions): Promise<string>;
+  /** Store a stream without buffering it (falls back to upload when absent) */
+  uploadStream?(stream: ReadableStream<Uint8Array>, options?: StorageUploadOptions): Promise<string>;
+  /** Read stored data */
+  download(cid: string): Promise<Uint8Array>;
+  /** Read stored data, or a byte range of it, as a stream (falls back to download when absent) */
+  downloadStream?(cid: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  /** Check whether content is stored */
+  exists(cid: string): Promise<boolean>;
+  /** Delete or unpin content */
+  delete(cid: string): Promise<void>;
+  /** Describe stored content without reading it */
+  head(cid: string): Promise<StorageObjectInfo>;
+  /** Compute, without storing it, the content identifier upload would return for data */
+  computeCid?(data: Uint8Array | ReadableStream<Uint8Array>): Promise<string>;
+  /** Smallest multipart part size in bytes, except for the last part */
+  readonly minPartSize?: number;
+  /** Start a multipart upload (providers without multipart support omit all four methods) */
+  createMultipartUpload?(options?: StorageUploadOptions): Promise<MultipartUpload>;
+  /** Store one part, returning its ETag; re-uploading a part replaces it */
+  uploadPart?(upload: MultipartUpload, part: UploadPart): Promise<string>;
+  /** Assemble the uploaded parts, returning the content identifier */
+  completeMultipartUpload?(upload: MultipartUpload, parts: CompletedPart[]): Promise<string>;
+  /** Discard a multipart upload and its parts */
+  abortMultipartUpload?(upload: MultipartUpload): Promise<void>;
+}
+
+/**
+ * Byte range of stored content
+ */
+export interface ByteRange {
+  /** First byte offset */
+  start: number;
+  /** Offset one past the last byte (defaults to the end of the content) */
+  end?: number;
+}
+
+/**
+ * UnixFS layout used to compute IPFS CIDs
+ */
+export interface CidOptions {
+  /** Chunk size in bytes (default 262144, as Kubo's default chunker) */
+  chunkSize?: number;
+  /** Maximum links per tree node (default 174) */
+  maxLinks?: number;
+}
+
+/**
+ * Gateway selection and verification options
+ */
+export interface GatewayOptions {
+  /** Try gateways one at a time, or race the healthiest few (default 'failover') */
+  strategy?: 'failover' | 'race';
+  /** Milliseconds to wait for a gateway's response headers (default 30000) */
+  timeout?: number;
+  /** Extra rounds over all gateways after every one has failed (default 2) */
+  retries?: number;
+  /** Delay before the first retry round in milliseconds, doubled each round (default 500) */
+  retryDelay?: number;
+  /** Check IPFS content against its CID (default true); needs gateways that serve CARs */
+  verify?: boolean;
+}
+
+/**
+ * Recent health of a gateway
+ */
+export interface GatewayHealth {
+  url: string;
+  /** Between 0 and 1, weighted towards recent requests */
+  score: number;
+  successes: number;
+  failures: number;
+  /** Smoothed time to a successful response in milliseconds */
+  latency?: number;
+}
+
+/**
+ * Provider-specific multipart upload handle; must survive JSON serialization
+ */
+export interface MultipartUpload {
+  /** Upload identifier assigned by the provider */
+  uploadId: string;
+  /** Object key or path the parts are written to, when the provider needs one */
+  key?: string;
+}
+
+/**
+ * One part of a multipart upload
+ */
+export interface UploadPart {
+  /** 1-based part number */
+  partNumber: number;
+  /** Byte offset of the part in the assembled content */
+  offset: number;
+  data: Uint8Array;
+}
+
+/**
+ * Part stored by a multipart upload
+ */
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+/**
+ * Stored content description
+ */
+export interface StorageObjectInfo {
+  /** Content identifier */
+  cid: string;
+  /** Size in bytes, when known */
+  size?: number;
+  /** Content type, when known */
+  contentType?: string;
+}
+
+/**
+ * Storage upload options
+ */
+export interface StorageUploadOptions {
+  /** Signs Arweave data items (e.g. walletDataItemSigner(wallet)) */
+  signer?: DataItemSigner;
+  /** Extra Arweave tags, added after the default ZKFile tags */
+  tags?: DataItemTag[];
+  /** Content identifier computed beforehand; an upload returning another one fails */
+  expectedCid?: string;
+}
+
+/**
+ * Arweave (ANS-104) data item tag
+ */
+export interface DataItemTag {
+  name: string;
+  value: string;
+}
+
+/**
+ * ANS-104 data item signer
+ */
+export interface DataItemSigner {
+  /** ANS-104 signature type (4 for Solana) */
+  signatureType: number;
+  /** 32-byte ed25519 public key (the data item owner) */
+  publicKey: Uint8Array;
+  /** Sign the data item deep hash as its signature type requires, returning 64 bytes */
+  sign: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+/**
+ * Signed ANS-104 data item
+ */
+export interface DataItem {
+  /** Data item ID: base64url(sha256(signature)) */
+  id: string;
+  /** Serialized data item */
+  raw: Uint8Array;
 }
 
 /**
@@ -141,6 +702,118 @@ export interface EncryptedFile {
   ciphertext: Uint8Array;
   /** Authentication tag */
   authTag?: Uint8Array;
+  /** Container header (absent for legacy blobs) */
+  header?: EncryptionHeader;
+  /** Encrypted file metadata: [IV (12 bytes)][Ciphertext] */
+  encryptedMetadata?: Uint8Array;
+}
+
+/**
+ * Encrypted container header
+ */
+export interface EncryptionHeader {
+  /** Container format version */
+  version: number;
+  /** Content cipher */
+  cipher: 'AES-256-GCM';
+  /** Key derivation function and its parameters */
+  kdf: KdfParams;
+  /** Plaintext chunk size in bytes (0 for a single segment) */
+  chunkSize: number;
+  /** Length of the encrypted metadata section preceding the ciphertext */
+  metadataLength?: number;
+  /** Data key wrapped under the password-derived key: [IV (12 bytes)][Ciphertext] */
+  wrappedKey?: Uint8Array;
+}
+
+/**
+ * Streaming encryption options
+ */
+export interface EncryptionStreamOptions {
+  /** Plaintext chunk size in bytes */
+  chunkSize?: number;
+  /** Data key to encrypt under (a fresh key is generated by default) */
+  dataKey?: CryptoKey;
+}
+
+/**
+ * Chunked container being encrypted chunk by chunk
+ */
+export interface ChunkedEncryption {
+  /** Header and encrypted metadata; holds no secrets */
+  prefix: Uint8Array;
+  /** Plaintext bytes per chunk */
+  chunkSize: number;
+  /** Ciphertext bytes per full chunk */
+  segmentSize: number;
+  metadata: FileMetadata;
+  /** Encrypt one chunk; only the last chunk may be shorter than chunkSize */
+  encryptChunk(index: number, plaintext: Uint8Array, final: boolean): Promise<Uint8Array>;
+}
+
+/**
+ * Chunked container opened for random-access decryption
+ */
+export interface ChunkedDecryption {
+  /** Offset of the first chunk in the container */
+  prefixLength: number;
+  /** Plaintext bytes per chunk */
+  chunkSize: number;
+  /** Ciphertext bytes per full chunk */
+  segmentSize: number;
+  metadata: FileMetadata;
+  /** Decrypt and authenticate one chunk */
+  decryptChunk(index: number, ciphertext: Uint8Array, final: boolean): Promise<Uint8Array>;
+}
+
+/**
+ * X25519 key pair used to unwrap data keys shared with a wallet
+ */
+export interface EncryptionKeyPair {
+  /** X25519 public key */
+  publicKey: Uint8Array;
+  /** X25519 secret key */
+  secretKey: Uint8Array;
+}
+
+/**
+ * Key derivation function and its parameters, stored in each file's header
+ */
+export type KdfParams = Pbkdf2Params | ScryptParams | Argon2idParams;
+
+/**
+ * PBKDF2-SHA256 parameters
+ */
+export interface Pbkdf2Params {
+  algorithm: 'PBKDF2-SHA256';
+  /** Iteration count */
+  iterations: number;
+}
+
+/**
+ * scrypt parameters
+ */
+export interface ScryptParams {
+  algorithm: 'scrypt';
+  /** CPU and memory cost (N), a power of two */
+  cost: number;
+  /** Block size (r) */
+  blockSize: number;
+  /** Parallelization (p) */
+  parallelism: number;
+}
+
+/**
+ * Argon2id parameters
+ */
+export interface Argon2idParams {
+  algorithm: 'Argon2id';
+  /** Memory in KiB */
+  memory: number;
+  /** Passes over memory */
+  iterations: number;
+  /** Lanes */
+  parallelism: number;
 }
 
 /**
@@ -153,6 +826,42 @@ export interface DecryptedFile {
   metadata: FileMetadata;
 }
 
+/**
+ * Decrypting TransformStream that also exposes the decrypted metadata
+ */
+export interface DecryptionStream extends TransformStream<Uint8Array, Uint8Array> {
+  /** Resolves once the file metadata has been decrypted */
+  metadata: Promise<FileMetadata>;
+}
+
+/**
+ * Streamed download result
+ */
+export interface DecryptedStream {
+  /** Decrypted file data */
+  stream: ReadableStream<Uint8Array>;
+  /** File metadata */
+  metadata: FileMetadata;
+}
+
+/**
+ * On-chain file record
+ */
+export interface FileRecord {
+  /** File ID */
+  fileId: string;
+  /** File account address */
+  address: PublicKey;
+  /** Owner public key */
+  owner: PublicKey;
+  /** Full content identifier (CID) */
+  cid: string;
+  /** Name of the storage provider holding the content */
+  storageProvider: string;
+  /** Creation timestamp */
+  createdAt: number;
+}
+
 /**
  * Access control entry
  */
@@ -169,6 +878,16 @@ export interface AccessControl {
   expiresAt?: number;
   /** Revoked status */
   revoked: boolean;
+  /** File data key wrapped for the recipient's encryption key */
+  wrappedKey?: Uint8Array;
+}
+
+/**
+ * Access listing options
+ */
+export interface AccessListOptions {
+  /** Include revoked and expired grants */
+  includeInactive?: boolean;
 }
 
 /**
@@ -185,18 +904,182 @@ export interface AuditLog {
   timestamp: number;
   /** Transaction signature */
   signature: string;
+  /** Position of the instruction in its transaction */
+  instructionIndex: number;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Audit log query options
+ */
+export interface AuditLogOptions {
+  /** Only entries at or after this timestamp (milliseconds) */
+  since?: number;
+  /** Only entries at or before this timestamp (milliseconds) */
+  until?: number;
+  /** Only these actions */
+  actions?: AuditLog['action'][];
+  /** Return at most this many entries */
+  limit?: number;
+  /** Only entries from transactions older than this signature */
+  before?: string;
+  /**
+   * Only entries older than this one: pass the last entry of a page to read the
+   * next. Unlike `before`, this resumes inside a transaction the page ended in.
+   */
+  after?: Pick<AuditLog, 'signature' | 'instructionIndex'>;
+}
+
 /**
  * ZK-Proof structure
  */
 export interface ZKProof {
-  /** Proof data */
+  /** Proof data (Groth16: A, B, C as 256 uncompressed bytes) */
   proof: Uint8Array;
-  /** Public inputs */
+  /** Public inputs as 32-byte big-endian field elements */
   publicInputs: Uint8Array;
-  /** Verification key */
+  /** Verification key (snarkjs JSON, UTF-8) */
   verificationKey?: Uint8Array;
 }
+
+/**
+ * Groth16 circuit artifacts built from circuits/ with a trusted setup
+ * Strings are file paths in Node.js or URLs. Provers need the wasm and zkey;
+ * verifiers only the verification key. Development artifacts ship in
+ * circuits/artifacts/.
+ */
+export interface CircuitArtifacts {
+  /** Witness generator (.wasm) */
+  wasm?: string | Uint8Array;
+  /** Proving key (.zkey) */
+  zkey?: string | Uint8Array;
+  /** Verification key exported by snarkjs, as JSON or its location */
+  verificationKey?: string | Record<string, unknown>;
+}
+
+/**
+ * Circuit artifacts by proof type
+ */
+export interface ZKCircuits {
+  /** circuits/ownership.circom */
+  ownership?: CircuitArtifacts;
+  /** circuits/content.circom */
+  content?: CircuitArtifacts;
+}
+
+/**
+ * Plaintext properties proven by a content proof
+ */
+export interface ContentSchema {
+  /** Minimum size in bytes (default 0) */
+  minSize?: number;
+  /** Maximum size in bytes (default 2^48 - 1) */
+  maxSize?: number;
+  /** MIME type, proven through the file signature (magic bytes) */
+  mimeType?: string;
+  /** Leading bytes, at most 16; used instead of mimeType */
+  prefix?: Uint8Array;
+}
+
+/**
+ * Stored file a content proof is generated for
+ */
+export interface ContentProofInput {
+  /** Raw 32-byte data key the file was encrypted with */
+  dataKey: Uint8Array;
+  /** Encrypted container as stored at the CID */
+  ciphertext: Uint8Array;
+}
+
+/**
+ * Statement a content proof is checked against
+ */
+export interface ContentClaim {
+  /** Encrypted container as stored at the CID */
+  ciphertext: Uint8Array;
+  /** Advertised content hash of the plaintext */
+  contentHash: Uint8Array;
+  /** Expected key commitment */
+  keyCommitment?: Uint8Array;
+  /** Plaintext properties the proof must establish */
+  schema?: ContentSchema;
+}
+
+/**
+ * Content proof options
+ */
+export interface ProveContentOptions extends DownloadOptions {
+  /** Plaintext properties to prove */
+  schema: ContentSchema;
+}
+
+/**
+ * Content proof of a stored file, with the values a verifier checks it against
+ */
+export interface ContentProof {
+  /** Proof from ZKProofService.generateProof */
+  proof: ZKProof;
+  /** CID of the stored ciphertext the proof is bound to */
+  cid: string;
+  /** Storage provider holding the ciphertext */
+  storageProvider: string;
+  /** Content hash of the plaintext */
+  contentHash: Uint8Array;
+  /** Commitment to the file's data key */
+  keyCommitment: Uint8Array;
+}
+
+/**
+ * Content proof verification options
+ */
+export interface VerifyContentOptions {
+  /** CID of the stored ciphertext */
+  cid: string;
+  /** Storage provider holding the ciphertext (default the current provider) */
+  storageProvider?: string;
+  /** Proof from proveContent */
+  proof: ZKProof;
+  /** Advertised content hash of the plaintext */
+  contentHash: Uint8Array;
+  /** Expected key commitment */
+  keyCommitment?: Uint8Array;
+  /** Plaintext properties the proof must establish */
+  schema?: ContentSchema;
+}
+
+/**
+ * Ownership commitment options
+ */
+export interface CommitOwnershipOptions {
+  /** File ID */
+  fileId: string;
+  /** Ownership secret; keep it private and high-entropy */
+  secret: string;
+  /** Wallet adapter (file owner) */
+  wallet: WalletAdapter;
+}
+
+/**
+ * Ownership proof options
+ */
+export interface ProveOwnershipOptions {
+  /** File ID */
+  fileId: string;
+  /** Ownership secret committed with commitOwnership */
+  secret: string;
+  /** Verifier-chosen challenge that the proof is bound to */
+  challenge?: string;
+}
+
+/**
+ * Ownership verification options
+ */
+export interface VerifyOwnershipOptions {
+  /** File ID */
+  fileId: string;
+  /** Proof from proveOwnership */
+  proof: ZKProof;
+  /** Challenge the proof must be bound to */
+  challenge?: string;
+}
@@ -0,0 +1,248 @@
+import { ValidationError } from '../errors';
+import { BorshReader, BorshWriter } from './borsh';
+import { concatBytes } from './encoding';
+import { describeInput, isBufferedInput, isFile, loadFs, toReadableStream } from './input';
+import type { ArchiveEntry, DirectoryEntry, DirectoryInput, FileInput } from '../types';
+
+/**
+ * Directory archives: many files stored as one encrypted file
+ * The archive plaintext is [manifest length (u32)][manifest (JSON)] followed
+ * by the entries' bytes back to back. Entry offsets are relative to the end
+ * of the manifest, so one entry can be read with a range request.
+ */
+
+/** MIME type recorded in the encrypted metadata of directory archives */
+export const ARCHIVE_MIME_TYPE = 'application/vnd.zkfile.archive';
+
+/**
+ * Archive manifest, stored encrypted at the start of the archive
+ */
+export interface ArchiveManifest {
+  version: 1;
+  entries: ArchiveEntry[];
+}
+
+/**
+ * Directory entry with its size and MIME type
+ */
+export interface SizedEntry {
+  path: string;
+  file: FileInput;
+  size: number;
+  type: string;
+}
+
+/**
+ * Resolve a directory input to its entries, sorted by path
+ * Paths use forward slashes and must stay inside the archive.
+ */
+export async function resolveDirectory(input: DirectoryInput): Promise<DirectoryEntry[]> {
+  const entries =
+    typeof input === 'string'
+      ? await walkDirectory(input)
+      : Array.from(input, (entry) =>
+          isFile(entry) ? { path: entry.webkitRelativePath || entry.name, file: entry } : entry
+        );
+
+  const seen = new Set<string>();
+  const resolved = entries.map(({ path, file }) => {
+    const normalized = normalizeEntryPath(path);
+    if (seen.has(normalized)) {
+      throw new ValidationError(`Duplicate archive path: ${normalized}`, 'DUPLICATE_ENTRY_PATH');
+    }
+    seen.add(normalized);
+    return { path: normalized, file };
+  });
+  return resolved.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Build the manifest for a set of entries; every entry needs a known size
+ */
+export async function buildArchiveManifest(
+  entries: DirectoryEntry[]
+): Promise<{ manifest: ArchiveManifest; sized: SizedEntry[] }> {
+  const sized: SizedEntry[] = [];
+  for (const { path, file } of entries) {
+    const info = await describeInput(file);
+    if (!isBufferedInput(file) || info.size === undefined) {
+      throw new ValidationError(
+        `Archive entries need a File, Blob, byte array or path: ${path}`,
+        'UNSUPPORTED_INPUT'
+      );
+    }
+    sized.push({ path, file, size: info.size, type: info.type ?? 'application/octet-stream' });
+  }
+
+  let offset = 0;
+  const manifestEntries = sized.map(({ path, size, type }) => {
+    const entry = { path, size, type, offset };
+    offset += size;
+    return entry;
+  });
+  return { manifest: { version: 1, entries: manifestEntries }, sized };
+}
+
+/**
+ * Encode a manifest with its length prefix
+ */
+export function encodeArchiveManifest(manifest: ArchiveManifest): Uint8Array {
+  return new BorshWriter().bytes(new TextEncoder().encode(JSON.stringify(manifest))).toBytes();
+}
+
+/**
+ * Stream an archive's plaintext: the encoded manifest, then every entry
+ * Fails if an entry's size differs from the one in the manifest.
+ */
+export async function createArchiveStream(
+  manifest: Uint8Array,
+  entries: SizedEntry[]
+): Promise<ReadableStream<Uint8Array>> {
+  async function* chunks(): AsyncIterable<Uint8Array> {
+    yield manifest;
+    for (const entry of entries) {
+      const reader = (await toReadableStream(entry.file)).getReader();
+      let size = 0;
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+          size += value.length;
+          yield value;
+        }
+      } finally {
+        reader.releaseLock();
+      }
+      if (size !== entry.size) {
+        throw new ValidationError(
+          `Archive entry changed size while uploading: ${entry.path}`,
+          'ENTRY_SIZE_MISMATCH'
+        );
+      }
+    }
+  }
+  return await toReadableStream(chunks());
+}
+
+/**
+ * Read the manifest from the start of an archive's plaintext stream
+ * Returns the manifest and the plaintext offset where entry data begins; the
+ * stream is cancelled afterwards.
+ */
+export async function readArchiveManifest(
+  stream: ReadableStream<Uint8Array>
+): Promise<{ manifest: ArchiveManifest; dataOffset: number }> {
+  const reader = stream.getReader();
+  let buffer: Uint8Array = new Uint8Array(0);
+  try {
+    let length: number | undefined;
+    for (;;) {
+      if (length === undefined && buffer.length >= 4) {
+        length = new BorshReader(buffer).u32();
+      }
+      if (length !== undefined && buffer.length >= 4 + length) {
+        return {
+          manifest: decodeArchiveManifest(buffer.subarray(4, 4 + length)),
+          dataOffset: 4 + length,
+        };
+      }
+
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new ValidationError('Archive manifest is truncated', 'INVALID_ARCHIVE');
+      }
+      buffer = concatBytes(buffer, value);
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Read the first `length` bytes of a stream, then cancel it
+ */
+export async function readStreamBytes(
+  stream: ReadableStream<Uint8Array>,
+  length: number
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  try {
+    while (received < length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new ValidationError('Archive entry is truncated', 'INVALID_ARCHIVE');
+      }
+      chunks.push(value);
+      received += value.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return concatBytes(...chunks).subarray(0, length);
+}
+
+/**
+ * Normalize an entry path to forward slashes without leading or empty
+ * segments, rejecting paths that climb out of the archive
+ */
+export function normalizeEntryPath(path: string): string {
+  const segments = path.split(/[\\/]/).filter((segment) => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    throw new ValidationError(`Invalid archive path: ${path}`, 'INVALID_ENTRY_PATH');
+  }
+  return segments.join('/');
+}
+
+/**
+ * Decode and check a manifest
+ */
+function decodeArchiveManifest(bytes: Uint8Array): ArchiveManifest {
+  let manifest: Partial<ArchiveManifest>;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ValidationError('Invalid archive manifest', 'INVALID_ARCHIVE');
+  }
+
+  if (
+    manifest?.version !== 1 ||
+    !Array.isArray(manifest.entries) ||
+    !manifest.entries.every(
+      (entry) =>
+        typeof entry?.path === 'string' &&
+        typeof entry.type === 'string' &&
+        Number.isInteger(entry.size) &&
+        Number.isInteger(entry.offset)
+    )
+  ) {
+    throw new ValidationError('Invalid archive manifest', 'INVALID_ARCHIVE');
+  }
+  return manifest as ArchiveManifest;
+}
+
+/**
+ * List the regular files under a directory (Node.js only), with paths
+ * relative to it
+ */
+async function walkDirectory(root: string): Promise<DirectoryEntry[]> {
+  const fs = await loadFs();
+  const entries: DirectoryEntry[] = [];
+
+  const walk = async (relative: string) => {
+    const directory = relative ? `${root}/${relative}` : root;
+    for (const dirent of await fs.promises.readdir(directory, { withFileTypes: true })) {
+      const path = relative ? `${relative}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory()) {
+        await walk(path);
+      } else if (dirent.isFile()) {
+        entries.push({ path, file: `${root}/${path}` });
+      }
+    }
+  };
+  await walk('');
+  return entries;
+}
@@ -0,0 +1,183 @@
+import { PublicKey } from '@solana/web3.js';
+import { concatBytes } from './encoding';
+
+/**
+ * Minimal Borsh reader for decoding ZKFile program accounts
+ */
+export class BorshReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /**
+   * Read a u8
+   */
+  u8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  /**
+   * Read a little-endian u32
+   */
+  u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Read a little-endian i64 as a number (safe for timestamps)
+   */
+  i64(): number {
+    this.ensure(8);
+    const value = this.view.getBigInt64(this.offset, true);
+    this.offset += 8;
+    return Number(value);
+  }
+
+  /**
+   * Read a fixed number of bytes
+   */
+  fixedBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  /**
+   * Read a u32-length-prefixed UTF-8 string
+   */
+  string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+
+  /**
+   * Read a bool
+   */
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  /**
+   * Read u32-length-prefixed bytes
+   */
+  bytes(): Uint8Array {
+    return this.fixedBytes(this.u32());
+  }
+
+  /**
+   * Read a 32-byte public key
+   */
+  publicKey(): PublicKey {
+    return new PublicKey(this.fixedBytes(32));
+  }
+
+  /**
+   * Read an Option<T>
+   */
+  option<T>(read: (reader: this) => T): T | undefined {
+    return this.u8() === 0 ? undefined : read(this);
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new RangeError('Borsh data too short');
+    }
+  }
+}
+
+/**
+ * Minimal Borsh writer for encoding ZKFile program instructions
+ */
+export class BorshWriter {
+  private parts: Uint8Array[] = [];
+
+  /**
+   * Write a u8
+   */
+  u8(value: number): this {
+    this.parts.push(Uint8Array.of(value));
+    return this;
+  }
+
+  /**
+   * Write a bool
+   */
+  bool(value: boolean): this {
+    return this.u8(value ? 1 : 0);
+  }
+
+  /**
+   * Write a little-endian u32
+   */
+  u32(value: number): this {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    this.parts.push(bytes);
+    return this;
+  }
+
+  /**
+   * Write a little-endian i64
+   */
+  i64(value: number): this {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigInt64(0, BigInt(Math.trunc(value)), true);
+    this.parts.push(bytes);
+    return this;
+  }
+
+  /**
+   * Write bytes without a length prefix
+   */
+  fixedBytes(value: Uint8Array): this {
+    this.parts.push(value);
+    return this;
+  }
+
+  /**
+   * Write u32-length-prefixed bytes
+   */
+  bytes(value: Uint8Array): this {
+    return this.u32(value.length).fixedBytes(value);
+  }
+
+  /**
+   * Write a u32-length-prefixed UTF-8 string
+   */
+  string(value: string): this {
+    return this.bytes(new TextEncoder().encode(value));
+  }
+
+  /**
+   * Write a 32-byte public key
+   */
+  publicKey(value: PublicKey): this {
+    return this.fixedBytes(value.toBytes());
+  }
+
+  /**
+   * Write an Option<T>
+   */
+  option<T>(value: T | undefined | null, write: (writer: this, value: T) => void): this {
+    if (value === undefined || value === null) {
+      return this.u8(0);
+    }
+    this.u8(1);
+    write(this, value);
+    return this;
+  }
+
+  /**
+   * Get the encoded bytes
+   */
+  toBytes(): Uint8Array {
+    return concatBytes(...this.parts);
+  }
+}
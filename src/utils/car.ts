@@ -0,0 +1,94 @@
+import { decodeCidBytes, readVarint } from './cid';
+import type { Cid } from './cid';
+import { concatBytes } from './encoding';
+
+/**
+ * Streaming CARv1 reader
+ * A CAR is [varint length][dag-cbor header] followed by blocks of
+ * [varint length][CID][block data]; the header is skipped.
+ */
+
+/**
+ * Block read from a CAR
+ */
+export interface CarBlock {
+  cid: Cid;
+  bytes: Uint8Array;
+}
+
+/**
+ * Read the blocks of a CARv1 stream in order
+ */
+export class CarBlockReader {
+  /** Largest frame accepted; IPFS blocks are at most 2 MiB */
+  private static readonly MAX_FRAME_SIZE = 4 * 1024 * 1024;
+
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private buffer: Uint8Array = new Uint8Array(0);
+  private headerRead = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  /**
+   * Read the next block, or null at the end of the CAR
+   */
+  async next(): Promise<CarBlock | null> {
+    if (!this.headerRead) {
+      const header = await this.readFrame();
+      if (!header) {
+        throw new RangeError('CAR has no header');
+      }
+      this.headerRead = true;
+    }
+
+    const frame = await this.readFrame();
+    if (!frame) {
+      return null;
+    }
+    const [cid, cidLength] = decodeCidBytes(frame);
+    return { cid, bytes: frame.subarray(cidLength) };
+  }
+
+  /**
+   * Stop reading and release the underlying stream
+   */
+  async cancel(reason?: unknown): Promise<void> {
+    await this.reader.cancel(reason).catch(() => undefined);
+  }
+
+  /**
+   * Read one length-prefixed frame, or null at a clean end of stream
+   */
+  private async readFrame(): Promise<Uint8Array | null> {
+    let length: number | undefined;
+    let lengthSize = 0;
+    for (;;) {
+      if (length === undefined && this.buffer.length > 0) {
+        try {
+          [length, lengthSize] = readVarint(this.buffer);
+        } catch {
+          // Incomplete varint; read more
+        }
+        if (length !== undefined && length > CarBlockReader.MAX_FRAME_SIZE) {
+          throw new RangeError(`CAR frame too large: ${length} bytes`);
+        }
+      }
+      if (length !== undefined && this.buffer.length >= lengthSize + length) {
+        const frame = this.buffer.slice(lengthSize, lengthSize + length);
+        this.buffer = this.buffer.slice(lengthSize + length);
+        return frame;
+      }
+
+      const { done, value } = await this.reader.read();
+      if (done) {
+        if (this.buffer.length > 0) {
+          throw new RangeError('Truncated CAR');
+        }
+        return null;
+      }
+      this.buffer = concatBytes(this.buffer, value);
+    }
+  }
+}
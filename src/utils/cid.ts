@@ -0,0 +1,245 @@
+import bs58 from 'bs58';
+import { getCrypto } from './crypto';
+import { bytesEqual, concatBytes, toHex } from './encoding';
+
+/**
+ * Minimal CID and multihash support for computing and verifying IPFS content
+ * identifiers. Covers CIDv0 and CIDv1 (base32, base58btc and base16 multibase)
+ * with sha2-256 or identity multihashes.
+ */
+
+/** Multicodec codes */
+export const CODECS = {
+  raw: 0x55,
+  dagPb: 0x70,
+};
+
+/** Multihash function codes */
+export const MULTIHASH_CODES = {
+  identity: 0x00,
+  sha2_256: 0x12,
+};
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Decoded multihash
+ */
+export interface Multihash {
+  code: number;
+  digest: Uint8Array;
+  /** Encoded multihash (code, length, digest) */
+  bytes: Uint8Array;
+}
+
+/**
+ * Decoded content identifier
+ */
+export interface Cid {
+  version: 0 | 1;
+  codec: number;
+  multihash: Multihash;
+}
+
+/**
+ * Read an unsigned LEB128 varint
+ */
+export function readVarint(data: Uint8Array, offset = 0): [value: number, length: number] {
+  let value = 0;
+  let shift = 0;
+  for (let i = offset; i < data.length && shift < 53; i++) {
+    value += (data[i] & 0x7f) * 2 ** shift;
+    shift += 7;
+    if ((data[i] & 0x80) === 0) {
+      return [value, i - offset + 1];
+    }
+  }
+  throw new RangeError('Invalid varint');
+}
+
+/**
+ * Encode an unsigned LEB128 varint
+ */
+export function encodeVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode a multihash at an offset, returning it with its encoded length
+ */
+export function decodeMultihash(data: Uint8Array, offset = 0): [Multihash, number] {
+  const [code, codeLength] = readVarint(data, offset);
+  const [size, sizeLength] = readVarint(data, offset + codeLength);
+  const start = offset + codeLength + sizeLength;
+  if (start + size > data.length) {
+    throw new RangeError('Truncated multihash');
+  }
+
+  return [
+    { code, digest: data.slice(start, start + size), bytes: data.slice(offset, start + size) },
+    start + size - offset,
+  ];
+}
+
+/**
+ * Decode a binary CID at an offset, returning it with its encoded length
+ */
+export function decodeCidBytes(data: Uint8Array, offset = 0): [Cid, number] {
+  // CIDv0 is a bare sha2-256 multihash
+  if (data[offset] === MULTIHASH_CODES.sha2_256 && data[offset + 1] === 0x20) {
+    const [multihash, length] = decodeMultihash(data, offset);
+    return [{ version: 0, codec: CODECS.dagPb, multihash }, length];
+  }
+
+  const [version, versionLength] = readVarint(data, offset);
+  if (version !== 1) {
+    throw new RangeError(`Unsupported CID version: ${version}`);
+  }
+  const [codec, codecLength] = readVarint(data, offset + versionLength);
+  const [multihash, multihashLength] = decodeMultihash(
+    data,
+    offset + versionLength + codecLength
+  );
+  return [{ version: 1, codec, multihash }, versionLength + codecLength + multihashLength];
+}
+
+/**
+ * Encode a CID in binary form
+ */
+export function encodeCidBytes(cid: Cid): Uint8Array {
+  if (cid.version === 0) {
+    return cid.multihash.bytes;
+  }
+  return concatBytes(encodeVarint(1), encodeVarint(cid.codec), cid.multihash.bytes);
+}
+
+/**
+ * Format a CID as a string: base58btc for CIDv0, base32 for CIDv1
+ */
+export function formatCid(cid: Cid): string {
+  if (cid.version === 0) {
+    return bs58.encode(cid.multihash.bytes);
+  }
+  return `b${encodeBase32(encodeCidBytes(cid))}`;
+}
+
+/**
+ * CIDv1 of a block, addressed by its sha2-256 hash
+ */
+export async function createCid(codec: number, block: Uint8Array): Promise<Cid> {
+  const webCrypto = await getCrypto();
+  const digest = new Uint8Array(await webCrypto.subtle.digest('SHA-256', block as BufferSource));
+  const bytes = concatBytes(
+    encodeVarint(MULTIHASH_CODES.sha2_256),
+    encodeVarint(digest.length),
+    digest
+  );
+  return { version: 1, codec, multihash: { code: MULTIHASH_CODES.sha2_256, digest, bytes } };
+}
+
+/**
+ * Parse a CID string
+ */
+export function parseCid(cid: string): Cid {
+  let bytes: Uint8Array;
+  if (cid.length === 46 && cid.startsWith('Qm')) {
+    bytes = bs58.decode(cid);
+  } else if (cid.startsWith('b')) {
+    bytes = decodeBase32(cid.slice(1));
+  } else if (cid.startsWith('B')) {
+    bytes = decodeBase32(cid.slice(1).toLowerCase());
+  } else if (cid.startsWith('z')) {
+    bytes = bs58.decode(cid.slice(1));
+  } else if (cid.startsWith('f')) {
+    bytes = decodeBase16(cid.slice(1));
+  } else {
+    throw new RangeError(`Unsupported CID encoding: ${cid}`);
+  }
+
+  const [parsed, length] = decodeCidBytes(bytes);
+  if (length !== bytes.length) {
+    throw new RangeError('Trailing bytes after CID');
+  }
+  return parsed;
+}
+
+/**
+ * Check data against a multihash
+ * Throws for hash functions that cannot be verified here.
+ */
+export async function verifyMultihash(multihash: Multihash, data: Uint8Array): Promise<boolean> {
+  switch (multihash.code) {
+    case MULTIHASH_CODES.identity:
+      return bytesEqual(multihash.digest, data);
+    case MULTIHASH_CODES.sha2_256: {
+      const webCrypto = await getCrypto();
+      const digest = new Uint8Array(
+        await webCrypto.subtle.digest('SHA-256', data as BufferSource)
+      );
+      return bytesEqual(multihash.digest, digest);
+    }
+    default:
+      throw new RangeError(`Unsupported multihash: 0x${multihash.code.toString(16)}`);
+  }
+}
+
+/**
+ * Key identifying a block by its multihash
+ */
+export function multihashKey(multihash: Multihash): string {
+  return toHex(multihash.bytes);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let result = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      result += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+  return result;
+}
+
+function decodeBase32(value: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of value) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new RangeError('Invalid base32 character');
+    }
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeBase16(value: string): Uint8Array {
+  if (value.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(value)) {
+    throw new RangeError('Invalid base16 string');
+  }
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
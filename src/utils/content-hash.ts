@@ -0,0 +1,70 @@
+import { poseidon2, poseidon3 } from 'poseidon-lite';
+import { bytesToField, digestToField, fieldToBytes, FIELD_ELEMENT_LENGTH } from './groth16';
+
+/**
+ * Hashes and commitments that circuits/content.circom proves statements about.
+ * The plaintext's first 31 bytes (its head) are one little-endian field
+ * element; the remaining bytes enter through their SHA-256.
+ */
+
+/** Plaintext bytes the content circuit reads directly */
+export const CONTENT_HEAD_LENGTH = 31;
+/** Longest prefix a content proof can fix */
+export const CONTENT_PREFIX_LENGTH = 16;
+/** Largest plaintext size a content proof can state, in bytes */
+export const CONTENT_MAX_SIZE = 2 ** 48 - 1;
+
+/**
+ * Pack the head of the plaintext into a field element, little-endian
+ */
+export function packHead(data: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = Math.min(data.length, CONTENT_HEAD_LENGTH) - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(data[i]);
+  }
+  return value;
+}
+
+/**
+ * Field element for the bytes after the head; zero when there are none
+ */
+export async function computeTailHash(data: Uint8Array): Promise<bigint> {
+  if (data.length <= CONTENT_HEAD_LENGTH) {
+    return 0n;
+  }
+  return await digestToField(data.subarray(CONTENT_HEAD_LENGTH));
+}
+
+/**
+ * Content hash of plaintext, as proven by content proofs:
+ * Poseidon(head, size, tailHash)
+ */
+export async function computeContentHash(data: Uint8Array): Promise<Uint8Array> {
+  return fieldToBytes(
+    poseidon3([packHead(data), BigInt(data.length), await computeTailHash(data)])
+  );
+}
+
+/**
+ * Hash of the ciphertext stored at a CID: its SHA-256, reduced mod r
+ */
+export async function computeCiphertextHash(ciphertext: Uint8Array): Promise<Uint8Array> {
+  return fieldToBytes(await digestToField(ciphertext));
+}
+
+/**
+ * Commitment to a data key: Poseidon(high, low) of its 128-bit halves
+ */
+export function computeKeyCommitment(dataKey: Uint8Array): Uint8Array {
+  return fieldToBytes(poseidon2(splitDataKey(dataKey)));
+}
+
+/**
+ * Split a raw 32-byte data key into its big-endian 128-bit halves
+ */
+export function splitDataKey(dataKey: Uint8Array): [bigint, bigint] {
+  if (dataKey.length !== FIELD_ELEMENT_LENGTH) {
+    throw new RangeError('Data key must be 32 bytes');
+  }
+  return [bytesToField(dataKey.subarray(0, 16)), bytesToField(dataKey.subarray(16))];
+}
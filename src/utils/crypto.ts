@@ -0,0 +1,22 @@
+/**
+ * Web Crypto resolution
+ * Browsers and Node.js 20+ expose `crypto` globally; Node.js 18 only exposes
+ * it through the crypto module's `webcrypto` export.
+ */
+
+let cached: Crypto | undefined;
+
+/**
+ * Get the Web Crypto implementation for the current runtime
+ */
+export async function getCrypto(): Promise<Crypto> {
+  if (!cached) {
+    if (typeof globalThis.crypto !== 'undefined' && globalThis.crypto.subtle) {
+      cached = globalThis.crypto;
+    } else {
+      const nodeCrypto = await import('crypto');
+      cached = nodeCrypto.webcrypto as unknown as Crypto;
+    }
+  }
+  return cached;
+}
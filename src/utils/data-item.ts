@@ -0,0 +1,176 @@
+import { ValidationError } from '../errors';
+import { getCrypto } from './crypto';
+import { concatBytes, toBase64Url, toHex } from './encoding';
+import type { DataItem, DataItemSigner, DataItemTag, WalletAdapter } from '../types';
+
+/**
+ * ANS-104 data items for Arweave bundlers
+ * Layout: [signature type (u16 LE)][signature][owner][target flag + target]
+ *         [anchor flag + anchor][tag count (u64 LE)][tag bytes length (u64 LE)]
+ *         [Avro-encoded tags][data]
+ */
+
+/**
+ * ANS-104 signature types
+ * ed25519 signs the raw deep hash; solana signs its hex string, which wallets
+ * can display as a printable message
+ */
+export const SIGNATURE_TYPES = {
+  ed25519: 2,
+  solana: 4,
+} as const;
+
+const SIGNATURE_LENGTH = 64;
+const OWNER_LENGTH = 32;
+const MAX_TAGS = 128;
+const MAX_TAG_NAME_LENGTH = 1024;
+const MAX_TAG_VALUE_LENGTH = 3072;
+
+/**
+ * Data item signer backed by a Solana wallet's signMessage (ANS-104 signature type 4)
+ */
+export function walletDataItemSigner(wallet: WalletAdapter): DataItemSigner {
+  if (!wallet.publicKey) {
+    throw new ValidationError('Wallet not connected', 'WALLET_NOT_CONNECTED');
+  }
+
+  return {
+    signatureType: SIGNATURE_TYPES.solana,
+    publicKey: wallet.publicKey.toBytes(),
+    sign: async (message) => {
+      if (!wallet.signMessage) {
+        throw new ValidationError(
+          'Wallet does not support message signing',
+          'SIGN_MESSAGE_NOT_SUPPORTED'
+        );
+      }
+      return await wallet.signMessage(new TextEncoder().encode(toHex(message)));
+    },
+  };
+}
+
+/**
+ * Build and sign a data item
+ */
+export async function createDataItem(
+  data: Uint8Array,
+  signer: DataItemSigner,
+  options: { tags?: DataItemTag[]; target?: Uint8Array; anchor?: Uint8Array } = {}
+): Promise<DataItem> {
+  const { tags = [], target, anchor } = options;
+  if (signer.publicKey.length !== OWNER_LENGTH) {
+    throw new ValidationError('Data item owner must be a 32-byte public key', 'INVALID_SIGNER');
+  }
+  if ((target && target.length !== 32) || (anchor && anchor.length !== 32)) {
+    throw new ValidationError('Data item target and anchor must be 32 bytes', 'INVALID_DATA_ITEM');
+  }
+
+  const tagBytes = encodeTags(tags);
+  const message = await deepHash([
+    new TextEncoder().encode('dataitem'),
+    new TextEncoder().encode('1'),
+    new TextEncoder().encode(signer.signatureType.toString()),
+    signer.publicKey,
+    target ?? new Uint8Array(0),
+    anchor ?? new Uint8Array(0),
+    tagBytes,
+    data,
+  ]);
+
+  const signature = await signer.sign(message);
+  if (signature.length !== SIGNATURE_LENGTH) {
+    throw new ValidationError('Data item signature must be 64 bytes', 'INVALID_SIGNATURE');
+  }
+
+  const prefix = new Uint8Array(2);
+  new DataView(prefix.buffer).setUint16(0, signer.signatureType, true);
+
+  const raw = concatBytes(
+    prefix,
+    signature,
+    signer.publicKey,
+    optionalField(target),
+    optionalField(anchor),
+    u64(tags.length),
+    u64(tagBytes.length),
+    tagBytes,
+    data
+  );
+
+  const webCrypto = await getCrypto();
+  const id = toBase64Url(
+    new Uint8Array(await webCrypto.subtle.digest('SHA-256', signature as BufferSource))
+  );
+
+  return { id, raw };
+}
+
+/**
+ * Encode tags as an Avro array of { name: bytes, value: bytes } records
+ */
+export function encodeTags(tags: DataItemTag[]): Uint8Array {
+  if (tags.length === 0) {
+    return new Uint8Array(0);
+  }
+  if (tags.length > MAX_TAGS) {
+    throw new ValidationError(`Data items allow at most ${MAX_TAGS} tags`, 'INVALID_TAGS');
+  }
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [zigzagVarint(tags.length)];
+  for (const tag of tags) {
+    const name = encoder.encode(tag.name);
+    const value = encoder.encode(tag.value);
+    if (name.length === 0 || name.length > MAX_TAG_NAME_LENGTH || value.length > MAX_TAG_VALUE_LENGTH) {
+      throw new ValidationError(`Invalid data item tag: ${tag.name}`, 'INVALID_TAGS');
+    }
+    parts.push(zigzagVarint(name.length), name, zigzagVarint(value.length), value);
+  }
+  parts.push(Uint8Array.of(0));
+
+  return concatBytes(...parts);
+}
+
+/**
+ * Arweave deep hash (SHA-384) over nested byte chunks
+ */
+export async function deepHash(data: Uint8Array | Uint8Array[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  if (Array.isArray(data)) {
+    let acc = await sha384(encoder.encode(`list${data.length}`));
+    for (const chunk of data) {
+      acc = await sha384(concatBytes(acc, await deepHash(chunk)));
+    }
+    return acc;
+  }
+
+  const tagHash = await sha384(encoder.encode(`blob${data.length}`));
+  return await sha384(concatBytes(tagHash, await sha384(data)));
+}
+
+async function sha384(data: Uint8Array): Promise<Uint8Array> {
+  const webCrypto = await getCrypto();
+  return new Uint8Array(await webCrypto.subtle.digest('SHA-384', data as BufferSource));
+}
+
+function optionalField(value?: Uint8Array): Uint8Array {
+  return value ? concatBytes(Uint8Array.of(1), value) : Uint8Array.of(0);
+}
+
+function u64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+  return bytes;
+}
+
+function zigzagVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let n = value * 2;
+  while (n >= 0x80) {
+    bytes.push((n & 0x7f) | 0x80);
+    n = Math.floor(n / 128);
+  }
+  bytes.push(n);
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,186 @@
+import type { CircuitSignals, Groth16Proof, PublicSignals } from 'snarkjs';
+import { getCrypto } from './crypto';
+import { loadFs } from './input';
+import type { CircuitArtifacts } from '../types';
+
+/**
+ * Groth16 (BN254) helpers: field elements, compact proof encoding and
+ * circuit artifact loading
+ */
+
+/** Order of the BN254 scalar field */
+export const SNARK_FIELD_SIZE =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/** Encoded size of a field element */
+export const FIELD_ELEMENT_LENGTH = 32;
+
+/** Encoded size of a Groth16 proof: A (G1), B (G2), C (G1), uncompressed */
+export const GROTH16_PROOF_LENGTH = 256;
+
+/** Verifications in progress, sharing snarkjs's cached curve */
+let activeVerifications = 0;
+
+/**
+ * Generate a Groth16 proof with snarkjs (loaded on first use)
+ * Proving runs single-threaded so no worker threads outlive it.
+ */
+export async function proveGroth16(
+  input: CircuitSignals,
+  wasm: string | Uint8Array,
+  zkey: string | Uint8Array
+): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }> {
+  const { groth16 } = await import('snarkjs');
+  return await groth16.fullProve(input, wasm, zkey, undefined, undefined, {
+    singleThread: true,
+  });
+}
+
+/**
+ * Verify a Groth16 proof with snarkjs (loaded on first use)
+ * snarkjs caches a multi-threaded curve for verification whose workers keep
+ * Node.js alive, so it is released once no verification is using it.
+ */
+export async function verifyGroth16(
+  verificationKey: Record<string, unknown>,
+  publicSignals: PublicSignals,
+  proof: Groth16Proof
+): Promise<boolean> {
+  const { groth16 } = await import('snarkjs');
+  activeVerifications++;
+  try {
+    return await groth16.verify(verificationKey, publicSignals, proof);
+  } finally {
+    if (--activeVerifications === 0) {
+      const { curve_bn128: curve } = globalThis as {
+        curve_bn128?: { terminate(): Promise<void> };
+      };
+      await curve?.terminate();
+    }
+  }
+}
+
+/**
+ * Map a string to a field element: SHA-256 of its UTF-8 bytes, reduced mod r
+ */
+export async function hashToField(value: string): Promise<bigint> {
+  return await digestToField(new TextEncoder().encode(value));
+}
+
+/**
+ * Map bytes to a field element: their SHA-256, reduced mod r
+ */
+export async function digestToField(data: Uint8Array): Promise<bigint> {
+  const webCrypto = await getCrypto();
+  const digest = new Uint8Array(await webCrypto.subtle.digest('SHA-256', data as BufferSource));
+  return bytesToField(digest) % SNARK_FIELD_SIZE;
+}
+
+/**
+ * Encode a field element as 32 big-endian bytes
+ */
+export function fieldToBytes(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(FIELD_ELEMENT_LENGTH);
+  for (let i = FIELD_ELEMENT_LENGTH - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Decode big-endian bytes as an integer
+ */
+export function bytesToField(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+/**
+ * Encode public signals as consecutive 32-byte field elements
+ */
+export function encodePublicSignals(signals: PublicSignals): Uint8Array {
+  const bytes = new Uint8Array(signals.length * FIELD_ELEMENT_LENGTH);
+  signals.forEach((signal, i) => bytes.set(fieldToBytes(BigInt(signal)), i * FIELD_ELEMENT_LENGTH));
+  return bytes;
+}
+
+/**
+ * Decode public signals encoded by encodePublicSignals
+ */
+export function decodePublicSignals(bytes: Uint8Array): PublicSignals {
+  if (bytes.length % FIELD_ELEMENT_LENGTH !== 0) {
+    throw new RangeError('Public inputs must be 32-byte field elements');
+  }
+
+  const signals: PublicSignals = [];
+  for (let offset = 0; offset < bytes.length; offset += FIELD_ELEMENT_LENGTH) {
+    signals.push(bytesToField(bytes.subarray(offset, offset + FIELD_ELEMENT_LENGTH)).toString());
+  }
+  return signals;
+}
+
+/**
+ * Encode a snarkjs Groth16 proof in the 256-byte form used by alt_bn128
+ * precompiles: A.x, A.y, B.x (c1, c0), B.y (c1, c0), C.x, C.y
+ */
+export function encodeGroth16Proof(proof: Groth16Proof): Uint8Array {
+  const elements = [
+    proof.pi_a[0],
+    proof.pi_a[1],
+    proof.pi_b[0][1],
+    proof.pi_b[0][0],
+    proof.pi_b[1][1],
+    proof.pi_b[1][0],
+    proof.pi_c[0],
+    proof.pi_c[1],
+  ];
+  return encodePublicSignals(elements);
+}
+
+/**
+ * Decode a proof encoded by encodeGroth16Proof
+ */
+export function decodeGroth16Proof(bytes: Uint8Array): Groth16Proof {
+  if (bytes.length !== GROTH16_PROOF_LENGTH) {
+    throw new RangeError(`Groth16 proof must be ${GROTH16_PROOF_LENGTH} bytes`);
+  }
+
+  const [ax, ay, bx1, bx0, by1, by0, cx, cy] = decodePublicSignals(bytes);
+  return {
+    pi_a: [ax, ay, '1'],
+    pi_b: [
+      [bx0, bx1],
+      [by0, by1],
+      ['1', '0'],
+    ],
+    pi_c: [cx, cy, '1'],
+    protocol: 'groth16',
+    curve: 'bn128',
+  };
+}
+
+/**
+ * Load a snarkjs verification key from an artifact: a parsed object, a URL, or
+ * (in Node.js) a file path
+ */
+export async function loadVerificationKey(
+  verificationKey: NonNullable<CircuitArtifacts['verificationKey']>
+): Promise<Record<string, unknown>> {
+  if (typeof verificationKey !== 'string') {
+    return verificationKey;
+  }
+  if (/^https?:\/\//.test(verificationKey)) {
+    const response = await fetch(verificationKey);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as Record<string, unknown>;
+  }
+
+  const fs = await loadFs();
+  return JSON.parse(await fs.promises.readFile(verificationKey, 'utf8'));
+}
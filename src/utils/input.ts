@@ -0,0 +1,286 @@
+import { ValidationError } from '../errors';
+import { concatBytes } from './encoding';
+import type { FileInput } from '../types';
+
+/**
+ * Runtime-neutral input normalization
+ * Resolves browser File/Blob objects, byte arrays, Node.js Buffers and
+ * Readables, web streams and file system paths without relying on
+ * browser-only globals.
+ */
+
+/**
+ * Basic facts about an input, where they can be known without reading it
+ */
+export interface InputInfo {
+  /** File name */
+  name?: string;
+  /** MIME type */
+  type?: string;
+  /** Size in bytes */
+  size?: number;
+}
+
+/**
+ * Check for a File without assuming the global exists (Node.js 18 has none)
+ */
+export function isFile(input: unknown): input is File {
+  return typeof File !== 'undefined' && input instanceof File;
+}
+
+/**
+ * Check for a Blob without assuming the global exists
+ */
+export function isBlob(input: unknown): input is Blob {
+  return typeof Blob !== 'undefined' && input instanceof Blob;
+}
+
+/**
+ * Check for a web ReadableStream
+ */
+export function isReadableStream(input: unknown): input is ReadableStream<Uint8Array> {
+  return typeof ReadableStream !== 'undefined' && input instanceof ReadableStream;
+}
+
+/**
+ * Check for an async iterable such as a Node.js Readable
+ */
+function isAsyncIterable(input: unknown): input is AsyncIterable<Uint8Array> {
+  return (
+    typeof input === 'object' &&
+    input !== null &&
+    typeof (input as AsyncIterable<Uint8Array>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Read an input fully into memory
+ */
+export async function readInput(input: FileInput): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) {
+    return input;
+  }
+  if (input instanceof ArrayBuffer) {
+    return new Uint8Array(input);
+  }
+  if (isBlob(input)) {
+    return new Uint8Array(await input.arrayBuffer());
+  }
+  if (typeof input === 'string') {
+    const fs = await loadFs();
+    return new Uint8Array(await fs.promises.readFile(input));
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of toAsyncIterable(input)) {
+    chunks.push(chunk);
+  }
+  return concatBytes(...chunks);
+}
+
+/**
+ * Open an input as a web ReadableStream
+ */
+export async function toReadableStream(input: FileInput): Promise<ReadableStream<Uint8Array>> {
+  if (isReadableStream(input)) {
+    return input;
+  }
+  if (isBlob(input)) {
+    return input.stream();
+  }
+  if (input instanceof Uint8Array || input instanceof ArrayBuffer) {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes);
+        controller.close();
+      },
+    });
+  }
+  if (typeof input === 'string') {
+    const fs = await loadFs();
+    return iterableToStream(fs.createReadStream(input));
+  }
+  if (isAsyncIterable(input)) {
+    return iterableToStream(input);
+  }
+
+  throw new ValidationError('Unsupported file input', 'UNSUPPORTED_INPUT');
+}
+
+/**
+ * Describe an input's name, type and size without reading its contents
+ */
+export async function describeInput(input: FileInput): Promise<InputInfo> {
+  if (isFile(input)) {
+    return { name: input.name, type: input.type || undefined, size: input.size };
+  }
+  if (isBlob(input)) {
+    return { type: input.type || undefined, size: input.size };
+  }
+  if (input instanceof Uint8Array || input instanceof ArrayBuffer) {
+    return { size: input.byteLength };
+  }
+  if (typeof input === 'string') {
+    const fs = await loadFs();
+    const stats = await fs.promises.stat(input);
+    return { name: input.split(/[\\/]/).pop(), size: stats.size };
+  }
+  return {};
+}
+
+/**
+ * Check whether an input can be read in one piece cheaply
+ * Streams and Node.js Readables are consumed incrementally instead
+ */
+export function isBufferedInput(input: FileInput): boolean {
+  return (
+    input instanceof Uint8Array ||
+    input instanceof ArrayBuffer ||
+    isBlob(input) ||
+    typeof input === 'string'
+  );
+}
+
+/**
+ * Read bytes [start, end) of a buffered input without reading the rest
+ * Only inputs accepted by isBufferedInput can be read out of order
+ */
+export async function readInputRange(
+  input: FileInput,
+  start: number,
+  end: number
+): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) {
+    return input.subarray(start, end);
+  }
+  if (input instanceof ArrayBuffer) {
+    return new Uint8Array(input, start, Math.max(0, Math.min(end, input.byteLength) - start));
+  }
+  if (isBlob(input)) {
+    return new Uint8Array(await input.slice(start, end).arrayBuffer());
+  }
+  if (typeof input === 'string') {
+    const fs = await loadFs();
+    const handle = await fs.promises.open(input, 'r');
+    try {
+      const buffer = new Uint8Array(end - start);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  throw new ValidationError('Input cannot be read out of order', 'UNSUPPORTED_INPUT');
+}
+
+/**
+ * Split a stream into the stream itself and a copy read in lockstep with it
+ * Unlike tee(), the source is pulled no faster than the slower branch, so
+ * neither side buffers more than a chunk. Cancelling the copy detaches it.
+ */
+export function forkStream(
+  stream: ReadableStream<Uint8Array>
+): [ReadableStream<Uint8Array>, ReadableStream<Uint8Array>] {
+  let copyController!: ReadableStreamDefaultController<Uint8Array>;
+  let detached = false;
+  let resume: (() => void) | undefined;
+
+  const copy = new ReadableStream<Uint8Array>(
+    {
+      start: (controller) => {
+        copyController = controller;
+      },
+      pull: () => {
+        resume?.();
+      },
+      cancel: () => {
+        detached = true;
+        resume?.();
+      },
+    },
+    { highWaterMark: 1 }
+  );
+
+  const main = stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform: async (chunk, controller) => {
+        while (!detached && (copyController.desiredSize ?? 0) <= 0) {
+          await new Promise<void>((resolve) => (resume = resolve));
+        }
+        if (!detached) {
+          copyController.enqueue(chunk);
+        }
+        controller.enqueue(chunk);
+      },
+      flush: () => {
+        if (!detached) {
+          copyController.close();
+        }
+      },
+    })
+  );
+
+  return [main, copy];
+}
+
+/**
+ * Iterate over a web stream or async iterable
+ */
+async function* toAsyncIterable(input: FileInput): AsyncIterable<Uint8Array> {
+  if (isReadableStream(input)) {
+    const reader = input.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  if (isAsyncIterable(input)) {
+    yield* input;
+    return;
+  }
+
+  throw new ValidationError('Unsupported file input', 'UNSUPPORTED_INPUT');
+}
+
+/**
+ * Adapt an async iterable (e.g. a Node.js Readable) to a web ReadableStream
+ */
+function iterableToStream(iterable: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Load the Node.js fs module on demand so browser bundles never require it
+ */
+export async function loadFs(): Promise<typeof import('fs')> {
+  try {
+    return await import('fs');
+  } catch {
+    throw new ValidationError(
+      'File paths are only supported in Node.js',
+      'FILE_SYSTEM_UNAVAILABLE'
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import type { PasswordStrength } from '../types';
+
+/**
+ * Offline password strength estimate, for password policies
+ * Entropy is estimated from the character classes used and the length, with
+ * repeated characters and sequences such as "abc" or "321" counting for less.
+ */
+
+/** Minimum entropy in bits for scores 1 to 4 */
+const SCORE_THRESHOLDS = [28, 45, 60, 75];
+
+/** Common passwords, compared without surrounding digits and symbols */
+const COMMON_PASSWORDS = new Set([
+  'password',
+  'passw0rd',
+  'qwerty',
+  'qwertyuiop',
+  'asdfgh',
+  'letmein',
+  'welcome',
+  'admin',
+  'iloveyou',
+  'monkey',
+  'dragon',
+  'sunshine',
+  'princess',
+  'football',
+  'baseball',
+  'master',
+  'shadow',
+  'secret',
+  'trustno',
+  'abc',
+  'zkfile',
+  'solana',
+]);
+
+/**
+ * Estimate the strength of a password, from 0 (very weak) to 4 (very strong)
+ */
+export function estimatePasswordStrength(password: string): PasswordStrength {
+  const characters = Array.from(password);
+
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/[0-9]/.test(password)) pool += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) pool += 33;
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((re) =>
+    re.test(password)
+  ).length;
+
+  // Repeats and the third and later characters of a sequence add little
+  let length = 0;
+  let patterned = false;
+  const codes = characters.map((character) => character.codePointAt(0)!);
+  codes.forEach((code, i) => {
+    const step = code - codes[i - 1];
+    const repeated = step === 0;
+    const sequential = i >= 2 && Math.abs(step) === 1 && step === codes[i - 1] - codes[i - 2];
+    patterned ||= repeated || sequential;
+    length += repeated || sequential ? 0.25 : 1;
+  });
+
+  const stripped = password.toLowerCase().replace(/^[^a-z]+|[^a-z]+$/g, '');
+  const common = COMMON_PASSWORDS.has(stripped);
+
+  const entropy = pool > 0 ? length * Math.log2(pool) : 0;
+  const score = common ? 0 : SCORE_THRESHOLDS.filter((threshold) => entropy >= threshold).length;
+  if (score === 4) {
+    return { score, feedback: [] };
+  }
+
+  const feedback: string[] = [];
+  if (common) {
+    feedback.push('Avoid common passwords');
+  }
+  if (characters.length < 12) {
+    feedback.push('Use at least 12 characters');
+  }
+  if (classes < 3) {
+    feedback.push('Mix upper and lower case letters, numbers and symbols');
+  }
+  if (patterned) {
+    feedback.push('Avoid repeated characters and sequences');
+  }
+  return { score, feedback };
+}
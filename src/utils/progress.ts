@@ -0,0 +1,92 @@
+import type { ProgressCallback, ProgressPhase } from '../types';
+
+/**
+ * Tracks bytes processed in one pipeline phase and reports structured progress
+ */
+export class ProgressTracker {
+  private bytesDone = 0;
+
+  constructor(
+    private phase: ProgressPhase,
+    private onProgress?: ProgressCallback,
+    private bytesTotal?: number
+  ) {}
+
+  /**
+   * Set the total once it becomes known
+   */
+  setTotal(bytesTotal: number | undefined): void {
+    this.bytesTotal = bytesTotal;
+  }
+
+  /**
+   * Report the start of the phase
+   */
+  start(): void {
+    this.emit();
+  }
+
+  /**
+   * Record processed bytes
+   */
+  advance(bytes: number): void {
+    this.bytesDone += bytes;
+    this.emit();
+  }
+
+  /**
+   * Report the phase as complete
+   */
+  complete(bytesDone = this.bytesDone): void {
+    this.bytesDone = bytesDone;
+    this.bytesTotal ??= bytesDone;
+    this.emit(100);
+  }
+
+  /**
+   * Pass-through stream that counts the bytes read from it; completes on flush
+   */
+  transform(): TransformStream<Uint8Array, Uint8Array> {
+    return new TransformStream<Uint8Array, Uint8Array>({
+      start: () => this.start(),
+      transform: (chunk, controller) => {
+        controller.enqueue(chunk);
+        this.advance(chunk.length);
+      },
+      flush: () => this.complete(),
+    });
+  }
+
+  private emit(percent?: number): void {
+    if (!this.onProgress) {
+      return;
+    }
+
+    const { bytesDone, bytesTotal } = this;
+    this.onProgress({
+      phase: this.phase,
+      bytesDone,
+      bytesTotal,
+      percent:
+        percent ??
+        (bytesTotal ? Math.min(99, Math.floor((bytesDone / bytesTotal) * 100)) : undefined),
+    });
+  }
+}
+
+/**
+ * Split bytes into a stream of slices so consumers can report progress as they read
+ */
+export function sliceToStream(data: Uint8Array, sliceSize = 64 * 1024): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.subarray(offset, offset + sliceSize));
+      offset += sliceSize;
+    },
+  });
+}
@@ -0,0 +1,65 @@
+import { computeCid, UnixFsImporter } from './unixfs-importer';
+import { formatCid } from './cid';
+
+/** Deterministic test content */
+function content(length: number): Uint8Array {
+  return new Uint8Array(length).map((_, i) => (i * 7 + 3) & 0xff);
+}
+
+// Reference CIDs from `ipfs add --cid-version=1 --raw-leaves --chunker=size-<chunkSize>`
+// with a balanced layout of at most `maxLinks` links per node
+const VECTORS: [string, number, number, number, string][] = [
+  ['empty', 0, 262144, 174, 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku'],
+  ['one small chunk', 11, 262144, 174, 'bafkreiduwvoj3yf6d2env5ppysbyogofxfxxa65up6m7l5fdbvzgtmedru'],
+  ['one full chunk', 262144, 262144, 174, 'bafkreih4mbpgbbmrcjifkrtxbk4fbp57ajbuqqkawqwr62xjkvv3vj3yjy'],
+  ['two chunks', 262145, 262144, 174, 'bafybeidwin3m5xskbuqroa6hesb2krs2xmmdekolinwokjj2hmdmst5ozu'],
+  ['12 chunks', 3000000, 262144, 174, 'bafybeieg5wt7qjz7vqlzfqc6mracfchvumddfb66uial72p2amrz6xbrbm'],
+  ['maxLinks leaves', 2, 1, 2, 'bafybeidr6znhecnrwet55wcgvxbj5jazghky4muwlvhcfwvwg5gvfsgc5e'],
+  ['fewer than maxLinks leaves', 2, 1, 3, 'bafybeidr6znhecnrwet55wcgvxbj5jazghky4muwlvhcfwvwg5gvfsgc5e'],
+  ['maxLinks² leaves', 4, 1, 2, 'bafybeiahdfewxmgews57hdfdb2j75tiyb4ptnurtutrqqujcxcrvla4nem'],
+  ['maxLinks² + 1 leaves', 5, 1, 2, 'bafybeidkzkaezgyjbuypvrtwud2lz3qnon5g5koyqtv3lqb5hamsr2pyya'],
+  ['3 × maxLinks leaves', 9, 1, 3, 'bafybeig2snlwpd4jl5bpzyehmujq7xzfwlipr2tbtfvu2j7wonlar2ivce'],
+  ['3 × maxLinks + 1 leaves', 10, 1, 3, 'bafybeidpzshndmypd4hdpuodmhzpt435iubkzjvxjsxxzodjmqtjrcbybu'],
+  ['maxLinks³ leaves', 27, 1, 3, 'bafybeicomeu3us6qaf4rbbcde52a7jryacsiuxsktivpao2nk6tevozwji'],
+  ['short last chunk', 30, 4, 3, 'bafybeifyg3kdafi2m4yxy4rqduvnaxaf5coemb37kmzuupbyqnyjmxafse'],
+];
+
+describe('computeCid', () => {
+  it.each(VECTORS)('matches Kubo for %s', async (_, length, chunkSize, maxLinks, expected) => {
+    expect(await computeCid(content(length), { chunkSize, maxLinks })).toBe(expected);
+  });
+
+  it('gives the same CID when the leaf count is an exact multiple of maxLinks', async () => {
+    const data = new Uint8Array([1, 2]);
+    expect(await computeCid(data, { chunkSize: 1, maxLinks: 2 })).toBe(
+      await computeCid(data, { chunkSize: 1, maxLinks: 3 })
+    );
+  });
+
+  it('gives the same CID for a stream split at arbitrary points', async () => {
+    const data = content(100);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const [start, end] of [[0, 3], [3, 50], [50, 51], [51, 100]]) {
+          controller.enqueue(data.subarray(start, end));
+        }
+        controller.close();
+      },
+    });
+    const options = { chunkSize: 8, maxLinks: 3 };
+    expect(await computeCid(stream, options)).toBe(await computeCid(data, options));
+  });
+});
+
+describe('UnixFsImporter', () => {
+  it('rejects writes after finish', async () => {
+    const importer = new UnixFsImporter();
+    expect(formatCid(await importer.finish())).toBe(VECTORS[0][4]);
+    await expect(importer.write(new Uint8Array(1))).rejects.toThrow('already finished');
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new UnixFsImporter({ chunkSize: 0 })).toThrow(RangeError);
+    expect(() => new UnixFsImporter({ maxLinks: 1 })).toThrow(RangeError);
+  });
+});
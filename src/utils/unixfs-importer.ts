@@ -0,0 +1,173 @@
+import { CODECS, createCid, formatCid } from './cid';
+import type { Cid } from './cid';
+import { concatBytes } from './encoding';
+import { encodeDagPbNode, encodeUnixFsData, UNIXFS_TYPES } from './unixfs';
+import type { CidOptions } from '../types';
+
+/**
+ * UnixFS importer that computes file CIDs the way `ipfs add --cid-version=1` does:
+ * fixed-size chunks stored as raw leaves, joined by a balanced dag-pb tree
+ */
+
+/** Default chunk size (Kubo's size-262144 chunker) */
+export const UNIXFS_CHUNK_SIZE = 256 * 1024;
+/** Default maximum links per tree node */
+export const UNIXFS_MAX_LINKS = 174;
+
+/**
+ * Block in the tree being built
+ */
+interface DagEntry {
+  cid: Cid;
+  /** File bytes under the block */
+  fileSize: number;
+  /** Encoded size of the block and everything under it */
+  dagSize: number;
+}
+
+/**
+ * Incremental UnixFS file importer
+ * Only CIDs are kept: each full chunk is hashed as it arrives and a tree node
+ * is written as soon as it has its maximum number of links.
+ */
+export class UnixFsImporter {
+  private chunkSize: number;
+  private maxLinks: number;
+  private pending: Uint8Array[] = [];
+  private pendingLength = 0;
+  /** Leaves added so far, including those already folded into parents */
+  private leafCount = 0;
+  /** Entries waiting for a parent, by tree level (0 = leaves) */
+  private levels: DagEntry[][] = [[]];
+  private finished = false;
+
+  constructor(options: CidOptions = {}) {
+    this.chunkSize = options.chunkSize ?? UNIXFS_CHUNK_SIZE;
+    this.maxLinks = options.maxLinks ?? UNIXFS_MAX_LINKS;
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize <= 0) {
+      throw new RangeError('Chunk size must be a positive integer');
+    }
+    if (!Number.isInteger(this.maxLinks) || this.maxLinks < 2) {
+      throw new RangeError('Max links must be an integer of at least 2');
+    }
+  }
+
+  /**
+   * Add file data
+   */
+  async write(data: Uint8Array): Promise<void> {
+    if (this.finished) {
+      throw new Error('Importer already finished');
+    }
+
+    this.pending.push(data);
+    this.pendingLength += data.length;
+    if (this.pendingLength < this.chunkSize) {
+      return;
+    }
+
+    let buffer = concatBytes(...this.pending);
+    let offset = 0;
+    for (; buffer.length - offset >= this.chunkSize; offset += this.chunkSize) {
+      await this.addLeaf(buffer.subarray(offset, offset + this.chunkSize));
+    }
+    buffer = buffer.slice(offset);
+    this.pending = [buffer];
+    this.pendingLength = buffer.length;
+  }
+
+  /**
+   * Finish the file and get its root CID
+   * A file of at most one chunk is a single raw block.
+   */
+  async finish(): Promise<Cid> {
+    if (this.finished) {
+      throw new Error('Importer already finished');
+    }
+    this.finished = true;
+
+    // Empty content is a single empty raw leaf
+    if (this.pendingLength > 0 || this.leafCount === 0) {
+      await this.addLeaf(concatBytes(...this.pending));
+    }
+
+    for (let level = 0; ; level++) {
+      const entries = this.levels[level];
+      if (level === this.levels.length - 1 && entries.length === 1) {
+        return entries[0].cid;
+      }
+      if (entries.length > 0) {
+        await this.reduce(level);
+      }
+    }
+  }
+
+  private async addLeaf(chunk: Uint8Array): Promise<void> {
+    const cid = await createCid(CODECS.raw, chunk);
+    this.leafCount++;
+    this.levels[0].push({ cid, fileSize: chunk.length, dagSize: chunk.length });
+
+    for (let level = 0; this.levels[level]?.length === this.maxLinks; level++) {
+      await this.reduce(level);
+    }
+  }
+
+  /**
+   * Replace the entries of a level with a parent node one level up
+   */
+  private async reduce(level: number): Promise<void> {
+    const children = this.levels[level];
+    this.levels[level] = [];
+
+    const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+    const block = encodeDagPbNode({
+      links: children.map((child) => ({ cid: child.cid, name: '', size: child.dagSize })),
+      data: encodeUnixFsData({
+        type: UNIXFS_TYPES.file,
+        fileSize,
+        blockSizes: children.map((child) => child.fileSize),
+      }),
+    });
+
+    if (!this.levels[level + 1]) {
+      this.levels[level + 1] = [];
+    }
+    this.levels[level + 1].push({
+      cid: await createCid(CODECS.dagPb, block),
+      fileSize,
+      dagSize: children.reduce((sum, child) => sum + child.dagSize, block.length),
+    });
+  }
+}
+
+/**
+ * Compute the IPFS CIDv1 of file content without storing it
+ * Matches `ipfs add --cid-version=1` with the default chunker: content of up to
+ * one chunk gets a raw CID, larger content the CID of a UnixFS file tree.
+ */
+export async function computeCid(
+  data: Uint8Array | ReadableStream<Uint8Array>,
+  options: CidOptions = {}
+): Promise<string> {
+  const importer = new UnixFsImporter(options);
+
+  if (data instanceof Uint8Array) {
+    await importer.write(data);
+  } else {
+    const reader = data.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        await importer.write(value);
+      }
+    } catch (error) {
+      await reader.cancel(error).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return formatCid(await importer.finish());
+}
@@ -0,0 +1,182 @@
+import { decodeCidBytes, encodeCidBytes, encodeVarint, readVarint } from './cid';
+import type { Cid } from './cid';
+import { concatBytes } from './encoding';
+
+/**
+ * dag-pb and UnixFS encoding and decoding for IPFS file DAGs
+ */
+
+/** UnixFS node types */
+export const UNIXFS_TYPES = {
+  raw: 0,
+  directory: 1,
+  file: 2,
+  metadata: 3,
+  symlink: 4,
+  hamtShard: 5,
+};
+
+/**
+ * Link from a dag-pb node to a child block
+ */
+export interface DagPbLink {
+  cid: Cid;
+  name?: string;
+  size?: number;
+}
+
+/**
+ * Decoded dag-pb node
+ */
+export interface DagPbNode {
+  data?: Uint8Array;
+  links: DagPbLink[];
+}
+
+/**
+ * Decoded UnixFS data message
+ */
+export interface UnixFsData {
+  type: number;
+  data?: Uint8Array;
+  fileSize?: number;
+  /** Sizes of the file data under each link */
+  blockSizes: number[];
+}
+
+/**
+ * Decode a dag-pb node (PBNode: Links = 2, Data = 1)
+ */
+export function decodeDagPbNode(bytes: Uint8Array): DagPbNode {
+  const node: DagPbNode = { links: [] };
+  readFields(bytes, (field, value) => {
+    if (field === 1 && value instanceof Uint8Array) {
+      node.data = value;
+    } else if (field === 2 && value instanceof Uint8Array) {
+      node.links.push(decodeDagPbLink(value));
+    }
+  });
+  return node;
+}
+
+/**
+ * Decode a UnixFS Data message (Type = 1, Data = 2, filesize = 3, blocksizes = 4)
+ */
+export function decodeUnixFsData(bytes: Uint8Array): UnixFsData {
+  const result: UnixFsData = { type: -1, blockSizes: [] };
+  readFields(bytes, (field, value) => {
+    if (field === 1 && typeof value === 'number') {
+      result.type = value;
+    } else if (field === 2 && value instanceof Uint8Array) {
+      result.data = value;
+    } else if (field === 3 && typeof value === 'number') {
+      result.fileSize = value;
+    } else if (field === 4) {
+      if (typeof value === 'number') {
+        result.blockSizes.push(value);
+      } else {
+        // Packed encoding
+        for (let offset = 0; offset < value.length; ) {
+          const [size, length] = readVarint(value, offset);
+          result.blockSizes.push(size);
+          offset += length;
+        }
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Encode a dag-pb node in canonical form (links before data)
+ */
+export function encodeDagPbNode(node: DagPbNode): Uint8Array {
+  const fields = node.links.map((link) => bytesField(2, encodeDagPbLink(link)));
+  if (node.data) {
+    fields.push(bytesField(1, node.data));
+  }
+  return concatBytes(...fields);
+}
+
+/**
+ * Encode a UnixFS Data message; block sizes are written unpacked, as go-unixfs does
+ */
+export function encodeUnixFsData(unixfs: UnixFsData): Uint8Array {
+  const fields = [varintField(1, unixfs.type)];
+  if (unixfs.data) {
+    fields.push(bytesField(2, unixfs.data));
+  }
+  if (unixfs.fileSize !== undefined) {
+    fields.push(varintField(3, unixfs.fileSize));
+  }
+  fields.push(...unixfs.blockSizes.map((size) => varintField(4, size)));
+  return concatBytes(...fields);
+}
+
+function encodeDagPbLink(link: DagPbLink): Uint8Array {
+  const fields = [bytesField(1, encodeCidBytes(link.cid))];
+  if (link.name !== undefined) {
+    fields.push(bytesField(2, new TextEncoder().encode(link.name)));
+  }
+  if (link.size !== undefined) {
+    fields.push(varintField(3, link.size));
+  }
+  return concatBytes(...fields);
+}
+
+function decodeDagPbLink(bytes: Uint8Array): DagPbLink {
+  const link: Partial<DagPbLink> = {};
+  readFields(bytes, (field, value) => {
+    if (field === 1 && value instanceof Uint8Array) {
+      link.cid = decodeCidBytes(value)[0];
+    } else if (field === 2 && value instanceof Uint8Array) {
+      link.name = new TextDecoder().decode(value);
+    } else if (field === 3 && typeof value === 'number') {
+      link.size = value;
+    }
+  });
+  if (!link.cid) {
+    throw new RangeError('dag-pb link has no hash');
+  }
+  return link as DagPbLink;
+}
+
+/**
+ * Walk the fields of a protobuf message (varint and length-delimited wire types)
+ */
+function readFields(
+  bytes: Uint8Array,
+  visit: (field: number, value: number | Uint8Array) => void
+): void {
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [key, keyLength] = readVarint(bytes, offset);
+    offset += keyLength;
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      const [value, length] = readVarint(bytes, offset);
+      offset += length;
+      visit(field, value);
+    } else if (wireType === 2) {
+      const [length, lengthLength] = readVarint(bytes, offset);
+      offset += lengthLength;
+      if (offset + length > bytes.length) {
+        throw new RangeError('Truncated protobuf field');
+      }
+      visit(field, bytes.subarray(offset, offset + length));
+      offset += length;
+    } else {
+      throw new RangeError(`Unsupported protobuf wire type: ${wireType}`);
+    }
+  }
+}
+
+function varintField(field: number, value: number): Uint8Array {
+  return concatBytes(encodeVarint(field * 8), encodeVarint(value));
+}
+
+function bytesField(field: number, value: Uint8Array): Uint8Array {
+  return concatBytes(encodeVarint(field * 8 + 2), encodeVarint(value.length), value);
+}
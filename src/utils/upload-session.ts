@@ -0,0 +1,57 @@
+import { ValidationError } from '../errors';
+import { fromBase64, toBase64 } from './encoding';
+import type { CompletedPart, MultipartUpload } from '../types';
+
+/**
+ * Resumable upload session state
+ * Serialized into the opaque token handed to callers. It holds no secrets:
+ * the container prefix carries the data key wrapped under the password.
+ */
+export interface UploadSession {
+  version: 1;
+  /** Storage provider name */
+  provider: string;
+  /** Provider multipart upload handle */
+  upload: MultipartUpload;
+  /** Plaintext size of the file being uploaded */
+  size: number;
+  /** Encrypted chunks per part */
+  chunksPerPart: number;
+  /** Container header and encrypted metadata (base64) */
+  prefix: string;
+  /** Parts stored so far */
+  parts: CompletedPart[];
+}
+
+/**
+ * Encode a session as a token
+ */
+export function encodeUploadSession(session: UploadSession): string {
+  return toBase64(new TextEncoder().encode(JSON.stringify(session)));
+}
+
+/**
+ * Decode a session token
+ */
+export function decodeUploadSession(token: string): UploadSession {
+  let session: Partial<UploadSession>;
+  try {
+    session = JSON.parse(new TextDecoder().decode(fromBase64(token)));
+  } catch {
+    throw new ValidationError('Invalid upload session token', 'INVALID_SESSION');
+  }
+
+  if (
+    session?.version !== 1 ||
+    typeof session.provider !== 'string' ||
+    typeof session.upload?.uploadId !== 'string' ||
+    !Number.isInteger(session.size) ||
+    !Number.isInteger(session.chunksPerPart) ||
+    session.chunksPerPart! <= 0 ||
+    typeof session.prefix !== 'string' ||
+    !Array.isArray(session.parts)
+  ) {
+    throw new ValidationError('Invalid upload session token', 'INVALID_SESSION');
+  }
+  return session as UploadSession;
+}
@@ -0,0 +1,69 @@
+import nacl from 'tweetnacl';
+
+/**
+ * Ed25519 to X25519 key conversion
+ * Lets a data key be wrapped for a Solana wallet with tweetnacl box using
+ * nothing but the wallet's public key.
+ */
+
+const P = (1n << 255n) - 19n;
+
+/**
+ * Convert an ed25519 public key to its X25519 (Montgomery) form: u = (1 + y) / (1 - y)
+ */
+export function ed25519PublicKeyToX25519(publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length !== 32) {
+    throw new RangeError('Ed25519 public key must be 32 bytes');
+  }
+
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) | BigInt(i === 31 ? publicKey[i] & 0x7f : publicKey[i]);
+  }
+  if (y >= P || y === 1n) {
+    throw new RangeError('Invalid ed25519 public key');
+  }
+
+  let u = mod((1n + y) * modPow(mod(1n - y), P - 2n));
+  const result = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    result[i] = Number(u & 0xffn);
+    u >>= 8n;
+  }
+  return result;
+}
+
+/**
+ * Convert an ed25519 secret key (64-byte seed||public key, or the 32-byte seed)
+ * to an X25519 secret key
+ */
+export function ed25519SecretKeyToX25519(secretKey: Uint8Array): Uint8Array {
+  if (secretKey.length !== 32 && secretKey.length !== 64) {
+    throw new RangeError('Ed25519 secret key must be 32 or 64 bytes');
+  }
+
+  const scalar = nacl.hash(secretKey.subarray(0, 32)).slice(0, 32);
+  scalar[0] &= 248;
+  scalar[31] &= 127;
+  scalar[31] |= 64;
+  return scalar;
+}
+
+function mod(value: bigint): bigint {
+  const result = value % P;
+  return result < 0n ? result + P : result;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = mod(result * b);
+    }
+    b = mod(b * b);
+    e >>= 1n;
+  }
+  return result;
+}